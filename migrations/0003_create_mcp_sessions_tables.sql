@@ -0,0 +1,33 @@
+-- Migration: Create MCP session, subscription and notification tables
+-- Supports the Streamable HTTP transport (Mcp-Session-Id, SSE notifications)
+
+-- MCP sessions (created by initialize, ended by DELETE /mcp)
+CREATE TABLE mcp_sessions (
+  id TEXT PRIMARY KEY,
+  protocol_version TEXT NOT NULL,
+  client_info TEXT,  -- JSON stringified clientInfo from initialize
+  created_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_mcp_sessions_expires ON mcp_sessions(expires_at);
+
+-- Resource subscriptions (resources/subscribe)
+CREATE TABLE mcp_subscriptions (
+  session_id TEXT NOT NULL,
+  uri TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (session_id, uri),
+  FOREIGN KEY (session_id) REFERENCES mcp_sessions(id) ON DELETE CASCADE
+);
+
+-- Notification log delivered over SSE (id doubles as the SSE event ID)
+CREATE TABLE mcp_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT,  -- NULL for notifications broadcast to every session
+  method TEXT NOT NULL,
+  params TEXT,      -- JSON stringified notification params
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_mcp_events_created ON mcp_events(created_at);
@@ -0,0 +1,6 @@
+-- Migration: Soft delete for skills (recycle bin)
+-- Deleted skills keep their versions and files until purged after the retention period
+
+ALTER TABLE skills ADD COLUMN deleted_at INTEGER;
+
+CREATE INDEX idx_skills_deleted_at ON skills(deleted_at);
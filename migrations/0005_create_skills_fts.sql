@@ -0,0 +1,23 @@
+-- Migration: Full-text search over the latest version of each skill
+-- One row per skill, refreshed whenever a new version is written
+
+CREATE VIRTUAL TABLE skills_fts USING fts5(
+  skill_id UNINDEXED,
+  name,
+  description,
+  skill_md,  -- SKILL.md of the latest version
+  content,   -- Paths and contents of the other files of the latest version
+  tokenize = 'porter unicode61'
+);
+
+-- Index existing skills
+INSERT INTO skills_fts (skill_id, name, description, skill_md, content)
+SELECT
+  s.id,
+  s.name,
+  COALESCE(s.description, ''),
+  COALESCE((SELECT f.content FROM skill_files f WHERE f.version_id = v.id AND f.path = 'SKILL.md'), ''),
+  COALESCE((SELECT group_concat(f.path || char(10) || f.content, char(10)) FROM skill_files f WHERE f.version_id = v.id AND f.path != 'SKILL.md'), '')
+FROM skills s
+JOIN skill_versions v ON v.skill_id = s.id
+WHERE v.version_number = (SELECT MAX(version_number) FROM skill_versions WHERE skill_id = s.id);
@@ -0,0 +1,16 @@
+-- Migration: Create api_keys table
+-- Scoped API keys; only the SHA-256 hash of each key is stored
+
+CREATE TABLE api_keys (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,  -- SHA-256 hex of the full key
+  key_prefix TEXT NOT NULL,       -- First characters of the key, for display
+  scopes TEXT NOT NULL,           -- JSON array: skills:read, skills:write, skills:admin
+  created_at INTEGER NOT NULL,
+  expires_at INTEGER,             -- NULL = never expires
+  last_used_at INTEGER,
+  revoked_at INTEGER              -- NULL = active
+);
+
+CREATE INDEX idx_api_keys_created ON api_keys(created_at);
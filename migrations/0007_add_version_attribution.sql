@@ -0,0 +1,10 @@
+-- Migration: Record who made each skill version
+-- created_by stays as the coarse 'ai' | 'human' classification; these columns
+-- hold the actual API key, MCP client and channel. NULL for versions created
+-- before this migration.
+
+ALTER TABLE skill_versions ADD COLUMN channel TEXT;         -- mcp, rest, zip-upload, web-editor
+ALTER TABLE skill_versions ADD COLUMN author_key_id TEXT;   -- api_keys.id, NULL for the bootstrap key
+ALTER TABLE skill_versions ADD COLUMN author_name TEXT;     -- API key name at the time of the change
+ALTER TABLE skill_versions ADD COLUMN client_name TEXT;     -- MCP clientInfo.name from initialize
+ALTER TABLE skill_versions ADD COLUMN client_version TEXT;  -- MCP clientInfo.version from initialize
@@ -0,0 +1,55 @@
+-- Migration: Content-addressed file storage
+-- File content moves to file_blobs, keyed by the SHA-256 of the content, and
+-- skill_files references it by hash, so unchanged files are stored once no
+-- matter how many versions include them.
+--
+-- SQL cannot compute SHA-256, so existing content is deduplicated here under
+-- temporary 'legacy:' keys; scheduled housekeeping rehashes them to their
+-- SHA-256 (as does POST /api/skills/consistency/repair).
+
+CREATE TABLE file_blobs (
+  hash TEXT PRIMARY KEY,            -- SHA-256 of content, lowercase hex
+  content TEXT NOT NULL,
+  size INTEGER NOT NULL,            -- UTF-8 bytes
+  created_at INTEGER NOT NULL
+);
+
+-- One blob per distinct content
+INSERT INTO file_blobs (hash, content, size, created_at)
+SELECT 'legacy:' || lower(hex(randomblob(16))), content, LENGTH(CAST(content AS BLOB)), MIN(created_at)
+FROM skill_files
+GROUP BY content;
+
+CREATE INDEX idx_file_blobs_content_migration ON file_blobs(content);
+
+-- Rebuild skill_files with a hash reference instead of the content
+-- (nothing references skill_files, so dropping it cascades nowhere)
+CREATE TABLE skill_files_new (
+  id TEXT PRIMARY KEY,
+  skill_id TEXT NOT NULL,
+  version_id TEXT NOT NULL,
+  path TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  is_executable INTEGER NOT NULL DEFAULT 0,
+  script_language TEXT,
+  run_instructions_for_ai TEXT,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (skill_id) REFERENCES skills(id) ON DELETE CASCADE,
+  FOREIGN KEY (version_id) REFERENCES skill_versions(id) ON DELETE CASCADE,
+  FOREIGN KEY (content_hash) REFERENCES file_blobs(hash)
+);
+
+INSERT INTO skill_files_new (
+  id, skill_id, version_id, path, content_hash, is_executable, script_language, run_instructions_for_ai, created_at
+)
+SELECT f.id, f.skill_id, f.version_id, f.path, b.hash, f.is_executable, f.script_language, f.run_instructions_for_ai, f.created_at
+FROM skill_files f
+JOIN file_blobs b ON b.content = f.content;
+
+DROP INDEX idx_file_blobs_content_migration;
+DROP TABLE skill_files;
+ALTER TABLE skill_files_new RENAME TO skill_files;
+
+CREATE INDEX idx_files_version ON skill_files(version_id);
+CREATE UNIQUE INDEX idx_files_version_path ON skill_files(version_id, path);
+CREATE INDEX idx_files_content_hash ON skill_files(content_hash);
@@ -0,0 +1,10 @@
+-- Migration: Binary skill assets
+-- Binary files (images, fonts, PDFs, ...) are stored in the ASSETS_BUCKET R2
+-- bucket under blobs/<sha256>; their file_blobs row keeps the hash and size
+-- with empty content so references, deduplication and cleanup work the same
+-- way as for text.
+
+ALTER TABLE file_blobs ADD COLUMN storage TEXT NOT NULL DEFAULT 'inline'
+  CHECK (storage IN ('inline', 'r2'));                   -- inline: content column; r2: ASSETS_BUCKET object
+
+ALTER TABLE skill_files ADD COLUMN mime_type TEXT;     -- NULL for files written before this migration
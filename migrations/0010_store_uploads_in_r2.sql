@@ -0,0 +1,17 @@
+-- Migration: Keep raw uploads in R2
+-- Upload sessions stored the whole decoded upload as JSON in skills_data, which
+-- fails for larger archives. The raw upload now goes to the ASSETS_BUCKET R2
+-- bucket under uploads/<session id> and is parsed again when needed; the row
+-- only keeps metadata. Sessions live for minutes, so existing ones are dropped.
+
+DROP TABLE upload_sessions;
+
+CREATE TABLE upload_sessions (
+  id TEXT PRIMARY KEY,
+  filename TEXT,               -- name of the uploaded file (names a skill at the archive root)
+  size INTEGER NOT NULL,       -- bytes of the raw upload
+  created_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_sessions_expires ON upload_sessions(expires_at);
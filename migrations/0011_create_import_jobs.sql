@@ -0,0 +1,33 @@
+-- Migration: Create import job tables
+-- Importing the selected skills of an upload runs as a job on the IMPORT_QUEUE
+-- queue. The raw upload is kept in R2 under imports/<job id> so that failed skills
+-- can be retried without uploading again.
+
+CREATE TABLE import_jobs (
+  id TEXT PRIMARY KEY,
+  filename TEXT,               -- name of the uploaded file (names a skill at the archive root)
+  strategy TEXT NOT NULL,      -- merge or replace, for skills that already exist
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_import_jobs_expires ON import_jobs(expires_at);
+
+-- One row per selected skill
+CREATE TABLE import_job_items (
+  job_id TEXT NOT NULL,
+  source_name TEXT NOT NULL,   -- name detected in the archive
+  name TEXT NOT NULL,          -- name the skill is imported as
+  position INTEGER NOT NULL,
+  status TEXT NOT NULL,        -- pending, running, success or failed
+  attempts INTEGER NOT NULL DEFAULT 0,
+  skill_id TEXT,
+  version INTEGER,
+  is_new INTEGER,
+  changes TEXT,                -- JSON stringified added/updated/deleted paths
+  error TEXT,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (job_id, source_name),
+  FOREIGN KEY (job_id) REFERENCES import_jobs(id) ON DELETE CASCADE
+);
@@ -0,0 +1,6 @@
+-- Migration: Add tags to skills
+-- Tags come from the `tags:` list of SKILL.md frontmatter and can be edited
+-- without creating a version. Stored as a JSON array of lowercase strings and
+-- queried with json_each; existing skills start without tags.
+
+ALTER TABLE skills ADD COLUMN tags TEXT NOT NULL DEFAULT '[]';
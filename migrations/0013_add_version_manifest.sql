@@ -0,0 +1,6 @@
+-- Migration: Store the SKILL.md manifest on each version
+-- The typed frontmatter (name, description, license, allowed-tools, version, tags,
+-- dependencies, arguments, metadata) as JSON, parsed when the version is written.
+-- Versions created before this migration keep NULL and are parsed when read.
+
+ALTER TABLE skill_versions ADD COLUMN manifest TEXT;
@@ -6,10 +6,11 @@
 import { useState } from 'react';
 import { SkillList } from './pages/SkillList';
 import { SkillDetail } from './pages/SkillDetail';
+import { ApiKeys } from './pages/ApiKeys';
 import { Login } from './components/Login';
 import { isAuthenticated, clearApiKey } from './lib/api';
 
-type View = { type: 'list' } | { type: 'detail'; skillId: string };
+type View = { type: 'list' } | { type: 'detail'; skillId: string } | { type: 'keys' };
 
 function App() {
   const [view, setView] = useState<View>({ type: 'list' });
@@ -32,16 +33,26 @@ function App() {
     <div className="min-h-screen bg-gray-100">
       <header className="bg-white border-b border-gray-200 px-8 py-4 shadow-sm flex justify-between items-center">
         <h1 className="text-2xl font-semibold text-gray-900 m-0">Skill Manager</h1>
-        <button 
-          className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded hover:bg-gray-50 hover:border-gray-400 transition-colors"
-          onClick={handleLogout}
-        >
-          Logout
-        </button>
+        <div className="flex gap-2">
+          <button
+            className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded hover:bg-gray-50 hover:border-gray-400 transition-colors"
+            onClick={() => setView({ type: 'keys' })}
+          >
+            API Keys
+          </button>
+          <button 
+            className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded hover:bg-gray-50 hover:border-gray-400 transition-colors"
+            onClick={handleLogout}
+          >
+            Logout
+          </button>
+        </div>
       </header>
       <main className="p-4">
         {view.type === 'list' ? (
           <SkillList onSelectSkill={(skillId) => setView({ type: 'detail', skillId })} />
+        ) : view.type === 'keys' ? (
+          <ApiKeys onBack={() => setView({ type: 'list' })} />
         ) : (
           <SkillDetail
             skillId={view.skillId}
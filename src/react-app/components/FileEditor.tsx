@@ -5,6 +5,7 @@
 import { useState, useEffect } from 'react';
 import Editor from '@monaco-editor/react';
 import type { SkillFile } from '../../shared/types';
+import { getEditorLanguage } from '../lib/language';
 
 interface FileEditorProps {
     file: SkillFile;
@@ -12,40 +13,6 @@ interface FileEditorProps {
     onCancel: () => void;
 }
 
-/**
- * Get language for Monaco editor
- */
-function getLanguage(file: SkillFile): string {
-    if (file.script_language) {
-        return file.script_language;
-    }
-
-    // Infer from file extension
-    const ext = file.path.split('.').pop()?.toLowerCase();
-    const langMap: Record<string, string> = {
-        ts: 'typescript',
-        tsx: 'typescript',
-        js: 'javascript',
-        jsx: 'javascript',
-        py: 'python',
-        rb: 'ruby',
-        go: 'go',
-        rs: 'rust',
-        java: 'java',
-        json: 'json',
-        yaml: 'yaml',
-        yml: 'yaml',
-        md: 'markdown',
-        sh: 'shell',
-        bash: 'shell',
-        sql: 'sql',
-        css: 'css',
-        html: 'html',
-    };
-
-    return langMap[ext || ''] || 'plaintext';
-}
-
 export function FileEditor({ file, onSave, onCancel }: FileEditorProps) {
     const [content, setContent] = useState(file.content);
     const [saving, setSaving] = useState(false);
@@ -64,7 +31,7 @@ export function FileEditor({ file, onSave, onCancel }: FileEditorProps) {
         }
     };
 
-    const language = getLanguage(file);
+    const language = getEditorLanguage(file);
 
     return (
         <div className="bg-white border border-gray-200 rounded-lg overflow-hidden flex flex-col h-[600px]">
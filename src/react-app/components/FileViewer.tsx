@@ -4,9 +4,11 @@
  */
 
 import type { SkillFile } from '../../shared/types';
+import { formatSize } from '../lib/format';
 
 interface FileViewerProps {
   file: SkillFile | null;
+  rawUrl: string; // URL of the file's raw bytes
   loading: boolean;
   error: string | null;
   onEdit?: () => void;
@@ -49,7 +51,7 @@ function getLanguageClass(file: SkillFile): string {
 /**
  * File Viewer Component
  */
-export function FileViewer({ file, loading, error, onEdit }: FileViewerProps) {
+export function FileViewer({ file, rawUrl, loading, error, onEdit }: FileViewerProps) {
   if (loading) {
     return (
       <div className="bg-white border border-gray-200 rounded-lg flex items-center justify-center min-h-48 text-gray-600">
@@ -89,7 +91,14 @@ export function FileViewer({ file, loading, error, onEdit }: FileViewerProps) {
             {file.script_language}
           </span>
         )}
-        {onEdit && (
+        <a
+          href={`${rawUrl}?download=true`}
+          download
+          className="px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-100 text-gray-700 no-underline"
+        >
+          Download
+        </a>
+        {onEdit && !file.is_binary && (
           <button
             onClick={onEdit}
             className="px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-100 cursor-pointer text-gray-700"
@@ -106,9 +115,20 @@ export function FileViewer({ file, loading, error, onEdit }: FileViewerProps) {
         </div>
       )}
 
-      <pre className={`m-0 p-4 overflow-x-auto font-mono text-sm leading-6 bg-gray-50 ${languageClass}`}>
-        <code>{file.content}</code>
-      </pre>
+      {file.is_binary ? (
+        <div className="p-4 bg-gray-50 text-sm text-gray-600">
+          <p className="m-0 mb-3">
+            Binary file · {file.mime_type} · {formatSize(file.size)}
+          </p>
+          {file.mime_type.startsWith('image/') && (
+            <img src={rawUrl} alt={file.path} className="max-w-full max-h-[600px] border border-gray-200 bg-white" />
+          )}
+        </div>
+      ) : (
+        <pre className={`m-0 p-4 overflow-x-auto font-mono text-sm leading-6 bg-gray-50 ${languageClass}`}>
+          <code>{file.content}</code>
+        </pre>
+      )}
     </div>
   );
 }
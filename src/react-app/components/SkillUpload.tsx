@@ -1,16 +1,42 @@
 /**
- * Skill Upload Component - ZIP file upload with preview and selection
+ * Skill Upload Component - archive upload (ZIP, .skill, tar, tar.gz) with preview and selection
  * Requirements: 1.1, 4.1, 4.2
  */
 
-import { useState, useRef, useCallback } from 'react';
-import type { ParseResult, ProcessResult, SkillPreview } from '../lib/api';
-import { parseZipUpload, processSkillUpload } from '../lib/api';
+import { useState, useRef, useCallback, useEffect } from 'react';
+import type {
+  ParseResult,
+  ImportJob,
+  ImportJobItem,
+  SkillPreview,
+  ImportStrategy,
+  ImportChanges,
+  ImportFileDiff,
+  RejectedEntry,
+} from '../lib/api';
+import {
+  parseZipUpload,
+  processSkillUpload,
+  fetchImportJob,
+  retryImportJob,
+  fetchUploadFileDiff,
+  fetchUploadPreview,
+} from '../lib/api';
 
 type UploadStep = 'select-file' | 'preview' | 'importing' | 'complete';
 
+/**
+ * How often import progress is refreshed (ms)
+ */
+const JOB_POLL_INTERVAL = 1000;
+
+/**
+ * How long after the last name edit the preview is compared again (ms)
+ */
+const RENAME_PREVIEW_DELAY = 400;
+
 interface SkillUploadProps {
-  onUploadComplete?: (result: ProcessResult) => void;
+  onUploadComplete?: (job: ImportJob) => void;
   onClose?: () => void;
 }
 
@@ -22,26 +48,84 @@ export function SkillUpload({ onUploadComplete, onClose }: SkillUploadProps) {
   const [error, setError] = useState<string>();
   const [parseResult, setParseResult] = useState<ParseResult>();
   const [selectedSkills, setSelectedSkills] = useState<Set<string>>(new Set());
-  const [processResult, setProcessResult] = useState<ProcessResult>();
+  const [strategy, setStrategy] = useState<ImportStrategy>('replace');
+  const [names, setNames] = useState<Record<string, string>>({});
+  // Renames the preview was compared with, as JSON of renamedSkills()
+  const [previewedNames, setPreviewedNames] = useState('{}');
+  const [job, setJob] = useState<ImportJob>();
+  // Failed progress requests in a row; each one schedules the next poll
+  const [pollFailures, setPollFailures] = useState(0);
+  const sessionId = parseResult?.session_id;
+  const renamedKey = JSON.stringify(renamedSkills(names));
+
+  // Show the job's progress until every skill has been imported or failed
+  const updateJob = useCallback((next: ImportJob) => {
+    setJob(next);
+    if (next.status === 'completed') {
+      setStep('complete');
+      onUploadComplete?.(next);
+    } else {
+      setStep('importing');
+    }
+  }, [onUploadComplete]);
+
+  useEffect(() => {
+    if (step !== 'importing' || !job) return;
+
+    // Back off while progress cannot be loaded, but keep polling
+    const timer = setTimeout(async () => {
+      try {
+        updateJob(await fetchImportJob(job.id));
+        if (pollFailures > 0) {
+          setPollFailures(0);
+          setError(undefined);
+        }
+      } catch (err) {
+        setError(
+          `${err instanceof Error ? err.message : 'Failed to load import progress'}; retrying...`
+        );
+        setPollFailures((failures) => failures + 1);
+      }
+    }, JOB_POLL_INTERVAL * Math.min(2 ** pollFailures, 30));
+    return () => clearTimeout(timer);
+  }, [step, job, updateJob, pollFailures]);
+
+  // Compare renamed skills with the skill of their new name once editing pauses
+  useEffect(() => {
+    if (step !== 'preview' || !sessionId || renamedKey === previewedNames) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const result = await fetchUploadPreview(sessionId, JSON.parse(renamedKey));
+        setParseResult(result);
+        setPreviewedNames(renamedKey);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to refresh preview');
+      }
+    }, RENAME_PREVIEW_DELAY);
+    return () => clearTimeout(timer);
+  }, [step, sessionId, renamedKey, previewedNames]);
 
   const handleFileSelect = useCallback(async (file: File) => {
     setError(undefined);
     setStep('preview');
+    setNames({});
+    setPreviewedNames('{}');
 
     try {
       const result = await parseZipUpload(file);
       setParseResult(result);
 
-      // Auto-select all valid skills
+      // Auto-select all valid skills that would change
       const validSkills = result.skills
-        .filter((s) => s.valid)
+        .filter((s) => s.valid && previewStatus(s, strategy) !== 'unchanged')
         .map((s) => s.name);
       setSelectedSkills(new Set(validSkills));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to parse ZIP');
+      setError(err instanceof Error ? err.message : 'Failed to parse archive');
       setStep('select-file');
     }
-  }, []);
+  }, [strategy]);
 
   const handleImport = useCallback(async () => {
     if (!parseResult || selectedSkills.size === 0) return;
@@ -50,25 +134,38 @@ export function SkillUpload({ onUploadComplete, onClose }: SkillUploadProps) {
     setStep('importing');
 
     try {
-      const result = await processSkillUpload(
-        parseResult.session_id,
-        Array.from(selectedSkills)
+      updateJob(
+        await processSkillUpload(parseResult.session_id, Array.from(selectedSkills), {
+          strategy,
+          names: renamedSkills(names),
+        })
       );
-      setProcessResult(result);
-      setStep('complete');
-      onUploadComplete?.(result);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to import skills');
       setStep('preview');
     }
-  }, [parseResult, selectedSkills, onUploadComplete]);
+  }, [parseResult, selectedSkills, strategy, names, updateJob]);
+
+  const handleRetry = useCallback(async () => {
+    if (!job) return;
+
+    setError(undefined);
+    try {
+      updateJob(await retryImportJob(job.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to retry import');
+    }
+  }, [job, updateJob]);
 
   const handleReset = useCallback(() => {
     setStep('select-file');
     setError(undefined);
     setParseResult(undefined);
     setSelectedSkills(new Set());
-    setProcessResult(undefined);
+    setNames({});
+    setPreviewedNames('{}');
+    setJob(undefined);
+    setPollFailures(0);
   }, []);
 
   return (
@@ -98,24 +195,36 @@ export function SkillUpload({ onUploadComplete, onClose }: SkillUploadProps) {
 
       {step === 'preview' && parseResult && (
         <SkillPreviewList
+          sessionId={parseResult.session_id}
           skills={parseResult.skills}
+          rejected={parseResult.rejected}
           selectedSkills={selectedSkills}
           onSelectionChange={setSelectedSkills}
+          strategy={strategy}
+          onStrategyChange={setStrategy}
+          names={names}
+          onNameChange={(skill, name) => setNames((current) => ({ ...current, [skill]: name }))}
+          previewPending={renamedKey !== previewedNames}
           onImport={handleImport}
           onCancel={handleReset}
         />
       )}
 
       {step === 'importing' && (
-        <div className="text-center py-12">
-          <div className="w-10 h-10 border-4 border-gray-200 border-t-blue-600 rounded-full mx-auto mb-4 animate-spin" />
-          <p className="text-gray-600">Importing skills...</p>
-        </div>
+        job ? (
+          <ImportProgress job={job} />
+        ) : (
+          <div className="text-center py-12">
+            <div className="w-10 h-10 border-4 border-gray-200 border-t-blue-600 rounded-full mx-auto mb-4 animate-spin" />
+            <p className="text-gray-600">Starting import...</p>
+          </div>
+        )
       )}
 
-      {step === 'complete' && processResult && (
+      {step === 'complete' && job && (
         <SkillImportResult
-          result={processResult}
+          job={job}
+          onRetry={handleRetry}
           onUploadMore={handleReset}
           onClose={onClose}
         />
@@ -152,8 +261,9 @@ function FileDropZone({ onFileSelect }: FileDropZoneProps) {
       e.preventDefault();
       setIsDragging(false);
 
+      // The server detects the archive format from the content
       const file = e.dataTransfer.files[0];
-      if (file && file.name.endsWith('.zip')) {
+      if (file) {
         onFileSelect(file);
       }
     },
@@ -188,14 +298,14 @@ function FileDropZone({ onFileSelect }: FileDropZoneProps) {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".zip"
+        accept=".zip,.skill,.tar,.tar.gz,.tgz"
         onChange={handleFileChange}
         style={{ display: 'none' }}
       />
       <div className="flex flex-col items-center gap-2">
         <span className="text-5xl">📦</span>
-        <p className="text-lg text-gray-900 m-0">Drop ZIP file here or click to browse</p>
-        <span className="text-sm text-gray-500">Supports ZIP files up to 10MB</span>
+        <p className="text-lg text-gray-900 m-0">Drop an archive here or click to browse</p>
+        <span className="text-sm text-gray-500">Supports ZIP, .skill, tar and tar.gz files up to 10MB</span>
       </div>
     </div>
   );
@@ -206,22 +316,75 @@ function FileDropZone({ onFileSelect }: FileDropZoneProps) {
  * Requirements: 3.1, 3.2
  */
 interface SkillPreviewListProps {
+  sessionId: string;
   skills: SkillPreview[];
+  rejected: RejectedEntry[];
   selectedSkills: Set<string>;
   onSelectionChange: (selected: Set<string>) => void;
+  strategy: ImportStrategy;
+  onStrategyChange: (strategy: ImportStrategy) => void;
+  names: Record<string, string>;
+  onNameChange: (skill: string, name: string) => void;
+  previewPending: boolean; // names were edited since the preview was compared
   onImport: () => void;
   onCancel: () => void;
 }
 
+/**
+ * Import strategy choices for skills that already exist
+ */
+const STRATEGY_OPTIONS: { value: ImportStrategy; label: string; hint: string }[] = [
+  { value: 'replace', label: 'Replace', hint: 'files not in the ZIP are deleted' },
+  { value: 'merge', label: 'Merge', hint: 'files not in the ZIP are kept' },
+];
+
+type PreviewStatus = 'new' | 'changed' | 'unchanged';
+
+const PREVIEW_STATUS_STYLES: Record<PreviewStatus, string> = {
+  new: 'bg-green-100 text-green-800',
+  changed: 'bg-yellow-100 text-yellow-800',
+  unchanged: 'bg-gray-200 text-gray-700',
+};
+
+/**
+ * Names edited in the preview that differ from the detected ones
+ */
+function renamedSkills(names: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(names)
+      .map(([skill, name]) => [skill, name.trim()])
+      .filter(([skill, name]) => name && name !== skill)
+  );
+}
+
+/**
+ * What importing a skill would do with the chosen strategy
+ */
+function previewStatus(skill: SkillPreview, strategy: ImportStrategy): PreviewStatus {
+  if (skill.existing_version === undefined || !skill.changes) return 'new';
+  const { added, updated, deleted } = skill.changes;
+  const fileCount = added.length + updated.length + (strategy === 'replace' ? deleted.length : 0);
+  return fileCount > 0 || skill.description_changed ? 'changed' : 'unchanged';
+}
+
 function SkillPreviewList({
+  sessionId,
   skills,
+  rejected,
   selectedSkills,
   onSelectionChange,
+  strategy,
+  onStrategyChange,
+  names,
+  onNameChange,
+  previewPending,
   onImport,
   onCancel,
 }: SkillPreviewListProps) {
   const validCount = skills.filter((s) => s.valid).length;
   const selectedCount = selectedSkills.size;
+  const [expanded, setExpanded] = useState<string>();
+  const renamed = renamedSkills(names);
 
   const toggleSkill = (name: string) => {
     const newSelected = new Set(selectedSkills);
@@ -258,6 +421,21 @@ function SkillPreviewList({
         </div>
       </div>
 
+      {rejected.length > 0 && (
+        <details className="bg-yellow-50 text-yellow-900 border border-yellow-200 rounded px-4 py-3 text-sm">
+          <summary className="cursor-pointer">
+            {rejected.length} {rejected.length === 1 ? 'entry' : 'entries'} in the archive skipped
+          </summary>
+          <ul className="list-none p-0 m-0 mt-2 flex flex-col gap-1 max-h-40 overflow-y-auto">
+            {rejected.map((entry, i) => (
+              <li key={i}>
+                <span className="font-mono break-all">{entry.path}</span>: {entry.reason}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
       <div className="flex flex-col gap-2 max-h-80 overflow-y-auto">
         {skills.map((skill) => (
           <div
@@ -268,20 +446,64 @@ function SkillPreviewList({
                 : 'bg-gray-50 border-gray-200'
             }`}
           >
-            <label className="flex items-center gap-2 cursor-pointer">
+            <div className="flex items-center gap-2">
               <input
                 type="checkbox"
                 checked={selectedSkills.has(skill.name)}
                 onChange={() => toggleSkill(skill.name)}
                 disabled={!skill.valid}
-                className="w-4 h-4"
+                aria-label={`Import ${skill.name}`}
+                className="w-4 h-4 cursor-pointer"
               />
-              <span className="font-medium text-gray-900">{skill.name}</span>
-            </label>
-            <span className="float-right text-gray-500 text-sm">{skill.file_count} files</span>
+              {skill.valid ? (
+                <input
+                  type="text"
+                  value={names[skill.name] ?? skill.name}
+                  onChange={(e) => onNameChange(skill.name, e.target.value)}
+                  aria-label={`Name for ${skill.name}`}
+                  title="Skill name to import as"
+                  className="font-medium text-gray-900 bg-transparent border border-transparent hover:border-gray-300 focus:border-blue-500 focus:bg-white rounded px-1 min-w-0 flex-1 max-w-64"
+                />
+              ) : (
+                <span className="font-medium text-gray-900">{skill.name}</span>
+              )}
+              {skill.valid && renamed[skill.name] && (
+                <span className="text-xs px-1.5 py-0.5 rounded bg-blue-100 text-blue-800">renamed</span>
+              )}
+              {skill.valid && (
+                <span className={`text-xs px-1.5 py-0.5 rounded ${PREVIEW_STATUS_STYLES[previewStatus(skill, strategy)]}`}>
+                  {previewStatus(skill, strategy)}
+                  {skill.existing_version !== undefined && ` (v${skill.existing_version})`}
+                </span>
+              )}
+              <span className="ml-auto text-gray-500 text-sm whitespace-nowrap">{skill.file_count} files</span>
+            </div>
+            {skill.path && skill.path !== `${skill.name}/` && (
+              <p className="text-gray-500 text-xs font-mono mt-1 ml-6 mb-0">{skill.path}</p>
+            )}
             {skill.description && (
               <p className="text-gray-600 text-sm mt-2 ml-6 mb-0">{skill.description}</p>
             )}
+            {skill.valid && skill.changes && previewStatus(skill, strategy) === 'changed' && (
+              <div className="mt-2 ml-6">
+                <button
+                  onClick={() => setExpanded(expanded === skill.name ? undefined : skill.name)}
+                  className="text-blue-600 hover:underline cursor-pointer text-sm p-0 bg-none border-none"
+                >
+                  {expanded === skill.name ? 'Hide changes' : 'Show changes'}
+                </button>
+                {expanded === skill.name && (
+                  <PreviewChanges
+                    sessionId={sessionId}
+                    skillName={skill.name}
+                    targetName={renamed[skill.name]}
+                    changes={skill.changes}
+                    descriptionChanged={skill.description_changed ?? false}
+                    strategy={strategy}
+                  />
+                )}
+              </div>
+            )}
             {!skill.valid && (
               <div className="mt-2 ml-6">
                 {skill.errors.map((err, i) => (
@@ -295,6 +517,26 @@ function SkillPreviewList({
         ))}
       </div>
 
+      <fieldset className="border border-gray-200 rounded px-4 py-3 m-0">
+        <legend className="text-sm text-gray-600 px-1">Existing skills</legend>
+        <div className="flex flex-col gap-1">
+          {STRATEGY_OPTIONS.map((option) => (
+            <label key={option.value} className="flex items-center gap-2 cursor-pointer text-sm">
+              <input
+                type="radio"
+                name="import-strategy"
+                value={option.value}
+                checked={strategy === option.value}
+                onChange={() => onStrategyChange(option.value)}
+                className="w-4 h-4"
+              />
+              <span className="font-medium text-gray-900">{option.label}</span>
+              <span className="text-gray-500">{option.hint}</span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
       <div className="flex justify-end gap-3 mt-2">
         <button 
           onClick={onCancel} 
@@ -304,7 +546,7 @@ function SkillPreviewList({
         </button>
         <button
           onClick={onImport}
-          disabled={selectedCount === 0}
+          disabled={selectedCount === 0 || previewPending}
           className="px-4 py-2 bg-blue-600 text-white border-none rounded hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
         >
           Import {selectedCount} skill(s)
@@ -315,18 +557,169 @@ function SkillPreviewList({
 }
 
 
+/**
+ * Files an import would add, update or delete, with a line diff of the selected file
+ */
+interface PreviewChangesProps {
+  sessionId: string;
+  skillName: string;
+  targetName?: string; // name chosen in the preview
+  changes: ImportChanges;
+  descriptionChanged: boolean;
+  strategy: ImportStrategy;
+}
+
+function PreviewChanges({ sessionId, skillName, targetName, changes, descriptionChanged, strategy }: PreviewChangesProps) {
+  const [selected, setSelected] = useState<string>();
+  const [diff, setDiff] = useState<ImportFileDiff>();
+  const [error, setError] = useState<string>();
+
+  const files = [
+    ...changes.added.map((path) => ({ path, label: 'added', className: 'bg-green-100 text-green-800' })),
+    ...changes.updated.map((path) => ({ path, label: 'modified', className: 'bg-yellow-100 text-yellow-800' })),
+    ...changes.deleted.map((path) =>
+      strategy === 'replace'
+        ? { path, label: 'removed', className: 'bg-red-100 text-red-800' }
+        : { path, label: 'kept', className: 'bg-gray-200 text-gray-700' }
+    ),
+  ];
+
+  const showDiff = async (path: string) => {
+    if (selected === path) {
+      setSelected(undefined);
+      return;
+    }
+    setSelected(path);
+    setDiff(undefined);
+    setError(undefined);
+    try {
+      setDiff(await fetchUploadFileDiff(sessionId, skillName, path, targetName));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load diff');
+    }
+  };
+
+  return (
+    <div className="mt-2 flex flex-col gap-1">
+      {descriptionChanged && <p className="m-0 text-sm text-gray-600">Description changed</p>}
+      {files.map((file) => (
+        <div key={file.path}>
+          <button
+            onClick={() => showDiff(file.path)}
+            disabled={file.label === 'kept'}
+            className={`flex items-center gap-2 p-1 rounded text-left border-none w-full ${
+              selected === file.path ? 'bg-blue-50' : 'bg-transparent hover:bg-gray-100'
+            } cursor-pointer disabled:cursor-default disabled:hover:bg-transparent`}
+          >
+            <span className={`text-xs px-1.5 py-0.5 rounded ${file.className}`}>{file.label}</span>
+            <span className="text-sm font-mono break-all">{file.path}</span>
+          </button>
+          {selected === file.path && (
+            <>
+              {error && <p className="m-0 text-sm text-red-600">{error}</p>}
+              {!diff && !error && <p className="m-0 text-sm text-gray-600">Loading diff...</p>}
+              {diff && diff.path === file.path && <UnifiedDiff diff={diff.diff} />}
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Unified diff text with added and removed lines highlighted
+ */
+function UnifiedDiff({ diff }: { diff: string }) {
+  const lineClass = (line: string) =>
+    line.startsWith('+++') || line.startsWith('---')
+      ? 'text-gray-500'
+      : line.startsWith('+')
+        ? 'bg-green-50 text-green-800'
+        : line.startsWith('-')
+          ? 'bg-red-50 text-red-800'
+          : line.startsWith('@@')
+            ? 'text-blue-700'
+            : 'text-gray-700';
+
+  return (
+    <pre className="m-0 mt-1 max-h-64 overflow-auto bg-white border border-gray-200 rounded text-xs p-2">
+      {diff.split('\n').map((line, i) => (
+        <div key={i} className={lineClass(line)}>
+          {line || ' '}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+/**
+ * Live progress of an import job
+ */
+const JOB_ITEM_STATUS_STYLES: Record<ImportJobItem['status'], { icon: string; className: string }> = {
+  pending: { icon: '○', className: 'text-gray-400' },
+  running: { icon: '◐', className: 'text-blue-600 animate-pulse' },
+  success: { icon: '✓', className: 'text-green-700' },
+  failed: { icon: '✗', className: 'text-red-700' },
+};
+
+function ImportProgress({ job }: { job: ImportJob }) {
+  const done = job.total - job.pending;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="text-center">
+        <h4 className="text-lg font-semibold text-gray-900 m-0 mb-2">
+          {job.status === 'queued' ? 'Import queued' : 'Importing skills...'}
+        </h4>
+        <p className="text-gray-600 m-0">
+          {done} of {job.total} skill(s) done
+          {job.failed > 0 && `, ${job.failed} failed`}
+        </p>
+      </div>
+
+      <div
+        className="h-2 bg-gray-200 rounded overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={job.total}
+        aria-valuenow={done}
+      >
+        <div
+          className="h-full bg-blue-600 transition-all"
+          style={{ width: `${job.total ? (done / job.total) * 100 : 100}%` }}
+        />
+      </div>
+
+      <ul className="list-none p-0 m-0 flex flex-col gap-1 max-h-64 overflow-y-auto">
+        {job.results.map((item) => (
+          <li key={item.source_name} className="flex items-center gap-2 px-2 py-1 text-sm">
+            <span className={`font-bold ${JOB_ITEM_STATUS_STYLES[item.status].className}`}>
+              {JOB_ITEM_STATUS_STYLES[item.status].icon}
+            </span>
+            <span className="font-medium flex-1">{item.name}</span>
+            <span className="text-gray-500">{item.status}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 /**
  * Import result display
  * Requirements: 4.3, 4.4, 4.5, 4.6
  */
 interface SkillImportResultProps {
-  result: ProcessResult;
+  job: ImportJob;
+  onRetry?: () => void;
   onUploadMore?: () => void;
   onClose?: () => void;
 }
 
 function SkillImportResult({
-  result,
+  job,
+  onRetry,
   onUploadMore,
   onClose,
 }: SkillImportResultProps) {
@@ -335,14 +728,14 @@ function SkillImportResult({
       <div className="text-center">
         <h4 className="text-lg font-semibold text-gray-900 m-0 mb-2">Import Complete</h4>
         <p className="text-gray-600 m-0">
-          {result.successful} of {result.total} skill(s) imported successfully
+          {job.successful} of {job.total} skill(s) imported successfully
         </p>
       </div>
 
       <div className="flex flex-col gap-2 max-h-64 overflow-y-auto">
-        {result.results.map((item) => (
+        {job.results.map((item) => (
           <div
-            key={item.name}
+            key={item.source_name}
             className={`flex items-center gap-2 px-4 py-3 rounded flex-wrap ${
               item.status === 'success' ? 'bg-green-50' : 'bg-red-50'
             }`}
@@ -355,9 +748,12 @@ function SkillImportResult({
             <span className="font-medium flex-1">{item.name}</span>
             {item.status === 'success' && (
               <span className="text-sm text-green-700">
-                v{item.version} {item.is_new ? '(new)' : '(updated)'}
+                v{item.version} {item.is_new ? '(new)' : hasChanges(item.changes) ? '(updated)' : '(unchanged)'}
               </span>
             )}
+            {item.status === 'success' && !item.is_new && item.changes && hasChanges(item.changes) && (
+              <ImportChangeList changes={item.changes} />
+            )}
             {item.status === 'failed' && item.error && (
               <span className="w-full mt-1 text-red-700 text-sm">{item.error}</span>
             )}
@@ -366,6 +762,14 @@ function SkillImportResult({
       </div>
 
       <div className="flex justify-center gap-3 mt-2">
+        {onRetry && job.failed > 0 && (
+          <button
+            onClick={onRetry}
+            className="px-4 py-2 bg-white text-red-700 border border-red-300 rounded hover:bg-red-50 transition-colors"
+          >
+            Retry {job.failed} failed
+          </button>
+        )}
         {onUploadMore && (
           <button 
             onClick={onUploadMore} 
@@ -386,3 +790,31 @@ function SkillImportResult({
     </div>
   );
 }
+
+/**
+ * Whether an import changed any file
+ */
+function hasChanges(changes?: ImportChanges): boolean {
+  return !!changes && changes.added.length + changes.updated.length + changes.deleted.length > 0;
+}
+
+/**
+ * Files added, updated and deleted by importing an existing skill
+ */
+function ImportChangeList({ changes }: { changes: ImportChanges }) {
+  const groups = [
+    { label: 'Added', paths: changes.added, className: 'text-green-700' },
+    { label: 'Updated', paths: changes.updated, className: 'text-blue-700' },
+    { label: 'Deleted', paths: changes.deleted, className: 'text-red-700' },
+  ].filter((group) => group.paths.length > 0);
+
+  return (
+    <div className="w-full mt-1 ml-6 text-sm">
+      {groups.map((group) => (
+        <div key={group.label} className={group.className}>
+          {group.label}: <span className="font-mono">{group.paths.join(', ')}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
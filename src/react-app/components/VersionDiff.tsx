@@ -0,0 +1,204 @@
+/**
+ * Version Diff Component
+ * Side-by-side comparison of two skill versions using the Monaco diff editor
+ */
+
+import { useState, useEffect } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import type { SkillVersionDiff, SkillFileDiff } from '../../shared/types';
+import { fetchSkillDiff, fetchSkillFile } from '../lib/api';
+import { getEditorLanguage } from '../lib/language';
+
+interface VersionDiffProps {
+  skillId: string;
+  latestVersion: number;
+  initialFrom: number;
+  initialTo: number;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<SkillFileDiff['status'], string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  modified: 'bg-yellow-100 text-yellow-800',
+};
+
+/**
+ * Version number dropdown
+ */
+function VersionSelect({
+  id,
+  label,
+  value,
+  latestVersion,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: number;
+  latestVersion: number;
+  onChange: (version: number) => void;
+}) {
+  return (
+    <label htmlFor={id} className="flex items-center gap-2 text-gray-700">
+      {label}
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(parseInt(e.target.value, 10))}
+        className="px-2 py-1 border border-gray-300 rounded text-base"
+      >
+        {Array.from({ length: latestVersion }, (_, i) => latestVersion - i).map((v) => (
+          <option key={v} value={v}>
+            v{v}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+/**
+ * Compare two versions of a skill
+ */
+export function VersionDiff({ skillId, latestVersion, initialFrom, initialTo, onClose }: VersionDiffProps) {
+  const [from, setFrom] = useState(initialFrom);
+  const [to, setTo] = useState(initialTo);
+  const [diff, setDiff] = useState<SkillVersionDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<SkillFileDiff | null>(null);
+  const [contents, setContents] = useState<{ original: string; modified: string; binary: boolean } | null>(null);
+
+  // Load the file list whenever the compared versions change
+  useEffect(() => {
+    let cancelled = false;
+    setDiff(null);
+    setError(null);
+    setSelected(null);
+
+    fetchSkillDiff(skillId, from, to)
+      .then((data) => {
+        if (cancelled) return;
+        setDiff(data);
+        setSelected(data.files[0] ?? null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load diff');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [skillId, from, to]);
+
+  // Load both sides of the selected file
+  useEffect(() => {
+    if (!selected) {
+      setContents(null);
+      return;
+    }
+
+    let cancelled = false;
+    setContents(null);
+
+    Promise.all([
+      selected.status === 'added' ? null : fetchSkillFile(skillId, from, selected.path),
+      selected.status === 'removed' ? null : fetchSkillFile(skillId, to, selected.path),
+    ])
+      .then(([original, modified]) => {
+        if (!cancelled) {
+          setContents({
+            original: original?.content ?? '',
+            modified: modified?.content ?? '',
+            binary: Boolean(original?.is_binary || modified?.is_binary),
+          });
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load file');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [skillId, from, to, selected]);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+      <div className="flex flex-wrap items-center gap-4 px-4 py-3 bg-gray-50 border-b border-gray-200">
+        <span className="font-medium">Compare versions</span>
+        <VersionSelect id="diff-from" label="From" value={from} latestVersion={latestVersion} onChange={setFrom} />
+        <VersionSelect id="diff-to" label="To" value={to} latestVersion={latestVersion} onChange={setTo} />
+        <button
+          onClick={onClose}
+          className="ml-auto px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-100 cursor-pointer text-gray-700"
+        >
+          Close
+        </button>
+      </div>
+
+      {error && <p className="px-4 py-3 m-0 text-red-600">{error}</p>}
+      {!diff && !error && <p className="px-4 py-3 m-0 text-gray-600">Loading diff...</p>}
+
+      {diff && (
+        <div className="grid grid-cols-1 lg:grid-cols-[250px_1fr] min-h-96">
+          <div className="border-b lg:border-b-0 lg:border-r border-gray-200 p-4">
+            {diff.files.length === 0 ? (
+              <p className="m-0 text-sm text-gray-500">No differences</p>
+            ) : (
+              <ul className="list-none p-0 m-0">
+                {diff.files.map((file) => (
+                  <li key={file.path}>
+                    <button
+                      onClick={() => setSelected(file)}
+                      className={`w-full flex items-center gap-2 p-2 rounded text-left border-none cursor-pointer ${selected?.path === file.path ? 'bg-blue-50' : 'bg-transparent hover:bg-gray-100'}`}
+                    >
+                      <span className={`text-xs px-1.5 py-0.5 rounded ${STATUS_STYLES[file.status]}`}>
+                        {file.status}
+                      </span>
+                      <span className="text-sm break-all">{file.path}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {diff.unchanged > 0 && (
+              <p className="mt-3 mb-0 text-xs text-gray-500">
+                {diff.unchanged} unchanged {diff.unchanged === 1 ? 'file' : 'files'}
+              </p>
+            )}
+          </div>
+
+          <div className="min-w-0 h-[600px]">
+            {selected && selected.changes && !selected.changes.includes('content') && (
+              <p className="px-4 py-2 m-0 text-sm text-gray-600 bg-gray-50 border-b border-gray-200">
+                Content unchanged; changed: {selected.changes.join(', ')}
+              </p>
+            )}
+            {selected && contents?.binary ? (
+              <p className="px-4 py-3 m-0 text-gray-600">
+                Binary file {selected.status}; no text diff available
+              </p>
+            ) : selected && contents ? (
+              <DiffEditor
+                height="100%"
+                language={getEditorLanguage({ path: selected.path, script_language: null })}
+                original={contents.original}
+                modified={contents.modified}
+                options={{
+                  readOnly: true,
+                  minimap: { enabled: false },
+                  scrollBeyondLastLine: false,
+                  fontSize: 14,
+                  renderSideBySide: true,
+                }}
+              />
+            ) : (
+              selected && <p className="px-4 py-3 m-0 text-gray-600">Loading file...</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
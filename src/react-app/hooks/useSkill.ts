@@ -4,7 +4,7 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { SkillDetail, SkillFile, SkillVersion } from '../../shared/types';
+import type { SkillDetail, SkillFile, SkillVersionSummary } from '../../shared/types';
 import { fetchSkill, fetchSkillVersions, fetchSkillFile } from '../lib/api';
 
 // ============================================================================
@@ -74,47 +74,75 @@ export function useSkill(skillId: string, initialVersion?: number): UseSkillRetu
 // ============================================================================
 
 interface UseSkillVersionsState {
-  versions: SkillVersion[];
+  versions: SkillVersionSummary[];
+  total: number;
   loading: boolean;
   error: string | null;
 }
 
-export function useSkillVersions(skillId: string): UseSkillVersionsState & { refetch: () => void } {
+interface UseSkillVersionsReturn extends UseSkillVersionsState {
+  hasMore: boolean;
+  loadMore: () => void;
+  refetch: () => void;
+}
+
+const VERSIONS_PAGE_SIZE = 20;
+
+export function useSkillVersions(skillId: string): UseSkillVersionsReturn {
   const [state, setState] = useState<UseSkillVersionsState>({
     versions: [],
+    total: 0,
     loading: true,
     error: null,
   });
   const mountedRef = useRef(true);
 
-  const loadVersions = useCallback(async () => {
+  const loadVersions = useCallback(async (offset: number) => {
     setState((prev) => ({ ...prev, loading: true, error: null }));
 
     try {
-      const data = await fetchSkillVersions(skillId);
+      const data = await fetchSkillVersions(skillId, { limit: VERSIONS_PAGE_SIZE, offset });
       if (mountedRef.current) {
-        setState({ versions: data.versions, loading: false, error: null });
+        setState((prev) => ({
+          versions: offset === 0 ? data.versions : [...prev.versions, ...data.versions],
+          total: data.total,
+          loading: false,
+          error: null,
+        }));
       }
     } catch (err) {
       if (mountedRef.current) {
-        setState({
-          versions: [],
+        setState((prev) => ({
+          ...prev,
           loading: false,
           error: err instanceof Error ? err.message : 'Failed to load versions',
-        });
+        }));
       }
     }
   }, [skillId]);
 
   useEffect(() => {
     mountedRef.current = true;
-    loadVersions();
+    loadVersions(0);
     return () => {
       mountedRef.current = false;
     };
   }, [loadVersions]);
 
-  return { ...state, refetch: loadVersions };
+  const loadMore = useCallback(() => {
+    loadVersions(state.versions.length);
+  }, [loadVersions, state.versions.length]);
+
+  const refetch = useCallback(() => {
+    loadVersions(0);
+  }, [loadVersions]);
+
+  return {
+    ...state,
+    hasMore: state.versions.length < state.total,
+    loadMore,
+    refetch,
+  };
 }
 
 // ============================================================================
@@ -4,11 +4,11 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import type { SkillWithVersion } from '../../shared/types';
+import type { SkillWithVersion, SkillSearchResult } from '../../shared/types';
 import { fetchSkills, type ListSkillsParams } from '../lib/api';
 
 interface UseSkillsState {
-  skills: SkillWithVersion[];
+  skills: Array<SkillWithVersion | SkillSearchResult>;
   loading: boolean;
   error: string | null;
   count: number;
@@ -19,7 +19,7 @@ interface UseSkillsReturn extends UseSkillsState {
   setParams: (params: ListSkillsParams) => void;
   updateSkill: (skillId: string, updates: Partial<SkillWithVersion>) => void;
   rollbackSkill: (skillId: string) => void;
-  filteredSkills: SkillWithVersion[];
+  filteredSkills: Array<SkillWithVersion | SkillSearchResult>;
 }
 
 /**
@@ -5,12 +5,19 @@
 
 import type {
   SkillWithVersion,
+  SkillSearchResult,
   SkillDetail,
   SkillFile,
-  SkillVersion,
+  SkillVersionHistory,
+  SkillVersionDiff,
+  ListVersionsOptions,
   UpdateSkillInput,
+  ApiKey,
+  CreatedApiKey,
+  CreateApiKeyInput,
   APIResponse,
   APIError,
+  TagCount,
 } from '../../shared/types';
 
 const API_BASE = '/api';
@@ -21,6 +28,19 @@ const API_KEY_STORAGE_KEY = 'skill_manager_api_key';
  */
 type ApiResult<T> = APIResponse<T> | APIError;
 
+/**
+ * Error returned by the API, keeping its code and details
+ */
+export class ApiRequestError extends Error {
+  readonly error: APIError['error'];
+
+  constructor(error: APIError['error']) {
+    super(error.message);
+    this.name = 'ApiRequestError';
+    this.error = error;
+  }
+}
+
 // ============================================================================
 // Auth utilities
 // ============================================================================
@@ -72,6 +92,8 @@ async function apiFetch<T>(path: string, options?: RequestInit): Promise<T> {
     ...options,
     headers: {
       'Content-Type': 'application/json',
+      // Attributes versions saved from the UI to the web editor channel
+      'X-Client-Channel': 'web-editor',
       ...getAuthHeaders(),
       ...options?.headers,
     },
@@ -80,7 +102,7 @@ async function apiFetch<T>(path: string, options?: RequestInit): Promise<T> {
   const data = (await response.json()) as ApiResult<T>;
 
   if (!data.ok) {
-    throw new Error(data.error.message);
+    throw new ApiRequestError(data.error);
   }
 
   return data.data;
@@ -94,13 +116,14 @@ export interface ListSkillsParams {
   limit?: number;
   offset?: number;
   query?: string;
+  tags?: string[]; // only skills with all of these tags
 }
 
 /**
  * List skills response
  */
 export interface ListSkillsResponse {
-  skills: SkillWithVersion[];
+  skills: Array<SkillWithVersion | SkillSearchResult>; // search results when a query is given
   count: number;
 }
 
@@ -113,6 +136,7 @@ export async function fetchSkills(params: ListSkillsParams = {}): Promise<ListSk
   if (params.limit) searchParams.set('limit', params.limit.toString());
   if (params.offset) searchParams.set('offset', params.offset.toString());
   if (params.query) searchParams.set('query', params.query);
+  if (params.tags?.length) searchParams.set('tags', params.tags.join(','));
   searchParams.set('detailed', 'true'); // Always request detailed format for web UI
 
   const queryString = searchParams.toString();
@@ -130,12 +154,33 @@ export async function fetchSkill(skillId: string, version?: number): Promise<Ski
 }
 
 /**
- * Fetch skill versions
+ * Fetch a page of skill version history (newest first)
  */
 export async function fetchSkillVersions(
-  skillId: string
-): Promise<{ versions: SkillVersion[] }> {
-  return apiFetch<{ versions: SkillVersion[] }>(`/skills/${skillId}/versions`);
+  skillId: string,
+  params: ListVersionsOptions = {}
+): Promise<SkillVersionHistory> {
+  const searchParams = new URLSearchParams();
+  if (params.limit) searchParams.set('limit', params.limit.toString());
+  if (params.offset) searchParams.set('offset', params.offset.toString());
+
+  const queryString = searchParams.toString();
+  const path = queryString
+    ? `/skills/${skillId}/versions?${queryString}`
+    : `/skills/${skillId}/versions`;
+
+  return apiFetch<SkillVersionHistory>(path);
+}
+
+/**
+ * Fetch the differences between two skill versions
+ */
+export async function fetchSkillDiff(
+  skillId: string,
+  from: number,
+  to: number
+): Promise<SkillVersionDiff> {
+  return apiFetch<SkillVersionDiff>(`/skills/${skillId}/diff?from=${from}&to=${to}`);
 }
 
 /**
@@ -149,6 +194,51 @@ export async function fetchSkillFile(
   return apiFetch<SkillFile>(`/skills/${skillId}/versions/${version}/files/${filePath}`);
 }
 
+/**
+ * URL of a file's raw bytes, e.g. for previewing or downloading binary files
+ */
+export function skillFileRawUrl(skillId: string, version: number, filePath: string, download = false): string {
+  return `${API_BASE}/skills/${skillId}/versions/${version}/raw/${filePath}${download ? '?download=true' : ''}`;
+}
+
+/**
+ * URL of a ZIP export of one skill version (default: latest)
+ */
+export function skillExportUrl(skillId: string, version?: number): string {
+  return `${API_BASE}/skills/${skillId}/export${version !== undefined ? `?version=${version}` : ''}`;
+}
+
+/**
+ * Download a ZIP export of all skills, optionally limited to a search query and tags
+ * The bulk export requires auth, so it is fetched rather than linked.
+ */
+export async function downloadSkillsExport(query?: string, tags?: string[]): Promise<{ blob: Blob; filename: string }> {
+  const searchParams = new URLSearchParams();
+  if (query) searchParams.set('query', query);
+  if (tags?.length) searchParams.set('tags', tags.join(','));
+  const queryString = searchParams.toString();
+
+  const response = await fetch(`${API_BASE}/skills/export${queryString ? `?${queryString}` : ''}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const data = (await response.json()) as APIError;
+    throw new ApiRequestError(data.error);
+  }
+
+  const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') ?? '')?.[1];
+  return { blob: await response.blob(), filename: filename ?? 'skills.zip' };
+}
+
+/**
+ * List the tags in use with the number of skills carrying each
+ */
+export async function fetchTags(): Promise<TagCount[]> {
+  const data = await apiFetch<{ tags: TagCount[] }>('/skills/tags');
+  return data.tags;
+}
+
 /**
  * Update skill status
  */
@@ -175,21 +265,106 @@ export async function updateSkill(
   });
 }
 
+/**
+ * Roll back a skill to an earlier version (creates a new version)
+ */
+export async function rollbackSkill(skillId: string, version: number): Promise<SkillDetail> {
+  return apiFetch<SkillDetail>(`/skills/${skillId}/rollback`, {
+    method: 'POST',
+    body: JSON.stringify({ version }),
+  });
+}
+
+/**
+ * Move a skill to the trash
+ */
+export async function deleteSkill(skillId: string): Promise<SkillWithVersion> {
+  return apiFetch<SkillWithVersion>(`/skills/${skillId}`, {
+    method: 'DELETE',
+  });
+}
+
+
+// ============================================================================
+// API Key Management (requires skills:admin)
+// ============================================================================
+
+/**
+ * List API keys
+ */
+export async function fetchApiKeys(): Promise<{ keys: ApiKey[] }> {
+  return apiFetch<{ keys: ApiKey[] }>('/keys');
+}
+
+/**
+ * Create an API key; the returned key is only shown once
+ */
+export async function createApiKey(input: CreateApiKeyInput): Promise<CreatedApiKey> {
+  return apiFetch<CreatedApiKey>('/keys', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Revoke an API key
+ */
+export async function revokeApiKey(keyId: string): Promise<ApiKey> {
+  return apiFetch<ApiKey>(`/keys/${keyId}`, {
+    method: 'DELETE',
+  });
+}
 
 // ============================================================================
 // Upload API Types and Functions
 // Requirements: 5.1, 5.2
 // ============================================================================
 
+/**
+ * How a ZIP folder is applied to a skill that already exists
+ */
+export type ImportStrategy = 'merge' | 'replace';
+
+/**
+ * Paths added, updated and deleted by importing a skill
+ */
+export interface ImportChanges {
+  added: string[];
+  updated: string[];
+  deleted: string[];
+}
+
 /**
  * Skill preview from ZIP parsing
+ * Existing skills carry the changes the replace strategy would apply to their latest version
  */
 export interface SkillPreview {
   name: string;
+  path: string; // directory of the skill within the ZIP ('' for the root)
   valid: boolean;
   file_count: number;
   errors: string[];
   description?: string;
+  existing_version?: number;
+  changes?: ImportChanges;
+  description_changed?: boolean;
+}
+
+/**
+ * Options for importing the selected skills
+ */
+export interface ProcessOptions {
+  strategy?: ImportStrategy;
+  names?: Record<string, string>; // detected name -> name to import the skill as
+}
+
+/**
+ * Line diff of an uploaded file against the existing skill
+ */
+export interface ImportFileDiff {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  diff: string;
 }
 
 /**
@@ -198,9 +373,18 @@ export interface SkillPreview {
 export interface ParseResult {
   session_id: string;
   skills: SkillPreview[];
+  rejected: RejectedEntry[];
   expires_at: number;
 }
 
+/**
+ * Archive entry left out of an upload
+ */
+export interface RejectedEntry {
+  path: string;
+  reason: string;
+}
+
 /**
  * Result of importing a single skill
  */
@@ -211,16 +395,36 @@ export interface SkillImportResult {
   version?: number;
   error?: string;
   is_new?: boolean;
+  changes?: ImportChanges;
+}
+
+export type ImportJobItemStatus = 'pending' | 'running' | 'success' | 'failed';
+
+/**
+ * Progress of one skill of an import job
+ */
+export interface ImportJobItem extends Omit<SkillImportResult, 'status'> {
+  source_name: string; // name detected in the archive
+  status: ImportJobItemStatus;
+  attempts: number;
 }
 
 /**
- * Result of processing selected skills
+ * Import job started by processing selected skills
  */
-export interface ProcessResult {
+export interface ImportJob {
+  id: string;
+  filename: string | null;
+  strategy: ImportStrategy;
+  status: 'queued' | 'running' | 'completed';
   total: number;
+  pending: number;
   successful: number;
   failed: number;
-  results: SkillImportResult[];
+  results: ImportJobItem[];
+  created_at: number;
+  updated_at: number;
+  expires_at: number;
 }
 
 /**
@@ -250,18 +454,59 @@ export async function parseZipUpload(file: File): Promise<ParseResult> {
 }
 
 /**
- * Process selected skills from session
+ * Start a job importing selected skills from session
  * Requirements: 5.2
  */
 export async function processSkillUpload(
   sessionId: string,
-  selectedSkills: string[]
-): Promise<ProcessResult> {
-  return apiFetch<ProcessResult>('/skills/upload/process', {
+  selectedSkills: string[],
+  options: ProcessOptions = {}
+): Promise<ImportJob> {
+  return apiFetch<ImportJob>('/skills/upload/process', {
     method: 'POST',
     body: JSON.stringify({
       session_id: sessionId,
       selected_skills: selectedSkills,
+      strategy: options.strategy,
+      names: options.names,
     }),
   });
 }
+
+/**
+ * Get an import job with the progress of each skill
+ */
+export async function fetchImportJob(jobId: string): Promise<ImportJob> {
+  return apiFetch<ImportJob>(`/skills/upload/jobs/${jobId}`);
+}
+
+/**
+ * Queue the failed skills of an import job again
+ */
+export async function retryImportJob(jobId: string): Promise<ImportJob> {
+  return apiFetch<ImportJob>(`/skills/upload/jobs/${jobId}/retry`, { method: 'POST' });
+}
+
+/**
+ * Preview an upload session again, comparing renamed skills with the skill of their new name
+ */
+export async function fetchUploadPreview(sessionId: string, names: Record<string, string> = {}): Promise<ParseResult> {
+  const params = new URLSearchParams();
+  if (Object.keys(names).length > 0) params.set('names', JSON.stringify(names));
+  const query = params.toString();
+  return apiFetch<ParseResult>(`/skills/upload/sessions/${sessionId}${query ? `?${query}` : ''}`);
+}
+
+/**
+ * Diff an uploaded file against the latest version of the existing skill it is imported as
+ */
+export async function fetchUploadFileDiff(
+  sessionId: string,
+  skillName: string,
+  path: string,
+  targetName?: string
+): Promise<ImportFileDiff> {
+  const params = new URLSearchParams({ skill: skillName, path });
+  if (targetName) params.set('target', targetName);
+  return apiFetch<ImportFileDiff>(`/skills/upload/sessions/${sessionId}/diff?${params}`);
+}
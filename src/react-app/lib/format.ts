@@ -0,0 +1,12 @@
+/**
+ * Display formatting helpers
+ */
+
+/**
+ * Format a byte count for display
+ */
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
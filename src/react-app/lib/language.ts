@@ -0,0 +1,39 @@
+/**
+ * Monaco editor language detection for skill files
+ */
+
+import type { SkillFile } from '../../shared/types';
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  py: 'python',
+  rb: 'ruby',
+  go: 'go',
+  rs: 'rust',
+  java: 'java',
+  json: 'json',
+  yaml: 'yaml',
+  yml: 'yaml',
+  md: 'markdown',
+  sh: 'shell',
+  bash: 'shell',
+  sql: 'sql',
+  css: 'css',
+  html: 'html',
+};
+
+/**
+ * Get language for Monaco editor
+ */
+export function getEditorLanguage(file: Pick<SkillFile, 'path' | 'script_language'>): string {
+  if (file.script_language) {
+    return file.script_language;
+  }
+
+  // Infer from file extension
+  const ext = file.path.split('.').pop()?.toLowerCase();
+  return LANGUAGE_BY_EXTENSION[ext || ''] || 'plaintext';
+}
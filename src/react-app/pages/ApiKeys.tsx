@@ -0,0 +1,262 @@
+/**
+ * API Keys Page Component
+ * Create, list and revoke scoped API keys (requires skills:admin)
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ApiKey, ApiKeyScope, CreatedApiKey } from '../../shared/types';
+import { fetchApiKeys, createApiKey, revokeApiKey } from '../lib/api';
+
+interface ApiKeysProps {
+  onBack: () => void;
+}
+
+const SCOPE_OPTIONS: Array<{ scope: ApiKeyScope; description: string }> = [
+  { scope: 'skills:read', description: 'List and read skills' },
+  { scope: 'skills:write', description: 'Create, update and delete skills' },
+  { scope: 'skills:admin', description: 'Manage API keys and purge the trash' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Key status label
+ */
+function keyStatus(key: ApiKey): { label: string; className: string } {
+  if (key.revoked_at !== null) {
+    return { label: 'Revoked', className: 'bg-gray-200 text-gray-700' };
+  }
+  if (key.expires_at !== null && key.expires_at <= Date.now()) {
+    return { label: 'Expired', className: 'bg-yellow-100 text-yellow-800' };
+  }
+  return { label: 'Active', className: 'bg-green-100 text-green-800' };
+}
+
+/**
+ * Format an optional timestamp
+ */
+function formatDate(timestamp: number | null, fallback: string): string {
+  return timestamp === null ? fallback : new Date(timestamp).toLocaleString();
+}
+
+/**
+ * Create key form
+ */
+function CreateKeyForm({ onCreated }: { onCreated: (key: CreatedApiKey) => void }) {
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['skills:read']);
+  const [expiresInDays, setExpiresInDays] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const days = parseInt(expiresInDays, 10);
+      const key = await createApiKey({
+        name: name.trim(),
+        scopes,
+        expires_at: days > 0 ? Date.now() + days * DAY_MS : null,
+      });
+      setName('');
+      setExpiresInDays('');
+      onCreated(key);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create key');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white border border-gray-200 rounded-lg p-4 mb-6">
+      <h3 className="text-lg font-semibold text-gray-900 m-0 mb-4">Create API key</h3>
+
+      {error && <div className="bg-red-50 text-red-800 px-4 py-3 rounded mb-4">{error}</div>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <label className="block">
+          <span className="block mb-1 text-sm font-medium text-gray-900">Name</span>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. cursor-agent"
+            className="w-full px-3 py-2 border border-gray-300 rounded text-base box-border focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="block">
+          <span className="block mb-1 text-sm font-medium text-gray-900">Expires in (days, optional)</span>
+          <input
+            type="number"
+            min="1"
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(e.target.value)}
+            placeholder="Never"
+            className="w-full px-3 py-2 border border-gray-300 rounded text-base box-border focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+      </div>
+
+      <fieldset className="border-none p-0 m-0 mb-4">
+        <legend className="mb-2 text-sm font-medium text-gray-900">Scopes</legend>
+        {SCOPE_OPTIONS.map(({ scope, description }) => (
+          <label key={scope} className="flex items-center gap-2 mb-1 text-sm text-gray-700">
+            <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+            <code>{scope}</code>
+            <span className="text-gray-500">{description}</span>
+          </label>
+        ))}
+      </fieldset>
+
+      <button
+        type="submit"
+        disabled={submitting || !name.trim() || scopes.length === 0}
+        className="px-4 py-2 bg-blue-600 text-white border-none rounded cursor-pointer text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {submitting ? 'Creating...' : 'Create key'}
+      </button>
+    </form>
+  );
+}
+
+/**
+ * API Keys Page
+ */
+export function ApiKeys({ onBack }: ApiKeysProps) {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+
+  const loadKeys = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await fetchApiKeys();
+      setKeys(data.keys);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API keys');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const handleCreated = (key: CreatedApiKey) => {
+    setCreatedKey(key);
+    loadKeys();
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!confirm(`Revoke "${key.name}"? Clients using it will stop working immediately.`)) return;
+
+    try {
+      const revoked = await revokeApiKey(key.id);
+      setKeys((prev) => prev.map((k) => (k.id === revoked.id ? revoked : k)));
+    } catch (err) {
+      alert('Failed to revoke key: ' + (err instanceof Error ? err.message : String(err)));
+    }
+  };
+
+  return (
+    <div className="p-4 max-w-6xl mx-auto">
+      <button
+        className="bg-none border-none text-blue-600 cursor-pointer text-base py-2 px-0 mb-4 hover:underline"
+        onClick={onBack}
+      >
+        ← Back to Skills
+      </button>
+
+      <h2 className="text-2xl font-semibold text-gray-900 m-0 mb-6">API Keys</h2>
+
+      {createdKey && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
+          <p className="m-0 mb-2 text-green-900 font-medium">
+            Key "{createdKey.name}" created. Copy it now; it will not be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 px-3 py-2 bg-white border border-green-200 rounded break-all">{createdKey.key}</code>
+            <button
+              onClick={() => navigator.clipboard.writeText(createdKey.key)}
+              className="px-3 py-2 text-sm bg-white border border-gray-300 rounded cursor-pointer hover:bg-gray-100"
+            >
+              Copy
+            </button>
+            <button
+              onClick={() => setCreatedKey(null)}
+              className="px-3 py-2 text-sm bg-white border border-gray-300 rounded cursor-pointer hover:bg-gray-100"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <CreateKeyForm onCreated={handleCreated} />
+
+      {loading ? (
+        <p className="text-gray-600">Loading keys...</p>
+      ) : error ? (
+        <div className="bg-red-50 text-red-800 px-4 py-3 rounded">{error}</div>
+      ) : keys.length === 0 ? (
+        <p className="text-gray-600">No API keys yet. The MCP_API_KEY bootstrap key is always accepted.</p>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-x-auto">
+          <table className="w-full text-sm text-left border-collapse">
+            <thead className="bg-gray-50 text-gray-700">
+              <tr>
+                <th className="px-4 py-2 font-medium">Name</th>
+                <th className="px-4 py-2 font-medium">Key</th>
+                <th className="px-4 py-2 font-medium">Scopes</th>
+                <th className="px-4 py-2 font-medium">Created</th>
+                <th className="px-4 py-2 font-medium">Expires</th>
+                <th className="px-4 py-2 font-medium">Last used</th>
+                <th className="px-4 py-2 font-medium">Status</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {keys.map((key) => {
+                const status = keyStatus(key);
+                return (
+                  <tr key={key.id} className="border-t border-gray-200">
+                    <td className="px-4 py-2 font-medium text-gray-900">{key.name}</td>
+                    <td className="px-4 py-2"><code>{key.key_prefix}…</code></td>
+                    <td className="px-4 py-2">{key.scopes.join(', ')}</td>
+                    <td className="px-4 py-2">{formatDate(key.created_at, '')}</td>
+                    <td className="px-4 py-2">{formatDate(key.expires_at, 'Never')}</td>
+                    <td className="px-4 py-2">{formatDate(key.last_used_at, 'Never')}</td>
+                    <td className="px-4 py-2">
+                      <span className={`text-xs px-2 py-1 rounded ${status.className}`}>{status.label}</span>
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {key.revoked_at === null && (
+                        <button
+                          onClick={() => handleRevoke(key)}
+                          className="px-3 py-1 text-sm text-red-600 bg-white border border-red-300 rounded cursor-pointer hover:bg-red-50"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,12 +4,22 @@
  */
 
 import { useState, useCallback } from 'react';
-import { useSkill, useSkillFile } from '../hooks/useSkill';
+import { useSkill, useSkillFile, useSkillVersions } from '../hooks/useSkill';
 import { useSkillStatusToggle } from '../hooks/useSkillStatusToggle';
 import { FileViewer } from '../components/FileViewer';
 import { FileEditor } from '../components/FileEditor';
 import { SkillStatusToggle } from '../components/SkillStatusToggle';
-import { updateSkill as apiUpdateSkill } from '../lib/api';
+import { VersionDiff } from '../components/VersionDiff';
+import {
+  updateSkill as apiUpdateSkill,
+  deleteSkill,
+  rollbackSkill,
+  skillFileRawUrl,
+  skillExportUrl,
+  ApiRequestError,
+} from '../lib/api';
+import { formatSize } from '../lib/format';
+import type { SkillVersion, SkillVersionSummary } from '../../shared/types';
 
 interface SkillDetailProps {
   skillId: string;
@@ -17,33 +27,105 @@ interface SkillDetailProps {
 }
 
 /**
- * Version selector component
+ * Describe who made a version and how, e.g. "ci-bot via mcp (cursor 1.2.0)"
+ * Versions from before attribution was recorded only know ai/human
  */
-function VersionSelector({
+function formatAuthor(version: SkillVersion): string {
+  if (!version.channel) return version.created_by;
+
+  const author = version.author_name ?? 'unknown';
+  const client = version.client_name
+    ? ` (${[version.client_name, version.client_version].filter(Boolean).join(' ')})`
+    : '';
+  return `${author} via ${version.channel}${client}`;
+}
+
+/**
+ * Version history timeline, newest first
+ */
+function VersionTimeline({
+  versions,
+  total,
   currentVersion,
+  latestVersion,
+  loading,
+  hasMore,
+  onLoadMore,
   onVersionChange,
+  onRollback,
+  onCompare,
 }: {
+  versions: SkillVersionSummary[];
+  total: number;
   currentVersion: number;
+  latestVersion: number;
+  loading: boolean;
+  hasMore: boolean;
+  onLoadMore: () => void;
   onVersionChange: (version: number) => void;
+  onRollback: () => void;
+  onCompare: () => void;
 }) {
   return (
-    <div className="mb-4">
-      <label htmlFor="version-select" className="mr-2 text-gray-700">Version:</label>
-      <select
-        id="version-select"
-        value={currentVersion}
-        onChange={(e) => onVersionChange(parseInt(e.target.value, 10))}
-        className="px-2 py-1 border border-gray-300 rounded text-base"
-      >
-        {/* Generate options for versions 1 to current */}
-        {Array.from({ length: currentVersion }, (_, i) => currentVersion - i).map(
-          (v) => (
-            <option key={v} value={v}>
-              v{v}
-            </option>
-          )
+    <div className="bg-gray-50 rounded-lg p-4 lg:max-h-[32rem] lg:overflow-y-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-gray-900 m-0">Versions ({total})</h4>
+        {latestVersion > 1 && (
+          <button
+            onClick={onCompare}
+            className="px-2 py-1 text-xs text-gray-700 bg-white border border-gray-300 rounded cursor-pointer hover:bg-gray-100"
+          >
+            Compare
+          </button>
         )}
-      </select>
+      </div>
+      <ol className="list-none p-0 m-0 border-l-2 border-gray-200">
+        {versions.map((v) => {
+          const selected = v.version_number === currentVersion;
+          return (
+            <li key={v.id} className="relative pl-4 pb-4 last:pb-0">
+              <span
+                className={`absolute -left-[5px] top-1.5 w-2 h-2 rounded-full ${selected ? 'bg-blue-600' : 'bg-gray-400'}`}
+              />
+              <button
+                onClick={() => onVersionChange(v.version_number)}
+                className={`block w-full text-left bg-transparent border-none p-0 cursor-pointer ${selected ? 'text-blue-600' : 'text-gray-900 hover:text-blue-600'}`}
+              >
+                <span className="font-semibold">v{v.version_number}</span>
+                {v.version_number === latestVersion && (
+                  <span className="ml-2 px-1.5 py-0.5 text-xs bg-green-100 text-green-800 rounded">latest</span>
+                )}
+                <span className="block text-sm text-gray-700 break-words">
+                  {v.changelog || <em className="text-gray-400">No changelog</em>}
+                </span>
+              </button>
+              <div className="text-xs text-gray-500 mt-1">
+                {formatAuthor(v)} · {new Date(v.created_at).toLocaleString()}
+              </div>
+              <div className="text-xs text-gray-500">
+                {v.file_count} {v.file_count === 1 ? 'file' : 'files'} · {formatSize(v.total_size)}
+              </div>
+              {selected && v.version_number < latestVersion && (
+                <button
+                  onClick={onRollback}
+                  className="mt-2 px-2 py-1 text-xs text-blue-600 bg-white border border-blue-300 rounded cursor-pointer hover:bg-blue-50"
+                >
+                  Roll back to v{v.version_number}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {hasMore && (
+        <button
+          onClick={onLoadMore}
+          disabled={loading}
+          className="mt-4 w-full px-2 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded cursor-pointer hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Loading...' : 'Load older versions'}
+        </button>
+      )}
     </div>
   );
 }
@@ -92,15 +174,17 @@ function FileList({
 function SkillMetadata({
   skill,
   onStatusChange,
+  onDelete,
 }: {
   skill: {
     id: string;
     name: string;
     description: string | null;
     active: boolean;
-    version: { version_number: number; changelog: string | null; created_at: number };
+    version: SkillVersion;
   };
   onStatusChange: (newStatus: boolean) => Promise<void>;
+  onDelete: () => void;
 }) {
   return (
     <div className="mb-6">
@@ -112,6 +196,20 @@ function SkillMetadata({
           onStatusChange={onStatusChange}
           size="small"
         />
+        <a
+          href={skillExportUrl(skill.id, skill.version.version_number)}
+          download
+          className="ml-auto px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-100 no-underline"
+          title={`Download v${skill.version.version_number} as a ZIP`}
+        >
+          Download
+        </a>
+        <button
+          onClick={onDelete}
+          className="px-3 py-1.5 text-sm text-red-600 bg-white border border-red-300 rounded cursor-pointer hover:bg-red-50"
+        >
+          Delete
+        </button>
       </div>
       {skill.description && <p className="text-gray-600 my-3">{skill.description}</p>}
       {skill.version.changelog && (
@@ -121,6 +219,7 @@ function SkillMetadata({
       )}
       <div className="text-sm text-gray-500">
         <span>Created: {new Date(skill.version.created_at).toLocaleString()}</span>
+        <span> by {formatAuthor(skill.version)}</span>
       </div>
     </div>
   );
@@ -133,7 +232,17 @@ export function SkillDetail({ skillId, onBack }: SkillDetailProps) {
   const { skill, loading, error, setVersion, updateSkill } = useSkill(skillId);
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
+  const [compare, setCompare] = useState<{ from: number; to: number } | null>(null);
   const { toggleStatus } = useSkillStatusToggle();
+  const {
+    versions,
+    total: totalVersions,
+    loading: versionsLoading,
+    hasMore: hasMoreVersions,
+    loadMore: loadMoreVersions,
+    refetch: refetchVersions,
+  } = useSkillVersions(skillId);
+  const latestVersion = versions[0]?.version_number ?? skill?.version.version_number ?? 1;
 
   const { file, loading: fileLoading, error: fileError } = useSkillFile(
     skillId,
@@ -179,20 +288,68 @@ export function SkillDetail({ skillId, onBack }: SkillDetailProps) {
           },
         ],
         changelog: `Updated ${selectedFile}`,
+        // Never overwrite a version saved since this one was loaded
+        expected_version: skill.version.version_number,
       });
 
       // Update local state to new skill
       updateSkill(newSkill);
       // Switch to new version
       setVersion(newSkill.version.version_number);
+      refetchVersions();
       // Exit edit mode
       setIsEditing(false);
     } catch (err) {
       console.error('Failed to save', err);
+      if (err instanceof ApiRequestError && err.error.code === 'CONFLICT' && err.error.current_version) {
+        alert(
+          `Not saved: this skill has a newer version (v${err.error.current_version}). ` +
+            'Copy your changes, then open the latest version and apply them again.'
+        );
+        refetchVersions();
+        return;
+      }
       alert('Failed to save changes: ' + (err instanceof Error ? err.message : String(err)));
     }
   };
 
+  const handleRollback = async () => {
+    if (!skill) return;
+    const target = skill.version.version_number;
+    if (!confirm(`Create a new version with the files of v${target}?`)) return;
+
+    try {
+      const newSkill = await rollbackSkill(skill.id, target);
+      updateSkill(newSkill);
+      setVersion(newSkill.version.version_number);
+      refetchVersions();
+    } catch (err) {
+      console.error('Failed to roll back', err);
+      alert('Failed to roll back: ' + (err instanceof Error ? err.message : String(err)));
+    }
+  };
+
+  const handleCompare = () => {
+    if (!skill) return;
+    const current = skill.version.version_number;
+    setCompare(current < latestVersion
+      ? { from: current, to: latestVersion }
+      : { from: latestVersion - 1, to: latestVersion });
+  };
+
+  const handleDelete = async () => {
+    if (!skill) return;
+    if (!confirm(`Move "${skill.name}" to the trash? It can be restored until it is purged.`)) return;
+
+    try {
+      await deleteSkill(skill.id);
+      onBack();
+    } catch (err) {
+      console.error('Failed to delete', err);
+      alert('Failed to delete skill: ' + (err instanceof Error ? err.message : String(err)));
+    }
+  };
+
   if (loading) {
     return (
       <div className="text-center py-12">
@@ -224,25 +381,47 @@ export function SkillDetail({ skillId, onBack }: SkillDetailProps) {
         ← Back to Skills
       </button>
 
-      <SkillMetadata skill={skill} onStatusChange={handleStatusChange} />
+      <SkillMetadata skill={skill} onStatusChange={handleStatusChange} onDelete={handleDelete} />
 
-      <VersionSelector
-        currentVersion={skill.version.version_number}
-        onVersionChange={setVersion}
-      />
+      {compare && (
+        <div className="mb-4">
+          <VersionDiff
+            skillId={skill.id}
+            latestVersion={latestVersion}
+            initialFrom={compare.from}
+            initialTo={compare.to}
+            onClose={() => setCompare(null)}
+          />
+        </div>
+      )}
 
       <div className="grid grid-cols-1 lg:grid-cols-[250px_1fr] gap-4 min-h-96">
-        {/* On mobile, file list will be above file viewer */}
-        <FileList
-          files={skill.files}
-          selectedPath={selectedFile}
-          onSelectFile={(path) => {
-            if (path !== selectedFile) {
-              setSelectedFile(path);
-              setIsEditing(false); // Exit edit mode when switching files
-            }
-          }}
-        />
+        {/* On mobile, file list and versions will be above file viewer */}
+        <div className="flex flex-col gap-4 min-w-0">
+          <FileList
+            files={skill.files}
+            selectedPath={selectedFile}
+            onSelectFile={(path) => {
+              if (path !== selectedFile) {
+                setSelectedFile(path);
+                setIsEditing(false); // Exit edit mode when switching files
+              }
+            }}
+          />
+
+          <VersionTimeline
+            versions={versions}
+            total={totalVersions}
+            currentVersion={skill.version.version_number}
+            latestVersion={latestVersion}
+            loading={versionsLoading}
+            hasMore={hasMoreVersions}
+            onLoadMore={loadMoreVersions}
+            onVersionChange={setVersion}
+            onRollback={handleRollback}
+            onCompare={handleCompare}
+          />
+        </div>
 
         <div className="file-viewer-container min-w-0">
           {selectedFile ? (
@@ -255,6 +434,7 @@ export function SkillDetail({ skillId, onBack }: SkillDetailProps) {
             ) : (
               <FileViewer
                 file={file}
+                rawUrl={skillFileRawUrl(skill.id, skill.version.version_number, selectedFile)}
                 loading={fileLoading}
                 error={fileError}
                 onEdit={handleEdit}
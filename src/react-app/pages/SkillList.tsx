@@ -3,12 +3,18 @@
  * Requirements: 10.1, 10.2
  */
 
-import { useState } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useSkills } from '../hooks/useSkills';
 import { useSkillStatusToggleWithOptimisticUpdate } from '../hooks/useSkillStatusToggle';
 import { SkillUpload } from '../components/SkillUpload';
 import { SkillStatusToggle } from '../components/SkillStatusToggle';
-import type { SkillWithVersion } from '../../shared/types';
+import type { SkillWithVersion, SkillSearchResult, TagCount } from '../../shared/types';
+import { skillExportUrl, downloadSkillsExport, fetchTags } from '../lib/api';
+
+/**
+ * Delay before a search box change triggers a new query
+ */
+const SEARCH_DEBOUNCE_MS = 300;
 
 interface SkillListProps {
   onSelectSkill: (skillId: string) => void;
@@ -22,7 +28,7 @@ function SkillCard({
   onClick,
   onStatusChange,
 }: {
-  skill: SkillWithVersion;
+  skill: SkillWithVersion | SkillSearchResult;
   onClick: () => void;
   onStatusChange: (newStatus: boolean) => Promise<void>;
 }) {
@@ -36,9 +42,9 @@ function SkillCard({
   };
 
   const handleCardKeyDown = (e: React.KeyboardEvent) => {
-    // Don't trigger card action if focus is on the toggle
+    // Don't trigger card action if focus is on the toggle or the download link
     const target = e.target as HTMLElement;
-    if (target.closest('[role="switch"]') || target.closest('.skill-toggle-container')) {
+    if (target.closest('[role="switch"]') || target.closest('.skill-toggle-container') || target.closest('a')) {
       return;
     }
     if (e.key === 'Enter') {
@@ -73,9 +79,32 @@ function SkillCard({
       {skill.description && (
         <p className="text-gray-600 text-sm my-2 line-clamp-2 overflow-hidden">{skill.description}</p>
       )}
+      {skill.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 my-2">
+          {skill.tags.map((tag) => (
+            <span key={tag} className="px-2 py-0.5 bg-blue-50 text-blue-700 rounded-full text-xs">
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+      {'snippet' in skill && skill.snippet && (
+        <p className="text-gray-500 text-xs my-2 line-clamp-3 overflow-hidden font-mono bg-gray-50 rounded px-2 py-1">
+          <Snippet text={skill.snippet} />
+        </p>
+      )}
       <div className="flex justify-between text-xs text-gray-500 mt-3">
         <span>v{skill.latest_version}</span>
-        <span>
+        <span className="flex items-center gap-3">
+          <a
+            href={skillExportUrl(skill.id)}
+            download
+            onClick={(e) => e.stopPropagation()}
+            className="text-blue-600 no-underline hover:underline"
+            title="Download as a ZIP"
+          >
+            Download
+          </a>
           {new Date(skill.updated_at).toLocaleDateString()}
         </span>
       </div>
@@ -83,6 +112,74 @@ function SkillCard({
   );
 }
 
+/**
+ * Render a search snippet, highlighting the **matched** terms
+ */
+function Snippet({ text }: { text: string }) {
+  const parts = text.split('**');
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-yellow-100 text-gray-900">{part}</mark>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * Sidebar listing the tags in use; skills must carry every selected tag
+ */
+function TagFilter({
+  tags,
+  selected,
+  onToggle,
+  onClear,
+}: {
+  tags: TagCount[];
+  selected: string[];
+  onToggle: (tag: string) => void;
+  onClear: () => void;
+}) {
+  return (
+    <aside className="md:w-48 flex-shrink-0" aria-label="Filter by tag">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-sm font-semibold text-gray-700 m-0">Tags</h3>
+        {selected.length > 0 && (
+          <button
+            onClick={onClear}
+            className="text-xs text-blue-600 bg-transparent border-none cursor-pointer p-0 hover:underline"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      <ul className="flex flex-wrap md:flex-col gap-1 list-none m-0 p-0">
+        {tags.map(({ tag, count }) => {
+          const isSelected = selected.includes(tag);
+          return (
+            <li key={tag}>
+              <button
+                onClick={() => onToggle(tag)}
+                aria-pressed={isSelected}
+                className={`w-full flex justify-between gap-2 px-2 py-1 rounded text-sm text-left border-none cursor-pointer transition-colors ${
+                  isSelected ? 'bg-blue-600 text-white' : 'bg-transparent text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                <span className="truncate">{tag}</span>
+                <span className={isSelected ? 'text-blue-100' : 'text-gray-400'}>{count}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </aside>
+  );
+}
+
 /**
  * Loading skeleton
  */
@@ -120,11 +217,17 @@ function ErrorDisplay({ message, onRetry }: { message: string; onRetry: () => vo
 /**
  * Empty state
  */
-function EmptyState() {
+function EmptyState({ query, filtered }: { query: string; filtered: boolean }) {
   return (
     <div className="text-center py-12 text-gray-600">
       <p>No skills found</p>
-      <p className="text-sm text-gray-500">Skills created by AI agents will appear here.</p>
+      <p className="text-sm text-gray-500">
+        {query
+          ? `Nothing matches "${query}".`
+          : filtered
+            ? 'No skill has all of the selected tags.'
+            : 'Skills created by AI agents will appear here.'}
+      </p>
     </div>
   );
 }
@@ -133,8 +236,57 @@ function EmptyState() {
  * Skill List Page
  */
 export function SkillList({ onSelectSkill }: SkillListProps) {
-  const { filteredSkills, loading, error, refetch, updateSkill, rollbackSkill } = useSkills({ activeOnly: false });
+  const { filteredSkills, loading, error, refetch, setParams, updateSkill, rollbackSkill } = useSkills({ activeOnly: false });
   const [showUpload, setShowUpload] = useState(false);
+  const [query, setQuery] = useState('');
+  const appliedQueryRef = useRef('');
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [exporting, setExporting] = useState(false);
+
+  const loadTags = useCallback(() => {
+    fetchTags()
+      .then(setTags)
+      .catch(() => setTags([]));
+  }, []);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  const applyFilters = useCallback(
+    (nextQuery: string, nextTags: string[]) => {
+      setParams({
+        activeOnly: false,
+        query: nextQuery || undefined,
+        tags: nextTags.length > 0 ? nextTags : undefined,
+      });
+    },
+    [setParams]
+  );
+
+  // Search on the server once typing pauses
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed === appliedQueryRef.current) return;
+
+    const timer = setTimeout(() => {
+      appliedQueryRef.current = trimmed;
+      applyFilters(trimmed, selectedTags);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, selectedTags, applyFilters]);
+
+  const handleTagsChange = (nextTags: string[]) => {
+    setSelectedTags(nextTags);
+    applyFilters(appliedQueryRef.current, nextTags);
+  };
+
+  const toggleTag = (tag: string) => {
+    handleTagsChange(
+      selectedTags.includes(tag) ? selectedTags.filter((t) => t !== tag) : [...selectedTags, tag].sort()
+    );
+  };
 
   // Initialize the toggle hook with optimistic updates
   const { toggleStatus } = useSkillStatusToggleWithOptimisticUpdate(
@@ -144,42 +296,90 @@ export function SkillList({ onSelectSkill }: SkillListProps) {
 
   const handleUploadComplete = () => {
     refetch();
+    loadTags();
   };
 
-  if (loading) {
-    return <LoadingSkeleton />;
-  }
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const { blob, filename } = await downloadSkillsExport(query.trim() || undefined, selectedTags);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      alert('Failed to download skills: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      setExporting(false);
+    }
+  };
 
-  if (error) {
-    return <ErrorDisplay message={error} onRetry={refetch} />;
-  }
+  const filtered = query.trim().length > 0 || selectedTags.length > 0;
 
   return (
     <div className="p-4 max-w-6xl mx-auto">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-semibold text-gray-900 m-0">Skills</h2>
-        <button 
-          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white border-none rounded cursor-pointer text-sm hover:bg-blue-700 transition-colors"
-          onClick={() => setShowUpload(true)}
-        >
-          <span>📦</span> Upload Skills
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="flex items-center gap-2 px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded cursor-pointer text-sm hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={filtered ? 'Download the matching skills as a ZIP' : 'Download all skills as a ZIP'}
+          >
+            <span>⬇️</span> {exporting ? 'Preparing...' : `Download ${filtered ? 'Results' : 'All'}`}
+          </button>
+          <button 
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white border-none rounded cursor-pointer text-sm hover:bg-blue-700 transition-colors"
+            onClick={() => setShowUpload(true)}
+          >
+            <span>📦</span> Upload Skills
+          </button>
+        </div>
       </div>
 
-      {filteredSkills.length === 0 ? (
-        <EmptyState />
-      ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {filteredSkills.map((skill) => (
-            <SkillCard
-              key={skill.id}
-              skill={skill}
-              onClick={() => onSelectSkill(skill.id)}
-              onStatusChange={() => toggleStatus(skill.id, skill.active)}
-            />
-          ))}
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search names, descriptions and file contents..."
+        aria-label="Search skills"
+        className="w-full mb-6 px-3 py-2 border border-gray-300 rounded text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      <div className="flex flex-col md:flex-row gap-6">
+        {tags.length > 0 && (
+          <TagFilter
+            tags={tags}
+            selected={selectedTags}
+            onToggle={toggleTag}
+            onClear={() => handleTagsChange([])}
+          />
+        )}
+
+        <div className="flex-1 min-w-0">
+          {loading ? (
+            <LoadingSkeleton />
+          ) : error ? (
+            <ErrorDisplay message={error} onRetry={refetch} />
+          ) : filteredSkills.length === 0 ? (
+            <EmptyState query={query.trim()} filtered={selectedTags.length > 0} />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {filteredSkills.map((skill) => (
+                <SkillCard
+                  key={skill.id}
+                  skill={skill}
+                  onClick={() => onSelectSkill(skill.id)}
+                  onStatusChange={() => toggleStatus(skill.id, skill.active)}
+                />
+              ))}
+            </div>
+          )}
         </div>
-      )}
+      </div>
 
       {showUpload && (
         <div 
@@ -15,8 +15,10 @@ export interface Skill {
   name: string;
   description: string | null;
   active: boolean;
+  tags: string[]; // lowercase, sorted
   created_at: number;
   updated_at: number;
+  deleted_at: number | null;
 }
 
 /**
@@ -29,6 +31,45 @@ export interface SkillVersion {
   changelog: string | null;
   created_at: number;
   created_by: 'ai' | 'human';
+  channel: VersionChannel | null; // null for versions created before attribution was recorded
+  author_key_id: string | null; // null for the bootstrap key
+  author_name: string | null;
+  client_name: string | null; // MCP clientInfo from initialize
+  client_version: string | null;
+  manifest: SkillManifest | null; // SKILL.md frontmatter; null for versions created before manifests were stored
+}
+
+/**
+ * Typed SKILL.md frontmatter
+ * Keys other than the fields below are kept in metadata, together with the entries
+ * of a `metadata:` mapping. A version without SKILL.md frontmatter has an empty manifest.
+ */
+export interface SkillManifest {
+  name?: string;
+  description?: string;
+  license?: string;
+  allowed_tools?: string[]; // `allowed-tools`
+  version?: string; // the skill author's version label, not the stored version number
+  tags?: string[];
+  dependencies?: string[];
+  arguments?: SkillPromptArgument[];
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * How a version was created
+ */
+export type VersionChannel = 'mcp' | 'rest' | 'zip-upload' | 'web-editor';
+
+/**
+ * Who made a change, recorded on the version it creates
+ */
+export interface VersionAttribution {
+  channel: VersionChannel;
+  author_key_id: string | null;
+  author_name: string | null;
+  client_name: string | null;
+  client_version: string | null;
 }
 
 /**
@@ -39,7 +80,11 @@ export interface SkillFile {
   skill_id: string;
   version_id: string;
   path: string;
-  content: string;
+  content: string; // empty for binary files; fetch their bytes from the raw endpoint
+  content_hash: string; // SHA-256 of content (lowercase hex); identical content has the same hash
+  is_binary: boolean; // binary assets are stored in R2 rather than D1
+  size: number; // bytes
+  mime_type: string;
   is_executable: boolean;
   script_language: string | null;
   run_instructions_for_ai: string | null;
@@ -58,6 +103,32 @@ export interface SkillWithVersion extends Skill {
   latest_version: number;
 }
 
+/**
+ * Full-text search hit with relevance score and matching excerpt
+ */
+export interface SkillSearchResult extends SkillWithVersion {
+  score: number; // higher is more relevant
+  snippet: string; // matched terms wrapped in **
+}
+
+/**
+ * Version history entry with file statistics
+ */
+export interface SkillVersionSummary extends SkillVersion {
+  file_count: number;
+  total_size: number; // bytes
+}
+
+/**
+ * A page of a skill's version history, newest first
+ */
+export interface SkillVersionHistory {
+  versions: SkillVersionSummary[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
 /**
  * Detailed skill information including version and file list
  */
@@ -76,6 +147,7 @@ export interface SkillDetail extends Skill {
 export interface CreateSkillInput {
   name: string;
   description?: string;
+  tags?: string[]; // default: the `tags:` list of SKILL.md frontmatter
   files: FileInput[];
   changelog?: string;
 }
@@ -86,8 +158,10 @@ export interface CreateSkillInput {
 export interface UpdateSkillInput {
   skill_id: string;
   description?: string;
+  tags?: string[]; // default: the `tags:` list of an updated SKILL.md, else unchanged
   file_changes?: FileChange[];
   changelog?: string;
+  expected_version?: number; // reject with CONFLICT unless this is still the latest version
 }
 
 /**
@@ -96,11 +170,17 @@ export interface UpdateSkillInput {
 export interface FileInput {
   path: string;
   content: string;
+  encoding?: FileEncoding; // default 'utf-8'
   is_executable?: boolean;
   script_language?: string;
   run_instructions_for_ai?: string;
 }
 
+/**
+ * How file content is sent: plain text, or base64 for binary assets
+ */
+export type FileEncoding = 'utf-8' | 'base64';
+
 /**
  * Represents a change to a file during skill update
  */
@@ -129,13 +209,21 @@ export interface APIError {
   error: {
     code: ErrorCode;
     message: string;
-  };
+  } & ErrorDetails;
+}
+
+/**
+ * Extra machine-readable fields carried by some errors
+ */
+export interface ErrorDetails {
+  current_version?: number; // CONFLICT: the skill's latest version when expected_version is stale
+  in_trash?: boolean; // CONFLICT: the skill already using the name is in the trash
 }
 
 /**
  * Error codes used throughout the application
  */
-export type ErrorCode = 'NOT_FOUND' | 'VALIDATION_ERROR' | 'DB_ERROR' | 'UNAUTHORIZED' | 'CONFLICT';
+export type ErrorCode = 'NOT_FOUND' | 'VALIDATION_ERROR' | 'DB_ERROR' | 'UNAUTHORIZED' | 'FORBIDDEN' | 'CONFLICT';
 
 // ============================================================================
 // List Options
@@ -146,9 +234,19 @@ export type ErrorCode = 'NOT_FOUND' | 'VALIDATION_ERROR' | 'DB_ERROR' | 'UNAUTHO
  */
 export interface ListSkillsOptions {
   activeOnly?: boolean;
+  deletedOnly?: boolean;
   limit?: number;
   offset?: number;
   query?: string;
+  tags?: string[]; // only skills with all of these tags
+}
+
+/**
+ * Options for listing the versions of a skill
+ */
+export interface ListVersionsOptions {
+  limit?: number;
+  offset?: number;
 }
 
 /**
@@ -157,6 +255,16 @@ export interface ListSkillsOptions {
 export interface MinimalSkillResponse {
   name: string;
   description: string | null;
+  tags?: string[]; // present when the skill has tags
+  snippet?: string; // present when listing with a search query
+}
+
+/**
+ * A tag with the number of skills (outside the trash) that carry it
+ */
+export interface TagCount {
+  tag: string;
+  count: number;
 }
 
 /**
@@ -166,3 +274,143 @@ export interface ExtendedListSkillsOptions extends ListSkillsOptions {
   detailed?: boolean;
   showInactive?: boolean;
 }
+
+// ============================================================================
+// Prompt Types
+// ============================================================================
+
+/**
+ * Argument declared in the `arguments:` list of SKILL.md frontmatter
+ */
+export interface SkillPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * An active skill exposed as a prompt
+ */
+export interface SkillPrompt {
+  name: string;
+  description: string | null;
+  arguments: SkillPromptArgument[];
+}
+
+/**
+ * A skill prompt rendered with its SKILL.md content
+ */
+export interface RenderedSkillPrompt extends SkillPrompt {
+  content: string;
+}
+
+// ============================================================================
+// Diff Types
+// ============================================================================
+
+/**
+ * File attributes compared between versions
+ */
+export type SkillFileField = 'content' | 'is_executable' | 'script_language' | 'run_instructions_for_ai';
+
+/**
+ * A file that differs between two versions of a skill
+ */
+export interface SkillFileDiff {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  changes?: SkillFileField[]; // modified files only
+  diff?: string; // unified line diff, when the content of a modified file changed
+}
+
+/**
+ * Differences between two versions of a skill
+ */
+export interface SkillVersionDiff {
+  skill_id: string;
+  skill_name: string;
+  from_version: number;
+  to_version: number;
+  files: SkillFileDiff[];
+  unchanged: number;
+}
+
+// ============================================================================
+// API Key Types
+// ============================================================================
+
+/**
+ * Permission granted to an API key
+ * skills:admin implies skills:write, which implies skills:read
+ */
+export type ApiKeyScope = 'skills:read' | 'skills:write' | 'skills:admin';
+
+/**
+ * Stored API key metadata (the key itself is never stored)
+ */
+export interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  created_at: number;
+  expires_at: number | null;
+  last_used_at: number | null;
+  revoked_at: number | null;
+}
+
+/**
+ * A newly created API key; `key` is only returned once
+ */
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+}
+
+/**
+ * Input for creating an API key
+ */
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  expires_at?: number | null;
+}
+
+// ============================================================================
+// Consistency Types
+// ============================================================================
+
+/**
+ * Kind of inconsistency left behind by a partially written version
+ * - skill_without_content: the skill has no version with any files
+ * - empty_version: the version has no files
+ * - orphaned_version: the version's skill row is missing
+ * - orphaned_files: files reference a version that is missing or belongs to another skill
+ */
+export type ConsistencyIssueType =
+  | 'skill_without_content'
+  | 'empty_version'
+  | 'orphaned_version'
+  | 'orphaned_files';
+
+/**
+ * A single inconsistency found by the consistency check
+ */
+export interface ConsistencyIssue {
+  type: ConsistencyIssueType;
+  skill_id: string;
+  skill_name: string | null; // null when the skill row is missing
+  version_id: string | null; // null for skill_without_content
+  version_number: number | null; // null when the version row is missing
+}
+
+/**
+ * Result of a consistency check, optionally with repair
+ */
+export interface ConsistencyReport {
+  issues: ConsistencyIssue[];
+  blobs: {
+    legacy: number; // content deduplicated by migration, not yet keyed by SHA-256
+    unreferenced: number; // content no longer used by any file
+  };
+  repaired: boolean;
+}
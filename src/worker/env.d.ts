@@ -1,11 +1,13 @@
 /**
  * Extended environment bindings for the worker
  * MCP_API_KEY is set via `wrangler secret put MCP_API_KEY`
+ * TRASH_RETENTION_DAYS controls how long deleted skills are kept (default: 30)
  */
 
 declare global {
   interface Env {
     MCP_API_KEY?: string;
+    TRASH_RETENTION_DAYS?: string;
   }
 }
 
@@ -5,31 +5,70 @@
  */
 
 import { Hono } from 'hono';
+import type { CreateApiKeyInput, Skill } from '../shared/types';
 import type { SkillService } from './services/skill.service';
 import type { UploadService } from './services/upload.service';
-import { createSkillRepository } from './repositories';
-import { createSkillService, createSessionStore, createUploadService } from './services';
-import { authMiddleware } from './lib/auth';
+import type { ExportService } from './services/export.service';
+import type { MCPSessionStore } from './services/mcp-session.service';
+import type { ImportJobMessage } from './services/import-job.service';
+import { createSkillRepository, createApiKeyRepository } from './repositories';
+import {
+  createSkillService,
+  createSessionStore,
+  createImportJobStore,
+  createUploadService,
+  createExportService,
+  createMCPSessionStore,
+  createMCPNotifier,
+  createApiKeyService,
+  createHousekeepingService,
+} from './services';
+import {
+  authMiddleware,
+  versionAttribution,
+  restChannel,
+  CLIENT_CHANNEL_HEADER,
+  type AuthVariables,
+} from './lib/auth';
 import { isAppError } from './lib/errors';
+import { getTrashRetentionDays, getTrashRetentionMs } from './lib/config';
+import { parseTagsParam } from './lib/validation';
+import { versionEtag, parseIfMatch } from './lib/etag';
+import { rawFileHeaders, archiveHeaders } from './lib/download';
 // Import route creators
 import { createMCPRoutes } from './routes/mcp';
 import { createUploadRoutes } from './routes/upload';
 
 // Extend Hono context with our variables
-type Variables = {
+type Variables = AuthVariables & {
   service: SkillService;
   uploadService: UploadService;
+  exportService: ExportService;
+  mcpSessions: MCPSessionStore;
 };
 
 const app = new Hono<{ Bindings: Env; Variables: Variables }>();
 
+/**
+ * Create the services shared by requests, queue batches and scheduled runs
+ */
+function createServices(env: Env) {
+  const repo = createSkillRepository(env.DB, env.ASSETS_BUCKET);
+  const mcpSessions = createMCPSessionStore(env.DB);
+  const service = createSkillService(repo, createMCPNotifier(env.DB, mcpSessions));
+  const sessionStore = createSessionStore(env.DB, env.ASSETS_BUCKET);
+  const jobStore = createImportJobStore(env.DB, env.ASSETS_BUCKET);
+  const uploadService = createUploadService(sessionStore, service, jobStore, env.IMPORT_QUEUE);
+  return { service, mcpSessions, sessionStore, jobStore, uploadService };
+}
+
 // Global error handler
 app.onError((err, c) => {
   console.error('Worker error:', err);
   if (isAppError(err)) {
     return c.json(
-      { ok: false, error: { code: err.code, message: err.message } },
-      err.status as 400 | 401 | 404 | 409 | 500
+      { ok: false, error: err.toJSON() },
+      err.status as 400 | 401 | 403 | 404 | 409 | 500
     );
   }
   return c.json(
@@ -43,18 +82,18 @@ app.get('/api/health', (c) => c.json({ ok: true, status: 'healthy' }));
 
 // Create services per request middleware
 app.use('*', async (c, next) => {
-  const repo = createSkillRepository(c.env.DB);
-  const service = createSkillService(repo);
-  const sessionStore = createSessionStore(c.env.DB);
-  const uploadService = createUploadService(sessionStore, service);
+  const { service, mcpSessions, uploadService } = createServices(c.env);
   c.set('service', service);
   c.set('uploadService', uploadService);
+  c.set('exportService', createExportService(service));
+  c.set('mcpSessions', mcpSessions);
+  c.set('apiKeys', createApiKeyService(createApiKeyRepository(c.env.DB)));
   await next();
 });
 
 // Apply auth middleware only to write operations and MCP
 // GET requests are public for Web UI access
-app.use('/mcp', authMiddleware());
+app.use('/mcp', authMiddleware('skills:read'));
 
 // ============================================================================
 // API Routes
@@ -67,17 +106,75 @@ app.get('/api/skills', async (c) => {
   const limit = parseInt(c.req.query('limit') || '50', 10);
   const offset = parseInt(c.req.query('offset') || '0', 10);
   const query = c.req.query('query') || undefined;
+  const tags = parseTagsParam(c.req.query('tags'));
 
   const skills = await service.listSkills({
     activeOnly,
     limit: Math.min(limit, 100),
     offset: Math.max(offset, 0),
     query,
+    tags,
   });
 
   return c.json({ ok: true, data: { skills, count: skills.length } });
 });
 
+// GET /api/skills/tags - List tags in use with skill counts
+app.get('/api/skills/tags', async (c) => {
+  const service = c.get('service');
+  const tags = await service.listTags({ activeOnly: c.req.query('active_only') === 'true' });
+  return c.json({ ok: true, data: { tags } });
+});
+
+// GET /api/skills/trash - List deleted skills
+app.get('/api/skills/trash', async (c) => {
+  const service = c.get('service');
+  const limit = parseInt(c.req.query('limit') || '50', 10);
+  const offset = parseInt(c.req.query('offset') || '0', 10);
+
+  const skills = await service.listDeletedSkills({
+    limit: Math.min(limit, 100),
+    offset: Math.max(offset, 0),
+  });
+
+  return c.json({
+    ok: true,
+    data: { skills, count: skills.length, retention_days: getTrashRetentionDays(c.env) },
+  });
+});
+
+// POST /api/skills/trash/purge - Permanently delete skills past the retention period (requires auth)
+app.post('/api/skills/trash/purge', authMiddleware('skills:admin'), async (c) => {
+  const service = c.get('service');
+  const purged = await service.purgeDeletedSkills(getTrashRetentionMs(c.env));
+  return c.json({ ok: true, data: { purged } });
+});
+
+// GET /api/skills/consistency - Report empty or orphaned versions (requires admin)
+app.get('/api/skills/consistency', authMiddleware('skills:admin'), async (c) => {
+  const service = c.get('service');
+  const report = await service.checkConsistency(false);
+  return c.json({ ok: true, data: report });
+});
+
+// POST /api/skills/consistency/repair - Delete empty or orphaned versions (requires admin)
+app.post('/api/skills/consistency/repair', authMiddleware('skills:admin'), async (c) => {
+  const service = c.get('service');
+  const report = await service.checkConsistency(true);
+  return c.json({ ok: true, data: report });
+});
+
+// GET /api/skills/export - Download the latest version of all (or filtered) skills as a ZIP (requires auth)
+app.get('/api/skills/export', authMiddleware('skills:read'), async (c) => {
+  const exportService = c.get('exportService');
+  const archive = await exportService.exportSkills({
+    activeOnly: c.req.query('active_only') === 'true',
+    query: c.req.query('query') || undefined,
+    tags: parseTagsParam(c.req.query('tags')),
+  });
+  return c.body(archive.data, 200, archiveHeaders(archive));
+});
+
 // GET /api/skills/:id - Get skill details
 app.get('/api/skills/:id', async (c) => {
   const service = c.get('service');
@@ -86,26 +183,54 @@ app.get('/api/skills/:id', async (c) => {
   const version = versionParam ? parseInt(versionParam, 10) : undefined;
 
   const skill = await service.getSkill(skillId, version);
+  // The ETag identifies the latest version; send it back in If-Match when saving
+  if (version === undefined) {
+    c.header('ETag', versionEtag(skill.version.version_number));
+  }
   return c.json({ ok: true, data: skill });
 });
 
-// GET /api/skills/:id/versions - Get version history
+// GET /api/skills/:id/export - Download a skill version (default: latest) as a ZIP
+app.get('/api/skills/:id/export', async (c) => {
+  const exportService = c.get('exportService');
+  const versionParam = c.req.query('version');
+  const version = versionParam ? parseInt(versionParam, 10) : undefined;
+
+  const archive = await exportService.exportSkill(c.req.param('id'), version);
+  return c.body(archive.data, 200, archiveHeaders(archive));
+});
+
+// GET /api/skills/:id/versions - Get version history (newest first, paginated)
 app.get('/api/skills/:id/versions', async (c) => {
   const service = c.get('service');
   const skillId = c.req.param('id');
+  const limit = parseInt(c.req.query('limit') || '20', 10);
+  const offset = parseInt(c.req.query('offset') || '0', 10);
 
-  const skill = await service.getSkill(skillId);
-  return c.json({
-    ok: true,
-    data: {
-      versions: [{
-        version_number: skill.version.version_number,
-        changelog: skill.version.changelog,
-        created_at: skill.version.created_at,
-        created_by: skill.version.created_by,
-      }],
-    },
+  const history = await service.listVersions(skillId, {
+    limit: Math.min(Math.max(limit, 1), 100),
+    offset: Math.max(offset, 0),
   });
+  return c.json({ ok: true, data: history });
+});
+
+// GET /api/skills/:id/diff?from=&to= - Compare two versions (to defaults to latest)
+app.get('/api/skills/:id/diff', async (c) => {
+  const service = c.get('service');
+  const skillId = c.req.param('id');
+  const from = parseInt(c.req.query('from') || '', 10);
+  const toParam = c.req.query('to');
+  const to = toParam ? parseInt(toParam, 10) : undefined;
+
+  if (isNaN(from) || (to !== undefined && isNaN(to))) {
+    return c.json(
+      { ok: false, error: { code: 'VALIDATION_ERROR', message: 'from (and optional to) must be version numbers' } },
+      400
+    );
+  }
+
+  const diff = await service.diffVersions(skillId, from, to);
+  return c.json({ ok: true, data: diff });
 });
 
 // GET /api/skills/:id/versions/:version/files/* - Get file content
@@ -126,56 +251,171 @@ app.get('/api/skills/:id/versions/:version/files/*', async (c) => {
   }
 
   const file = await service.getFile(skillId, filePath, version);
+
+  // Files of a version never change, so the content hash identifies the response
+  const etag = `"${file.content_hash}"`;
+  c.header('ETag', etag);
+  if (c.req.header('If-None-Match') === etag) {
+    return c.body(null, 304);
+  }
   return c.json({ ok: true, data: file });
 });
 
-// PATCH /api/skills/:id - Update skill status (requires auth)
-app.patch('/api/skills/:id', authMiddleware(), async (c) => {
+// GET /api/skills/:id/versions/:version/raw/* - Download file bytes (text or binary)
+app.get('/api/skills/:id/versions/:version/raw/*', async (c) => {
+  const service = c.get('service');
+  const skillId = c.req.param('id');
+  const version = parseInt(c.req.param('version'), 10);
+
+  const url = new URL(c.req.url);
+  const pathMatch = url.pathname.match(/\/raw\/(.+)$/);
+  const filePath = pathMatch ? pathMatch[1] : '';
+
+  if (!filePath) {
+    return c.json(
+      { ok: false, error: { code: 'VALIDATION_ERROR', message: 'File path is required' } },
+      400
+    );
+  }
+
+  const { file, data } = await service.getFileData(skillId, filePath, version);
+
+  const headers = rawFileHeaders(file, c.req.query('download') === 'true');
+  if (c.req.header('If-None-Match') === headers.ETag) {
+    return c.body(null, 304, { ETag: headers.ETag });
+  }
+  return c.body(data, 200, headers);
+});
+
+// PATCH /api/skills/:id - Update skill status and/or tags (requires auth)
+app.patch('/api/skills/:id', authMiddleware('skills:write'), async (c) => {
   const service = c.get('service');
   const skillId = c.req.param('id');
-  const body = await c.req.json<{ active?: boolean }>();
+  const body = await c.req.json<{ active?: boolean; tags?: string[] }>();
 
-  if (body.active === undefined) {
+  if (body.active === undefined && body.tags === undefined) {
     return c.json(
-      { ok: false, error: { code: 'VALIDATION_ERROR', message: 'active field is required' } },
+      { ok: false, error: { code: 'VALIDATION_ERROR', message: 'active or tags field is required' } },
       400
     );
   }
 
-  const skill = await service.updateStatus(skillId, body.active);
+  // Tags first: they are validated, so an invalid request changes nothing
+  let skill: Skill | undefined;
+  if (body.tags !== undefined) {
+    skill = await service.updateTags(skillId, body.tags);
+  }
+  if (body.active !== undefined) {
+    skill = await service.updateStatus(skillId, body.active);
+  }
   return c.json({ ok: true, data: skill });
 });
 
 // PUT /api/skills/:id - Update skill (create new version)
-app.put('/api/skills/:id', authMiddleware(), async (c) => {
+app.put('/api/skills/:id', authMiddleware('skills:write'), async (c) => {
   const service = c.get('service');
   const skillId = c.req.param('id');
   const body = await c.req.json<{
     description?: string;
+    tags?: string[];
     file_changes?: any[];
     changelog?: string;
+    expected_version?: number;
   }>();
 
   // The service expects UpdateSkillInput which includes skill_id
-  const skill = await service.updateSkill({
-    skill_id: skillId,
-    description: body.description,
-    file_changes: body.file_changes,
-    changelog: body.changelog,
-  });
+  const skill = await service.updateSkill(
+    {
+      skill_id: skillId,
+      description: body.description,
+      tags: body.tags,
+      file_changes: body.file_changes,
+      changelog: body.changelog,
+      expected_version: body.expected_version ?? parseIfMatch(c.req.header('If-Match')),
+    },
+    versionAttribution(c.get('auth'), restChannel(c.req.header(CLIENT_CHANNEL_HEADER)))
+  );
 
+  c.header('ETag', versionEtag(skill.version.version_number));
   return c.json({ ok: true, data: skill });
 });
 
+// POST /api/skills/:id/rollback - Create a new version from an earlier one (requires auth)
+app.post('/api/skills/:id/rollback', authMiddleware('skills:write'), async (c) => {
+  const service = c.get('service');
+  const skillId = c.req.param('id');
+  const body = await c.req.json<{ version?: number; changelog?: string }>();
+
+  if (typeof body.version !== 'number') {
+    return c.json(
+      { ok: false, error: { code: 'VALIDATION_ERROR', message: 'version field is required' } },
+      400
+    );
+  }
+
+  const skill = await service.rollbackSkill(
+    skillId,
+    body.version,
+    body.changelog,
+    versionAttribution(c.get('auth'), restChannel(c.req.header(CLIENT_CHANNEL_HEADER)))
+  );
+  return c.json({ ok: true, data: skill });
+});
+
+// DELETE /api/skills/:id - Move skill to the trash (requires auth)
+app.delete('/api/skills/:id', authMiddleware('skills:write'), async (c) => {
+  const service = c.get('service');
+  const skillId = c.req.param('id');
+
+  const skill = await service.deleteSkill(skillId);
+
+  // Purge anything past the retention period while we're here
+  c.executionCtx.waitUntil(service.purgeDeletedSkills(getTrashRetentionMs(c.env)));
+
+  return c.json({ ok: true, data: skill });
+});
+
+// POST /api/skills/:id/restore - Restore skill from the trash (requires auth)
+app.post('/api/skills/:id/restore', authMiddleware('skills:write'), async (c) => {
+  const service = c.get('service');
+  const skillId = c.req.param('id');
+
+  const skill = await service.restoreSkill(skillId);
+  return c.json({ ok: true, data: skill });
+});
+
+// ============================================================================
+// API Key Routes (requires skills:admin)
+// ============================================================================
+
+// GET /api/keys - List API keys (never includes the keys themselves)
+app.get('/api/keys', authMiddleware('skills:admin'), async (c) => {
+  const keys = await c.get('apiKeys').listKeys();
+  return c.json({ ok: true, data: { keys } });
+});
+
+// POST /api/keys - Create an API key; the key is only returned in this response
+app.post('/api/keys', authMiddleware('skills:admin'), async (c) => {
+  const body = await c.req.json<CreateApiKeyInput>();
+  const key = await c.get('apiKeys').createKey(body);
+  return c.json({ ok: true, data: key }, 201);
+});
+
+// DELETE /api/keys/:id - Revoke an API key
+app.delete('/api/keys/:id', authMiddleware('skills:admin'), async (c) => {
+  const key = await c.get('apiKeys').revokeKey(c.req.param('id'));
+  return c.json({ ok: true, data: key });
+});
+
 // ============================================================================
 // Upload Routes (requires auth)
 // ============================================================================
 
-app.post('/api/skills/upload/*', authMiddleware(), async (c) => {
+app.on(['GET', 'POST'], '/api/skills/upload/*', authMiddleware('skills:write'), async (c) => {
   const uploadService = c.get('uploadService');
 
   // Create upload routes sub-app
-  const uploadApp = createUploadRoutes(uploadService);
+  const uploadApp = createUploadRoutes(uploadService, versionAttribution(c.get('auth'), 'zip-upload'));
 
   // Rewrite path to remove /api/skills/upload prefix
   const url = new URL(c.req.url);
@@ -190,14 +430,78 @@ app.post('/api/skills/upload/*', authMiddleware(), async (c) => {
 // MCP Routes
 // ============================================================================
 
-app.post('/mcp', async (c) => {
+app.on(['GET', 'POST', 'DELETE'], '/mcp', async (c) => {
   const service = c.get('service');
+  const mcpSessions = c.get('mcpSessions');
 
   // Create a sub-app for MCP and delegate
-  const mcpApp = createMCPRoutes(service);
+  const mcpApp = createMCPRoutes(service, mcpSessions, c.get('auth'));
 
   // Forward the request to MCP handler
   return mcpApp.fetch(c.req.raw, c.env, c.executionCtx);
 });
 
-export default app;
+// ============================================================================
+// Import Queue Consumer
+// ============================================================================
+
+/**
+ * Deliveries of an import message before it is given up (max_retries of the consumer in wrangler.json, plus one)
+ */
+const IMPORT_MAX_ATTEMPTS = 4;
+
+/**
+ * Import the skills of each message; a message that fails is delivered again
+ * On its last attempt the unfinished skills are recorded as failed, so the job completes and can be retried.
+ */
+async function runImports(batch: MessageBatch<ImportJobMessage>, env: Env): Promise<void> {
+  const { uploadService } = createServices(env);
+  for (const message of batch.messages) {
+    try {
+      await uploadService.runImport(message.body);
+      message.ack();
+    } catch (err) {
+      console.error('Import job error:', err);
+      if (message.attempts < IMPORT_MAX_ATTEMPTS) {
+        message.retry();
+        continue;
+      }
+      try {
+        await uploadService.abandonImport(message.body, err instanceof Error ? err.message : 'Import failed');
+        message.ack();
+      } catch (abandonErr) {
+        console.error('Import job error:', abandonErr);
+        message.retry();
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Scheduled Housekeeping (cron trigger)
+// ============================================================================
+
+/**
+ * Purge expired upload sessions, import jobs, MCP sessions and skills past the trash retention period,
+ * and rehash legacy blobs
+ */
+async function runHousekeeping(env: Env): Promise<void> {
+  const { service, mcpSessions, sessionStore, jobStore } = createServices(env);
+  const housekeeping = createHousekeepingService(
+    sessionStore,
+    jobStore,
+    mcpSessions,
+    service,
+    getTrashRetentionMs(env)
+  );
+
+  await housekeeping.run();
+}
+
+export default {
+  fetch: app.fetch,
+  queue: runImports,
+  scheduled(_controller, env, ctx) {
+    ctx.waitUntil(runHousekeeping(env));
+  },
+} satisfies ExportedHandler<Env, ImportJobMessage>;
@@ -4,7 +4,48 @@
  */
 
 import type { Context, Next } from 'hono';
-import { unauthorized } from './errors';
+import type { ApiKeyScope, VersionAttribution, VersionChannel } from '../../shared/types';
+import type { ApiKeyService, AuthPrincipal } from '../services/api-key.service';
+import { hasScope } from '../services/api-key.service';
+import { unauthorized, forbidden } from './errors';
+
+/**
+ * Context variables used by the auth middleware
+ * `apiKeys` must be set by an earlier middleware; `auth` is set for authenticated requests
+ */
+export type AuthVariables = {
+  apiKeys: ApiKeyService;
+  auth: AuthPrincipal;
+};
+
+/**
+ * Request header the web UI sets so its edits are attributed to the web editor
+ */
+export const CLIENT_CHANNEL_HEADER = 'X-Client-Channel';
+
+/**
+ * Channel of a REST request: 'web-editor' when the web UI says so, otherwise 'rest'
+ */
+export function restChannel(headerValue: string | undefined): VersionChannel {
+  return headerValue === 'web-editor' ? 'web-editor' : 'rest';
+}
+
+/**
+ * Build the attribution recorded on versions created by an authenticated caller
+ */
+export function versionAttribution(
+  principal: AuthPrincipal,
+  channel: VersionChannel,
+  client?: { name?: string; version?: string } | null
+): VersionAttribution {
+  return {
+    channel,
+    author_key_id: principal.key_id,
+    author_name: principal.name,
+    client_name: client?.name ?? null,
+    client_version: client?.version ?? null,
+  };
+}
 
 /**
  * Extract Bearer token from Authorization header
@@ -23,37 +64,40 @@ function extractBearerToken(authHeader: string | undefined): string | null {
 /**
  * Authentication middleware that validates API key
  * 
- * Checks for Bearer token in Authorization header and validates
- * against MCP_API_KEY environment variable.
+ * Checks for Bearer token in Authorization header and validates it against
+ * the api_keys table or the MCP_API_KEY bootstrap key, then checks that the
+ * key holds the required scope.
  * 
  * Requirements:
  * - 8.1: Reject requests without valid Authorization header with 401
- * - 8.2: Process requests with valid Bearer token matching MCP_API_KEY
+ * - 8.2: Process requests with a valid Bearer token
  */
-export function authMiddleware() {
-  return async (c: Context<{ Bindings: Env }>, next: Next) => {
+export function authMiddleware(scope: ApiKeyScope) {
+  return async (c: Context<{ Bindings: Env; Variables: AuthVariables }>, next: Next) => {
     const authHeader = c.req.header('Authorization');
     const token = extractBearerToken(authHeader);
     
     // Requirement 8.1: Reject if no valid token
-    if (!token) {
+    const principal = token
+      ? await c.get('apiKeys').authenticate(token, c.env.MCP_API_KEY)
+      : null;
+    if (!principal) {
       const error = unauthorized();
       return c.json(
         { ok: false, error: { code: error.code, message: error.message } },
         error.status as 401
       );
     }
-    
-    // Requirement 8.2: Validate token against MCP_API_KEY
-    const apiKey = c.env.MCP_API_KEY;
-    if (!apiKey || token !== apiKey) {
-      const error = unauthorized();
+
+    if (!hasScope(principal, scope)) {
+      const error = forbidden(`API key lacks the ${scope} scope`);
       return c.json(
         { ok: false, error: { code: error.code, message: error.message } },
-        error.status as 401
+        error.status as 403
       );
     }
-    
+
+    c.set('auth', principal);
     await next();
   };
 }
@@ -0,0 +1,50 @@
+/**
+ * Base64 utilities for binary file content sent over JSON
+ */
+
+/**
+ * Bytes per String.fromCharCode call when encoding, to stay below argument limits
+ */
+const ENCODE_CHUNK_SIZE = 0x8000;
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Check that a string is well-formed base64 (whitespace is ignored)
+ */
+export function isBase64(value: string): boolean {
+  const compact = value.replace(/\s/g, '');
+  return compact.length % 4 === 0 && BASE64_PATTERN.test(compact);
+}
+
+/**
+ * Number of bytes a well-formed base64 string decodes to
+ */
+export function base64DecodedSize(value: string): number {
+  const compact = value.replace(/\s/g, '');
+  const padding = compact.endsWith('==') ? 2 : compact.endsWith('=') ? 1 : 0;
+  return (compact.length / 4) * 3 - padding;
+}
+
+/**
+ * Decode base64 into bytes
+ */
+export function decodeBase64(value: string): Uint8Array {
+  const binary = atob(value.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as base64
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += ENCODE_CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + ENCODE_CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,28 @@
+/**
+ * Runtime configuration read from environment variables
+ */
+
+/**
+ * Milliseconds per day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Deleted skills are kept in the trash for 30 days by default
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Get the trash retention period in days from TRASH_RETENTION_DAYS
+ */
+export function getTrashRetentionDays(env: Env): number {
+  const days = parseInt(env.TRASH_RETENTION_DAYS ?? '', 10);
+  return Number.isNaN(days) || days < 0 ? DEFAULT_TRASH_RETENTION_DAYS : days;
+}
+
+/**
+ * Get the trash retention period in milliseconds
+ */
+export function getTrashRetentionMs(env: Env): number {
+  return getTrashRetentionDays(env) * DAY_MS;
+}
@@ -0,0 +1,211 @@
+/**
+ * Line diff utilities for comparing skill file versions
+ *
+ * Uses the Myers O(ND) algorithm after trimming the common prefix and suffix.
+ */
+
+/**
+ * A single line of a line diff
+ */
+export interface DiffOp {
+  type: 'equal' | 'insert' | 'delete';
+  line: string;
+}
+
+/**
+ * Number of unchanged lines shown around each change in a unified diff
+ */
+export const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Edit distance above which the diff falls back to replacing the whole changed region
+ * Keeps the O(D^2) trace memory bounded for completely rewritten files
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Split text into lines, ignoring a single trailing newline
+ */
+export function splitLines(text: string): string[] {
+  if (text.length === 0) return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Compute a line diff between two lists of lines
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const equal = (line: string): DiffOp => ({ type: 'equal', line });
+
+  return [
+    ...a.slice(0, start).map(equal),
+    ...myersDiff(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(equal),
+  ];
+}
+
+/**
+ * Myers shortest edit script between two lists of lines
+ */
+function myersDiff(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const replaceAll = (): DiffOp[] => [
+    ...a.map((line): DiffOp => ({ type: 'delete', line })),
+    ...b.map((line): DiffOp => ({ type: 'insert', line })),
+  ];
+
+  if (n === 0 || m === 0) return replaceAll();
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the furthest x reached on diagonals -d..d after step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(trace, a, b);
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  return replaceAll();
+}
+
+/**
+ * Walk the Myers trace back from the end to recover the edit script
+ */
+function backtrack(trace: Int32Array[], a: string[], b: string[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d - 1];
+    const at = (k: number) => prev[k + d - 1];
+    const k = x - y;
+
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[x - 1] });
+      x--;
+      y--;
+    }
+
+    if (x === prevX) {
+      ops.push({ type: 'insert', line: b[y - 1] });
+      y--;
+    } else {
+      ops.push({ type: 'delete', line: a[x - 1] });
+      x--;
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    ops.push({ type: 'equal', line: a[x - 1] });
+    x--;
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Build a unified diff between two texts
+ * @returns the diff, or an empty string if the texts are identical
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context = DIFF_CONTEXT_LINES
+): string {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+
+  const changes: number[] = [];
+  ops.forEach((op, index) => {
+    if (op.type !== 'equal') changes.push(index);
+  });
+  if (changes.length === 0) return '';
+
+  // Group changes whose surrounding context would overlap into one hunk
+  const groups: Array<[number, number]> = [];
+  let groupStart = changes[0];
+  let groupEnd = changes[0];
+  for (const index of changes.slice(1)) {
+    if (index - groupEnd - 1 > 2 * context) {
+      groups.push([groupStart, groupEnd]);
+      groupStart = index;
+    }
+    groupEnd = index;
+  }
+  groups.push([groupStart, groupEnd]);
+
+  // Line numbers (0-based) in each text before each op
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const op of ops) {
+    oldBefore.push(oldLine);
+    newBefore.push(newLine);
+    if (op.type !== 'insert') oldLine++;
+    if (op.type !== 'delete') newLine++;
+  }
+
+  const lines = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  for (const [first, last] of groups) {
+    const from = Math.max(0, first - context);
+    const to = Math.min(ops.length - 1, last + context);
+    const hunk = ops.slice(from, to + 1);
+
+    const oldCount = hunk.filter((op) => op.type !== 'insert').length;
+    const newCount = hunk.filter((op) => op.type !== 'delete').length;
+    const oldStart = oldCount === 0 ? oldBefore[from] : oldBefore[from] + 1;
+    const newStart = newCount === 0 ? newBefore[from] : newBefore[from] + 1;
+
+    lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of hunk) {
+      const prefix = op.type === 'insert' ? '+' : op.type === 'delete' ? '-' : ' ';
+      lines.push(prefix + op.line);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,39 @@
+/**
+ * Response headers for serving skill files and exports as downloads
+ */
+
+import type { SkillFile } from '../../shared/types';
+import type { SkillArchive } from '../services/export.service';
+
+/**
+ * Content-Disposition header value with a UTF-8 safe filename
+ */
+export function contentDisposition(type: 'inline' | 'attachment', filename: string): string {
+  const ascii = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${type}; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Headers for a file's raw bytes
+ * Files of a version never change, so the content hash is the ETag. Uploaded content is
+ * untrusted: it is sandboxed so HTML or SVG cannot run scripts on this origin.
+ */
+export function rawFileHeaders(file: SkillFile, attachment: boolean): Record<string, string> & { ETag: string } {
+  return {
+    'Content-Type': file.is_binary ? file.mime_type : `${file.mime_type}; charset=utf-8`,
+    'Content-Disposition': contentDisposition(attachment ? 'attachment' : 'inline', file.path.split('/').pop()!),
+    'Content-Security-Policy': 'sandbox',
+    'X-Content-Type-Options': 'nosniff',
+    ETag: `"${file.content_hash}"`,
+  };
+}
+
+/**
+ * Headers for an exported ZIP archive
+ */
+export function archiveHeaders(archive: SkillArchive): Record<string, string> {
+  return {
+    'Content-Type': 'application/zip',
+    'Content-Disposition': contentDisposition('attachment', archive.filename),
+  };
+}
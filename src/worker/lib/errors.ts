@@ -3,7 +3,7 @@
  * Requirements: 1.2, 2.6, 4.4, 5.2, 8.1
  */
 
-import type { ErrorCode } from '../../shared/types';
+import type { ErrorCode, ErrorDetails } from '../../shared/types';
 
 /**
  * HTTP status codes for each error type
@@ -13,6 +13,7 @@ const ERROR_STATUS_MAP: Record<ErrorCode, number> = {
   VALIDATION_ERROR: 400,
   DB_ERROR: 500,
   UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
   CONFLICT: 409,
 };
 
@@ -22,12 +23,14 @@ const ERROR_STATUS_MAP: Record<ErrorCode, number> = {
 export class AppError extends Error {
   public readonly code: ErrorCode;
   public readonly status: number;
+  public readonly details?: ErrorDetails;
 
-  constructor(code: ErrorCode, message: string, status?: number) {
+  constructor(code: ErrorCode, message: string, status?: number, details?: ErrorDetails) {
     super(message);
     this.name = 'AppError';
     this.code = code;
     this.status = status ?? ERROR_STATUS_MAP[code];
+    this.details = details;
   }
 
   /**
@@ -37,6 +40,7 @@ export class AppError extends Error {
     return {
       code: this.code,
       message: this.message,
+      ...this.details,
     };
   }
 }
@@ -51,8 +55,8 @@ export function notFound(resource: string): AppError {
 /**
  * Create a CONFLICT error
  */
-export function conflict(message: string): AppError {
-  return new AppError('CONFLICT', message, 409);
+export function conflict(message: string, details?: ErrorDetails): AppError {
+  return new AppError('CONFLICT', message, 409, details);
 }
 
 /**
@@ -69,6 +73,13 @@ export function unauthorized(): AppError {
   return new AppError('UNAUTHORIZED', 'Invalid or missing API key', 401);
 }
 
+/**
+ * Create a FORBIDDEN error
+ */
+export function forbidden(message: string): AppError {
+  return new AppError('FORBIDDEN', message, 403);
+}
+
 /**
  * Create a DB_ERROR
  */
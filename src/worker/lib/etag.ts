@@ -0,0 +1,28 @@
+/**
+ * ETags for skill versions, used for optimistic concurrency on updates
+ *
+ * A skill's ETag is its latest version number, e.g. "v4".
+ */
+
+import { validationError } from './errors';
+
+/**
+ * Build the ETag for a skill version
+ */
+export function versionEtag(versionNumber: number): string {
+  return `"v${versionNumber}"`;
+}
+
+/**
+ * Parse an If-Match header into the expected version number
+ * @returns undefined when the header is absent or `*`
+ */
+export function parseIfMatch(header: string | undefined): number | undefined {
+  if (header === undefined || header.trim() === '*') return undefined;
+
+  const match = /^(?:W\/)?"v(\d+)"$/.exec(header.trim());
+  if (!match) {
+    throw validationError('If-Match must be a skill version ETag such as "v3"');
+  }
+  return parseInt(match[1], 10);
+}
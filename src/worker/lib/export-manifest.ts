@@ -0,0 +1,83 @@
+/**
+ * Manifest written at the root of exported skill ZIPs
+ *
+ * The folder layout carries paths and content; the manifest records what it cannot
+ * (executable flags, script languages, AI run instructions, binary detection,
+ * descriptions and tags) so that importing an export recreates the skills exactly. Imports
+ * without a manifest infer these from the files.
+ */
+
+/**
+ * Path of the manifest within the ZIP (root level, so it is never read as a skill file)
+ */
+export const EXPORT_MANIFEST_PATH = 'skill-manager.json';
+
+const EXPORT_FORMAT = 'skill-manager-export';
+const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * Metadata of one exported file
+ */
+export interface ExportManifestFile {
+  path: string;
+  is_binary: boolean;
+  is_executable: boolean;
+  script_language: string | null;
+  run_instructions_for_ai: string | null;
+}
+
+/**
+ * Metadata of one exported skill; its files are in the folder of the same name
+ */
+export interface ExportManifestSkill {
+  name: string;
+  description: string | null;
+  tags?: string[]; // absent in exports made before skills had tags
+  version: number;
+  files: ExportManifestFile[];
+}
+
+/**
+ * Export manifest
+ */
+export interface ExportManifest {
+  format: typeof EXPORT_FORMAT;
+  format_version: typeof EXPORT_FORMAT_VERSION;
+  exported_at: number;
+  skills: ExportManifestSkill[];
+}
+
+/**
+ * Build a manifest for the given skills
+ */
+export function createExportManifest(skills: ExportManifestSkill[]): ExportManifest {
+  return { format: EXPORT_FORMAT, format_version: EXPORT_FORMAT_VERSION, exported_at: Date.now(), skills };
+}
+
+/**
+ * Parse a manifest read from a ZIP
+ * @returns null if the content is not a manifest of a supported format version
+ */
+export function parseExportManifest(content: Uint8Array): ExportManifest | null {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(content));
+  } catch {
+    return null;
+  }
+
+  if (
+    typeof manifest !== 'object' ||
+    manifest === null ||
+    !('format' in manifest) ||
+    manifest.format !== EXPORT_FORMAT ||
+    !('format_version' in manifest) ||
+    manifest.format_version !== EXPORT_FORMAT_VERSION ||
+    !('skills' in manifest) ||
+    !Array.isArray(manifest.skills)
+  ) {
+    return null;
+  }
+
+  return manifest as ExportManifest;
+}
@@ -1,5 +1,5 @@
 /**
- * File type detection utilities for ZIP upload processing
+ * File type detection utilities for ZIP upload processing and serving skill files
  * Requirements: 6.1, 6.2, 6.3
  */
 
@@ -85,3 +85,56 @@ export function isBinary(content: Uint8Array): boolean {
   // If more than 10% non-printable, consider it binary
   return nonPrintableCount / checkLength > 0.1;
 }
+
+/**
+ * Mapping of file extensions to MIME types for serving skill files
+ */
+const MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.txt': 'text/plain',
+  '.py': 'text/x-python',
+  '.sh': 'application/x-sh',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.ts': 'text/typescript',
+  '.json': 'application/json',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.toml': 'application/toml',
+  '.xml': 'application/xml',
+  '.html': 'text/html',
+  '.css': 'text/css',
+  '.csv': 'text/csv',
+  '.sql': 'application/sql',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.pdf': 'application/pdf',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.zip': 'application/zip',
+  '.wasm': 'application/wasm',
+};
+
+/**
+ * Get the MIME type for a file based on its extension
+ * @param path - File path to check
+ * @param binary - Whether the content is binary
+ * @returns MIME type string, defaults to text/plain (or application/octet-stream for binary content) for unknown extensions
+ */
+export function getMimeType(path: string, binary = false): string {
+  const fallback = binary ? 'application/octet-stream' : 'text/plain';
+  const ext = getExtension(path);
+  if (ext === null) return fallback;
+  return MIME_TYPES[ext] ?? fallback;
+}
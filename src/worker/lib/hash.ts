@@ -0,0 +1,14 @@
+/**
+ * Hashing utilities (Web Crypto)
+ */
+
+/**
+ * SHA-256 digest as a lowercase hex string
+ */
+export async function sha256Hex(input: string | Uint8Array): Promise<string> {
+  const data = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -3,3 +3,10 @@ export * from './errors';
 export * from './auth';
 export * from './file-type';
 export * from './upload-validation';
+export * from './skill-uri';
+export * from './config';
+export * from './diff';
+export * from './hash';
+export * from './etag';
+export * from './base64';
+export * from './download';
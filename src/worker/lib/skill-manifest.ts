@@ -0,0 +1,261 @@
+/**
+ * SKILL.md frontmatter parsing
+ *
+ * The frontmatter is the YAML document between a leading `---` line and the next
+ * `---` (or `...`) line. Known keys are read into a typed SkillManifest; any other
+ * keys are kept under metadata alongside the entries of a `metadata:` mapping.
+ */
+
+import { parseDocument, isMap, isNode, isScalar, isSeq, type Node } from 'yaml';
+import type { SkillManifest, SkillPromptArgument } from '../../shared/types';
+
+/**
+ * A parsed manifest with the problems found; fields that could not be read are left out
+ */
+export interface ManifestParseResult {
+  manifest: SkillManifest;
+  errors: string[];
+}
+
+/**
+ * SKILL.md content split at its frontmatter
+ */
+export interface FrontmatterSplit {
+  frontmatter: string | null; // YAML text, null without frontmatter
+  body: string;
+}
+
+const FRONTMATTER_START = '---';
+const FRONTMATTER_END = ['---', '...'];
+
+/**
+ * Keys read into typed manifest fields
+ */
+const MANIFEST_KEYS = new Set([
+  'name',
+  'description',
+  'license',
+  'allowed-tools',
+  'version',
+  'tags',
+  'dependencies',
+  'arguments',
+  'metadata',
+]);
+
+/**
+ * Split SKILL.md content into frontmatter and body
+ * Content without a closed frontmatter block is all body.
+ */
+export function splitFrontmatter(content: string): FrontmatterSplit {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  if (lines[0]?.trim() !== FRONTMATTER_START) {
+    return { frontmatter: null, body: content };
+  }
+
+  const end = lines.findIndex((line, i) => i > 0 && FRONTMATTER_END.includes(line.trimEnd()));
+  if (end === -1) {
+    return { frontmatter: null, body: content };
+  }
+
+  return { frontmatter: lines.slice(1, end).join('\n'), body: lines.slice(end + 1).join('\n') };
+}
+
+/**
+ * Text of a scalar node; numbers and booleans keep their source text (version: 1.0 stays "1.0")
+ */
+function scalarText(node: Node): string | undefined {
+  if (!isScalar(node)) return undefined;
+  if (typeof node.value === 'string') return node.value;
+  if (typeof node.value === 'number' || typeof node.value === 'boolean') {
+    return node.source ?? String(node.value);
+  }
+  return undefined;
+}
+
+/**
+ * Read a string field
+ */
+function readText(node: Node, key: string, errors: string[]): string | undefined {
+  const text = scalarText(node);
+  if (text === undefined) {
+    errors.push(`Frontmatter field "${key}" must be a string`);
+    return undefined;
+  }
+  const trimmed = text.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+/**
+ * Read a list of strings, given as a YAML sequence or as one string split by separator
+ */
+function readList(node: Node, key: string, separator: RegExp, errors: string[]): string[] | undefined {
+  let items: (string | undefined)[];
+  if (isSeq(node)) {
+    items = node.items.map((item) => scalarText(item as Node));
+  } else {
+    const text = scalarText(node);
+    items = text === undefined ? [undefined] : text.split(separator);
+  }
+
+  if (items.some((item) => item === undefined)) {
+    errors.push(`Frontmatter field "${key}" must be a list of strings`);
+    return undefined;
+  }
+  return (items as string[]).map((item) => item.trim()).filter((item) => item.length > 0);
+}
+
+/**
+ * Check for a plain object (a YAML mapping converted to JavaScript)
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read the prompt arguments list; entries without a name are skipped
+ */
+function readArguments(value: unknown, errors: string[]): SkillPromptArgument[] | undefined {
+  if (!Array.isArray(value) || !value.every(isRecord)) {
+    errors.push('Frontmatter field "arguments" must be a list of mappings');
+    return undefined;
+  }
+
+  const args: SkillPromptArgument[] = [];
+  for (const entry of value) {
+    if (typeof entry.name !== 'string' || entry.name.trim().length === 0) continue;
+
+    const arg: SkillPromptArgument = { name: entry.name.trim() };
+    if (typeof entry.description === 'string') arg.description = entry.description;
+    if (entry.required !== undefined) arg.required = entry.required === true || entry.required === 'yes';
+    args.push(arg);
+  }
+  return args;
+}
+
+/**
+ * Parse the frontmatter of SKILL.md content into a manifest
+ * Content without frontmatter has an empty manifest. Syntax errors and fields of the
+ * wrong type are reported in errors.
+ */
+export function parseSkillManifest(content: string): ManifestParseResult {
+  const { frontmatter } = splitFrontmatter(content);
+  if (frontmatter === null || frontmatter.trim().length === 0) {
+    return { manifest: {}, errors: [] };
+  }
+
+  const doc = parseDocument(frontmatter, { prettyErrors: false, uniqueKeys: true });
+  if (doc.errors.length > 0) {
+    const errors = doc.errors.map((error) => {
+      // The YAML text starts on line 2 of the file, after the opening ---
+      const errorLine = frontmatter.slice(0, error.pos[0]).split('\n').length + 1;
+      return `Invalid SKILL.md frontmatter (line ${errorLine}): ${error.message}`;
+    });
+    // The parser can report the same problem more than once
+    return { manifest: {}, errors: [...new Set(errors)] };
+  }
+
+  if (doc.contents === null) {
+    return { manifest: {}, errors: [] };
+  }
+  if (!isMap(doc.contents)) {
+    return { manifest: {}, errors: ['SKILL.md frontmatter must be a mapping of keys to values'] };
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = doc.toJS() as Record<string, unknown>;
+  } catch (err) {
+    // e.g. aliases expanding into an excessively large document
+    return { manifest: {}, errors: [`Invalid SKILL.md frontmatter: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+  const manifest: SkillManifest = {};
+  const metadata: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const pair of doc.contents.items) {
+    const key = String(isScalar(pair.key) ? pair.key.value : pair.key);
+    const node = pair.value as Node | null;
+    // An empty value ("license:") is the same as leaving the key out
+    if (node === null || (isScalar(node) && node.value === null)) continue;
+
+    if (!MANIFEST_KEYS.has(key)) {
+      metadata[key] = data[key];
+      continue;
+    }
+
+    switch (key) {
+      case 'name':
+        manifest.name = readText(node, key, errors);
+        break;
+      case 'description':
+        manifest.description = readText(node, key, errors);
+        break;
+      case 'license':
+        manifest.license = readText(node, key, errors);
+        break;
+      case 'version':
+        manifest.version = readText(node, key, errors);
+        break;
+      case 'allowed-tools':
+        // Comma- or space-separated; spaces inside parentheses belong to the tool, e.g. Bash(git add:*)
+        manifest.allowed_tools = readList(node, key, /,|\s+(?![^(]*\))/, errors);
+        break;
+      case 'tags':
+        manifest.tags = readList(node, key, /,/, errors);
+        break;
+      case 'dependencies':
+        manifest.dependencies = readList(node, key, /,/, errors);
+        break;
+      case 'arguments':
+        manifest.arguments = readArguments(data[key], errors);
+        break;
+      case 'metadata':
+        if (isRecord(data[key])) {
+          Object.assign(metadata, data[key]);
+        } else {
+          errors.push('Frontmatter field "metadata" must be a mapping');
+        }
+        break;
+    }
+  }
+
+  if (Object.keys(metadata).length > 0) {
+    manifest.metadata = metadata;
+  }
+
+  // Leave out fields that were not set
+  for (const key of Object.keys(manifest) as (keyof SkillManifest)[]) {
+    if (manifest[key] === undefined) delete manifest[key];
+  }
+
+  return { manifest, errors };
+}
+
+/**
+ * Set the frontmatter `name:` of SKILL.md content, keeping everything else as written
+ * Content without a readable frontmatter name is returned unchanged.
+ */
+export function setManifestName(content: string, name: string): string {
+  const { frontmatter } = splitFrontmatter(content);
+  if (frontmatter === null) return content;
+
+  const doc = parseDocument(frontmatter, { uniqueKeys: true });
+  if (doc.errors.length > 0 || !isMap(doc.contents)) return content;
+  const pair = doc.contents.items.find((item) => isScalar(item.key) && item.key.value === 'name');
+  if (!pair || !isNode(pair.value) || !pair.value.range) return content;
+
+  // Replace only the value; plain names stay plain, anything else is quoted
+  // (the range of a block scalar runs on to the start of the next line)
+  const [start, valueEnd] = pair.value.range;
+  const end = start + frontmatter.slice(start, valueEnd).trimEnd().length;
+  const value = /^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(name) ? name : JSON.stringify(name);
+  const updated = frontmatter.slice(0, start) + value + frontmatter.slice(end);
+
+  // Put the frontmatter back between the original delimiter lines
+  const bom = content.startsWith('\uFEFF') ? '\uFEFF' : '';
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.slice(bom.length).split(/\r?\n/);
+  const frontmatterLines = frontmatter.split('\n').length;
+  return bom + [lines[0], ...updated.split('\n'), ...lines.slice(1 + frontmatterLines)].join(eol);
+}
@@ -0,0 +1,65 @@
+/**
+ * Skill resource URI utilities for MCP resources
+ *
+ * Skill files are addressed as `skill://{name}/{version}/{path}` where
+ * version is a version number or `latest`, and path may contain slashes.
+ */
+
+/**
+ * URI scheme used for skill resources
+ */
+export const SKILL_URI_SCHEME = 'skill://';
+
+/**
+ * URI template advertised via resources/templates/list
+ */
+export const SKILL_URI_TEMPLATE = 'skill://{name}/{version}/{path}';
+
+/**
+ * Parsed components of a skill resource URI
+ */
+export interface SkillUri {
+  name: string;
+  version?: number; // undefined means latest
+  path: string;
+}
+
+/**
+ * Build a skill resource URI
+ * @param name - Skill name
+ * @param version - Version number, or undefined for latest
+ * @param path - File path within the skill
+ */
+export function buildSkillUri(name: string, version: number | undefined, path: string): string {
+  const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+  return `${SKILL_URI_SCHEME}${encodeURIComponent(name)}/${version ?? 'latest'}/${encodedPath}`;
+}
+
+/**
+ * Parse a skill resource URI
+ * @param uri - URI to parse
+ * @returns Parsed components or null if the URI is not a valid skill URI
+ */
+export function parseSkillUri(uri: string): SkillUri | null {
+  if (!uri.startsWith(SKILL_URI_SCHEME)) return null;
+
+  const parts = uri.slice(SKILL_URI_SCHEME.length).split('/');
+  if (parts.length < 3) return null;
+
+  const [rawName, rawVersion, ...pathParts] = parts;
+
+  let version: number | undefined;
+  if (rawVersion !== 'latest') {
+    if (!/^\d+$/.test(rawVersion)) return null;
+    version = parseInt(rawVersion, 10);
+  }
+
+  try {
+    const name = decodeURIComponent(rawName);
+    const path = pathParts.map(decodeURIComponent).join('/');
+    if (!name || !path) return null;
+    return { name, version, path };
+  } catch {
+    return null;
+  }
+}
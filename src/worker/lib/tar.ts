@@ -0,0 +1,142 @@
+/**
+ * Tar archive reader (POSIX ustar, with GNU long names and pax extended headers)
+ *
+ * Only regular files and directories are returned; links, devices and other
+ * entry types are skipped.
+ */
+
+/**
+ * A file or directory read from a tar archive
+ */
+export interface TarEntry {
+  path: string;
+  content: Uint8Array;
+  isDirectory: boolean;
+}
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Offset and value of the magic field identifying ustar (POSIX and GNU) headers
+ */
+const MAGIC_OFFSET = 257;
+const MAGIC = 'ustar';
+
+/**
+ * Check whether bytes start with a ustar header
+ */
+export function isTar(bytes: Uint8Array): boolean {
+  return bytes.length >= BLOCK_SIZE && readString(bytes, MAGIC_OFFSET, MAGIC.length) === MAGIC;
+}
+
+/**
+ * Read a NUL-terminated string field
+ */
+function readString(bytes: Uint8Array, offset: number, length: number): string {
+  const field = bytes.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end));
+}
+
+/**
+ * Read a numeric field: octal text, or big-endian base-256 when the high bit is set (GNU)
+ */
+function readNumber(bytes: Uint8Array, offset: number, length: number): number {
+  if (bytes[offset] & 0x80) {
+    let value = bytes[offset] & 0x7f;
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + bytes[offset + i];
+    }
+    return value;
+  }
+  const text = readString(bytes, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+/**
+ * Verify a header checksum (sum of the header bytes with the checksum field read as spaces)
+ */
+function validChecksum(header: Uint8Array): boolean {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum === readNumber(header, 148, 8);
+}
+
+/**
+ * Parse the records of a pax extended header ("<length> <key>=<value>\n" each)
+ */
+function parsePaxRecords(data: Uint8Array): Map<string, string> {
+  const records = new Map<string, string>();
+  const text = new TextDecoder().decode(data);
+  let offset = 0;
+  while (offset < text.length) {
+    const space = text.indexOf(' ', offset);
+    const length = parseInt(text.slice(offset, space), 10);
+    if (space === -1 || !(length > 0)) break;
+    const record = text.slice(space + 1, offset + length - 1);
+    const equals = record.indexOf('=');
+    if (equals !== -1) {
+      records.set(record.slice(0, equals), record.slice(equals + 1));
+    }
+    offset += length;
+  }
+  return records;
+}
+
+/**
+ * Read all entries of a tar archive
+ * @throws Error if a header is corrupt or an entry runs past the end of the archive
+ */
+export function parseTar(bytes: Uint8Array): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let longName: string | undefined;
+  let pax = new Map<string, string>();
+
+  for (let offset = 0; offset + BLOCK_SIZE <= bytes.length; ) {
+    const header = bytes.subarray(offset, offset + BLOCK_SIZE);
+    // The archive ends with zero blocks
+    if (header.every((byte) => byte === 0)) break;
+    if (!validChecksum(header)) {
+      throw new Error(`Invalid tar header checksum at offset ${offset}`);
+    }
+
+    const type = String.fromCharCode(header[156] || 0x30);
+    const size = pax.has('size') ? Number(pax.get('size')) : readNumber(header, 124, 12);
+    const dataStart = offset + BLOCK_SIZE;
+    if (dataStart + size > bytes.length) {
+      throw new Error(`Tar entry at offset ${offset} is truncated`);
+    }
+    const data = bytes.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    // Headers describing the next entry
+    if (type === 'L') {
+      longName = readString(data, 0, data.length);
+      continue;
+    }
+    if (type === 'x') {
+      pax = parsePaxRecords(data);
+      continue;
+    }
+    if (type === 'g' || type === 'K') continue;
+
+    // POSIX headers ("ustar\0") split long paths into a prefix; GNU headers ("ustar ") use that space otherwise
+    const prefix = header[MAGIC_OFFSET + MAGIC.length] === 0 ? readString(header, 345, 155) : '';
+    const name = readString(header, 0, 100);
+    const path = (pax.get('path') ?? longName ?? (prefix ? `${prefix}/${name}` : name)).replace(/^(\.\/)+/, '');
+    longName = undefined;
+    pax = new Map();
+
+    if (type === '5') {
+      if (path) {
+        entries.push({ path: path.endsWith('/') ? path : `${path}/`, content: new Uint8Array(0), isDirectory: true });
+      }
+    } else if ((type === '0' || type === '7') && path) {
+      entries.push({ path, content: data, isDirectory: false });
+    }
+  }
+
+  return entries;
+}
@@ -5,13 +5,18 @@
 
 import type { SkillFolder } from '../services/zip-parser.service';
 import { CONSTRAINTS } from './validation';
+import { base64DecodedSize } from './base64';
+import { parseSkillManifest } from './skill-manifest';
 
 /**
  * Upload-specific constraints
  */
 export const UPLOAD_CONSTRAINTS = {
   MAX_ZIP_SIZE: 10 * 1024 * 1024, // 10MB
+  MAX_UNCOMPRESSED_SIZE: 50 * 1024 * 1024, // 50MB, all entries of an archive
+  MAX_ARCHIVE_ENTRIES: 1000, // files and directories, including ignored ones
   MAX_FILE_SIZE: CONSTRAINTS.FILE_CONTENT_MAX, // 200KB (reuse existing)
+  MAX_ASSET_SIZE: CONSTRAINTS.ASSET_SIZE_MAX, // 5MB per binary file (reuse existing)
   MAX_FILES_PER_SKILL: CONSTRAINTS.FILES_PER_VERSION_MAX, // 50 (reuse existing)
   REQUIRED_FILE: 'SKILL.md',
 } as const;
@@ -25,14 +30,14 @@ export interface SkillValidationResult {
 }
 
 /**
- * Validate ZIP file size
+ * Validate uploaded archive size
  * Requirements: 1.3 - reject ZIP exceeding 10MB
  */
 export function validateZipSize(sizeInBytes: number): SkillValidationResult {
   if (sizeInBytes > UPLOAD_CONSTRAINTS.MAX_ZIP_SIZE) {
     return {
       valid: false,
-      errors: [`ZIP file exceeds maximum size of ${UPLOAD_CONSTRAINTS.MAX_ZIP_SIZE / (1024 * 1024)}MB`],
+      errors: [`Archive exceeds maximum size of ${UPLOAD_CONSTRAINTS.MAX_ZIP_SIZE / (1024 * 1024)}MB`],
     };
   }
   return { valid: true, errors: [] };
@@ -45,24 +50,32 @@ export function validateZipSize(sizeInBytes: number): SkillValidationResult {
 export function validateSkillFolder(folder: SkillFolder): SkillValidationResult {
   const errors: string[] = [];
 
-  // Filter out binary files for validation (they're skipped anyway)
-  const textFiles = folder.files.filter((f) => !f.isBinary);
-
-  // Requirement 2.1: Require SKILL.md file
-  const hasSkillMd = textFiles.some(
-    (f) => f.path === UPLOAD_CONSTRAINTS.REQUIRED_FILE || f.path.toLowerCase() === 'skill.md'
+  // Requirement 2.1: Require SKILL.md file (as text), with valid frontmatter
+  const skillMd = folder.files.find(
+    (f) => !f.isBinary && (f.path === UPLOAD_CONSTRAINTS.REQUIRED_FILE || f.path.toLowerCase() === 'skill.md')
   );
-  if (!hasSkillMd) {
+  if (!skillMd) {
     errors.push(`Skill folder must contain ${UPLOAD_CONSTRAINTS.REQUIRED_FILE} file`);
+  } else {
+    errors.push(...parseSkillManifest(skillMd.content).errors);
   }
 
   // Requirement 2.5: Max 50 files per skill
-  if (textFiles.length > UPLOAD_CONSTRAINTS.MAX_FILES_PER_SKILL) {
+  if (folder.files.length > UPLOAD_CONSTRAINTS.MAX_FILES_PER_SKILL) {
     errors.push(`Skill contains more than ${UPLOAD_CONSTRAINTS.MAX_FILES_PER_SKILL} files`);
   }
 
-  // Requirement 2.4: Max 200KB per file
-  for (const file of textFiles) {
+  // Requirement 2.4: Max 200KB per text file; binary files have their own limit
+  for (const file of folder.files) {
+    if (file.isBinary) {
+      if (base64DecodedSize(file.content) > UPLOAD_CONSTRAINTS.MAX_ASSET_SIZE) {
+        errors.push(
+          `Binary file "${file.path}" exceeds maximum size of ${UPLOAD_CONSTRAINTS.MAX_ASSET_SIZE / (1024 * 1024)}MB`
+        );
+      }
+      continue;
+    }
+
     const fileSizeBytes = new TextEncoder().encode(file.content).length;
     if (fileSizeBytes > UPLOAD_CONSTRAINTS.MAX_FILE_SIZE) {
       errors.push(
@@ -3,7 +3,8 @@
  * Requirements: 9.1, 9.2, 9.3, 9.4, 9.5
  */
 
-import type { CreateSkillInput, UpdateSkillInput, FileInput, FileChange } from '../../shared/types';
+import type { CreateSkillInput, UpdateSkillInput, FileInput, FileChange, FileEncoding } from '../../shared/types';
+import { isBase64, base64DecodedSize } from './base64';
 
 /**
  * Validation constraints as defined in requirements
@@ -13,10 +14,18 @@ export const CONSTRAINTS = {
   DESCRIPTION_MAX: 1024,
   FILE_PATH_MAX: 255,
   FILE_CONTENT_MAX: 200 * 1024, // 200KB
+  ASSET_SIZE_MAX: 5 * 1024 * 1024, // 5MB, binary files
   FILES_PER_VERSION_MAX: 50,
   CHANGELOG_MAX: 2000,
+  TAGS_PER_SKILL_MAX: 20,
+  TAG_MAX: 50,
 } as const;
 
+/**
+ * Tags are lowercase letters, digits and "-", "_" or "." after the first character
+ */
+const TAG_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+
 /**
  * Result of a validation operation
  */
@@ -40,23 +49,80 @@ function failure(errors: string[]): ValidationResult {
 }
 
 /**
- * Validate a file input
+ * Normalize a file path from an archive: backslashes become "/", and empty and "." segments
+ * are dropped. A leading "/" is kept so that validateFilePath rejects absolute paths.
  */
-export function validateFile(file: FileInput): ValidationResult {
+export function normalizeFilePath(path: string): string {
+  const slashed = path.replace(/\\/g, '/');
+  const segments = slashed.split('/').filter((segment) => segment !== '' && segment !== '.');
+  return (slashed.startsWith('/') ? '/' : '') + segments.join('/');
+}
+
+/**
+ * Validate a file path: required, within the length limit, relative, "/"-separated,
+ * and without empty, "." or ".." segments or control characters
+ */
+export function validateFilePath(path: string): ValidationResult {
   const errors: string[] = [];
 
-  // Check path length (Requirement 9.3)
-  if (!file.path || file.path.length === 0) {
+  if (!path || path.length === 0) {
     errors.push('File path is required');
-  } else if (file.path.length > CONSTRAINTS.FILE_PATH_MAX) {
-    errors.push(`File path exceeds ${CONSTRAINTS.FILE_PATH_MAX} characters`);
+  } else {
+    if (path.length > CONSTRAINTS.FILE_PATH_MAX) {
+      errors.push(`File path exceeds ${CONSTRAINTS.FILE_PATH_MAX} characters`);
+    }
+    if (path.startsWith('/') || /^[a-zA-Z]:/.test(path)) {
+      errors.push('File path must be relative');
+    }
+    if (path.includes('\\')) {
+      errors.push('File path must use "/" as separator');
+    }
+    const segments = path.replace(/^\/+/, '').split('/');
+    if (segments.some((segment) => segment === '' || segment === '.' || segment === '..')) {
+      errors.push('File path must not contain empty, "." or ".." segments');
+    }
+    if ([...path].some((ch) => ch.charCodeAt(0) < 0x20 || ch.charCodeAt(0) === 0x7f)) {
+      errors.push('File path must not contain control characters');
+    }
+  }
+
+  return errors.length > 0 ? failure(errors) : success();
+}
+
+/**
+ * Check file content against the size limit for its encoding
+ */
+function contentErrors(content: string, encoding: FileEncoding | undefined): string[] {
+  if (encoding === undefined || encoding === 'utf-8') {
+    return new TextEncoder().encode(content).length > CONSTRAINTS.FILE_CONTENT_MAX
+      ? [`File content exceeds ${CONSTRAINTS.FILE_CONTENT_MAX / 1024}KB`]
+      : [];
+  }
+  if (encoding !== 'base64') {
+    return [`Unsupported file encoding "${encoding}"; use "utf-8" or "base64"`];
+  }
+  if (!isBase64(content)) {
+    return ['File content is not valid base64'];
   }
+  return base64DecodedSize(content) > CONSTRAINTS.ASSET_SIZE_MAX
+    ? [`Binary file exceeds ${CONSTRAINTS.ASSET_SIZE_MAX / 1024 / 1024}MB`]
+    : [];
+}
+
+/**
+ * Validate a file input
+ */
+export function validateFile(file: FileInput): ValidationResult {
+  const errors: string[] = [];
+
+  // Check path (Requirement 9.3)
+  errors.push(...validateFilePath(file.path).errors);
 
   // Check content size (Requirement 9.1)
   if (file.content === undefined || file.content === null) {
     errors.push('File content is required');
-  } else if (new TextEncoder().encode(file.content).length > CONSTRAINTS.FILE_CONTENT_MAX) {
-    errors.push(`File content exceeds ${CONSTRAINTS.FILE_CONTENT_MAX / 1024}KB`);
+  } else {
+    errors.push(...contentErrors(file.content, file.encoding));
   }
 
   return errors.length > 0 ? failure(errors) : success();
@@ -69,8 +135,11 @@ export function validateFile(file: FileInput): ValidationResult {
 export function validateFileChange(change: FileChange): ValidationResult {
   const errors: string[] = [];
 
-  // Path is always required
-  if (!change.path || change.path.length === 0) {
+  // Path is always required; files written must have a safe path, while
+  // deletes only need to name a stored file
+  if (change.type === 'add' || change.type === 'update') {
+    errors.push(...validateFilePath(change.path).errors);
+  } else if (!change.path || change.path.length === 0) {
     errors.push('File path is required');
   } else if (change.path.length > CONSTRAINTS.FILE_PATH_MAX) {
     errors.push(`File path exceeds ${CONSTRAINTS.FILE_PATH_MAX} characters`);
@@ -80,8 +149,55 @@ export function validateFileChange(change: FileChange): ValidationResult {
   if (change.type === 'add' || change.type === 'update') {
     if (change.content === undefined || change.content === null) {
       errors.push(`File content is required for ${change.type} operation`);
-    } else if (new TextEncoder().encode(change.content).length > CONSTRAINTS.FILE_CONTENT_MAX) {
-      errors.push(`File content exceeds ${CONSTRAINTS.FILE_CONTENT_MAX / 1024}KB`);
+    } else {
+      errors.push(...contentErrors(change.content, change.encoding));
+    }
+  }
+
+  return errors.length > 0 ? failure(errors) : success();
+}
+
+/**
+ * Normalize tags: trimmed, lowercase, inner whitespace as "-", without duplicates and sorted
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags.map((tag) => tag.trim().toLowerCase().replace(/\s+/g, '-')).filter(Boolean);
+  return [...new Set(normalized)].sort();
+}
+
+/**
+ * Split a comma-separated tags query parameter, returns undefined when empty
+ */
+export function parseTagsParam(value: string | undefined): string[] | undefined {
+  const tags = value?.split(',').filter((tag) => tag.trim().length > 0);
+  return tags && tags.length > 0 ? tags : undefined;
+}
+
+/**
+ * Check a normalized tag against the length limit and allowed characters
+ */
+export function isValidTag(tag: string): boolean {
+  return tag.length <= CONSTRAINTS.TAG_MAX && TAG_PATTERN.test(tag);
+}
+
+/**
+ * Validate a list of tags (before normalization)
+ */
+export function validateTags(tags: unknown): ValidationResult {
+  if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== 'string')) {
+    return failure(['Tags must be an array of strings']);
+  }
+
+  const errors: string[] = [];
+  const normalized = normalizeTags(tags);
+  if (normalized.length > CONSTRAINTS.TAGS_PER_SKILL_MAX) {
+    errors.push(`Number of tags exceeds ${CONSTRAINTS.TAGS_PER_SKILL_MAX}`);
+  }
+  for (const tag of normalized) {
+    if (tag.length > CONSTRAINTS.TAG_MAX) {
+      errors.push(`Tag "${tag}" exceeds ${CONSTRAINTS.TAG_MAX} characters`);
+    } else if (!TAG_PATTERN.test(tag)) {
+      errors.push(`Tag "${tag}" may only contain letters, digits, "-", "_" and "."`);
     }
   }
 
@@ -111,6 +227,10 @@ export function validateCreateSkill(input: CreateSkillInput): ValidationResult {
     errors.push(`Changelog exceeds ${CONSTRAINTS.CHANGELOG_MAX} characters`);
   }
 
+  if (input.tags !== undefined) {
+    errors.push(...validateTags(input.tags).errors);
+  }
+
   // Validate files count (Requirement 9.2)
   if (!input.files || input.files.length === 0) {
     errors.push('At least one file is required');
@@ -160,6 +280,17 @@ export function validateUpdateSkill(input: UpdateSkillInput, currentFileCount: n
     errors.push(`Changelog exceeds ${CONSTRAINTS.CHANGELOG_MAX} characters`);
   }
 
+  if (input.tags !== undefined) {
+    errors.push(...validateTags(input.tags).errors);
+  }
+
+  if (
+    input.expected_version !== undefined &&
+    (!Number.isInteger(input.expected_version) || input.expected_version < 1)
+  ) {
+    errors.push('Expected version must be a positive integer');
+  }
+
   // Validate file changes
   if (input.file_changes && input.file_changes.length > 0) {
     // Calculate resulting file count
@@ -0,0 +1,119 @@
+/**
+ * API Key Repository - Data access layer for scoped API keys
+ */
+
+import type { ApiKey, ApiKeyScope } from '../../shared/types';
+
+/**
+ * Raw api_keys table row as returned by D1
+ */
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  key_hash: string;
+  key_prefix: string;
+  scopes: string;
+  created_at: number;
+  expires_at: number | null;
+  last_used_at: number | null;
+  revoked_at: number | null;
+}
+
+/**
+ * Repository interface for API key data access
+ */
+export interface ApiKeyRepository {
+  createKey(key: Omit<ApiKey, 'id'>, keyHash: string): Promise<ApiKey>;
+  findKeyById(id: string): Promise<ApiKey | null>;
+  findKeyByHash(keyHash: string): Promise<ApiKey | null>;
+  listKeys(): Promise<ApiKey[]>;
+  revokeKey(id: string, revokedAt: number): Promise<void>;
+  touchKey(id: string, usedAt: number): Promise<void>;
+}
+
+/**
+ * Map a D1 row to an ApiKey, dropping the hash
+ */
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    key_prefix: row.key_prefix,
+    scopes: JSON.parse(row.scopes) as ApiKeyScope[],
+    created_at: row.created_at,
+    expires_at: row.expires_at,
+    last_used_at: row.last_used_at,
+    revoked_at: row.revoked_at,
+  };
+}
+
+/**
+ * D1 implementation of ApiKeyRepository
+ */
+export function createApiKeyRepository(db: D1Database): ApiKeyRepository {
+  return {
+    async createKey(key: Omit<ApiKey, 'id'>, keyHash: string): Promise<ApiKey> {
+      const id = crypto.randomUUID();
+
+      await db
+        .prepare(
+          `INSERT INTO api_keys (id, name, key_hash, key_prefix, scopes, created_at, expires_at, last_used_at, revoked_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          id,
+          key.name,
+          keyHash,
+          key.key_prefix,
+          JSON.stringify(key.scopes),
+          key.created_at,
+          key.expires_at,
+          key.last_used_at,
+          key.revoked_at
+        )
+        .run();
+
+      return { id, ...key };
+    },
+
+    async findKeyById(id: string): Promise<ApiKey | null> {
+      const result = await db
+        .prepare('SELECT * FROM api_keys WHERE id = ?')
+        .bind(id)
+        .first<ApiKeyRow>();
+
+      return result ? toApiKey(result) : null;
+    },
+
+    async findKeyByHash(keyHash: string): Promise<ApiKey | null> {
+      const result = await db
+        .prepare('SELECT * FROM api_keys WHERE key_hash = ?')
+        .bind(keyHash)
+        .first<ApiKeyRow>();
+
+      return result ? toApiKey(result) : null;
+    },
+
+    async listKeys(): Promise<ApiKey[]> {
+      const results = await db
+        .prepare('SELECT * FROM api_keys ORDER BY created_at DESC')
+        .all<ApiKeyRow>();
+
+      return (results.results || []).map(toApiKey);
+    },
+
+    async revokeKey(id: string, revokedAt: number): Promise<void> {
+      await db
+        .prepare('UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL')
+        .bind(revokedAt, id)
+        .run();
+    },
+
+    async touchKey(id: string, usedAt: number): Promise<void> {
+      await db
+        .prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?')
+        .bind(usedAt, id)
+        .run();
+    },
+  };
+}
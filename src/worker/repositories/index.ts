@@ -1 +1,2 @@
 export { createSkillRepository, type SkillRepository } from './skill.repo';
+export { createApiKeyRepository, type ApiKeyRepository } from './api-key.repo';
@@ -6,34 +6,269 @@
 import type {
   Skill,
   SkillVersion,
+  SkillVersionSummary,
   SkillFile,
   SkillWithVersion,
+  SkillSearchResult,
   ListSkillsOptions,
+  ListVersionsOptions,
+  ConsistencyIssue,
+  TagCount,
+  SkillManifest,
 } from '../../shared/types';
+import { sha256Hex } from '../lib/hash';
+import { getMimeType } from '../lib/file-type';
+
+/**
+ * Options for single skill lookups
+ */
+export interface FindSkillOptions {
+  /** Also match soft-deleted skills (default: false) */
+  includeDeleted?: boolean;
+}
+
+/**
+ * Raw skill_files row joined with its blob, as returned by D1
+ */
+interface FileRow {
+  id: string;
+  skill_id: string;
+  version_id: string;
+  path: string;
+  content: string;
+  content_hash: string;
+  size: number;
+  storage: 'inline' | 'r2';
+  mime_type: string | null;
+  is_executable: number;
+  script_language: string | null;
+  run_instructions_for_ai: string | null;
+  created_at: number;
+}
+
+/**
+ * Raw skills table row as returned by D1
+ */
+interface SkillRow {
+  id: string;
+  name: string;
+  description: string | null;
+  active: number;
+  tags: string; // JSON array
+  created_at: number;
+  updated_at: number;
+  deleted_at: number | null;
+}
+
+/**
+ * Raw skill_versions columns as returned by D1, with the manifest still JSON
+ */
+type VersionRow<T extends SkillVersion = SkillVersion> = Omit<T, 'manifest'> & { manifest: string | null };
+
+/**
+ * Skill columns that can change after creation
+ */
+export type SkillUpdates = Partial<Pick<Skill, 'name' | 'description' | 'active' | 'tags' | 'updated_at' | 'deleted_at'>>;
+
+/**
+ * A version to write; IDs and the skill reference are filled in by the repository
+ */
+export type NewVersion = Omit<SkillVersion, 'id' | 'skill_id'>;
+
+/**
+ * Content of a file to write: UTF-8 text (stored in D1), binary data (stored in R2),
+ * or the hash of content that is already stored, for files carried over unchanged
+ */
+export type NewFileContent = { content: string } | { data: Uint8Array } | { content_hash: string };
+
+/**
+ * A file of a version to write; new content is hashed and stored by the repository
+ */
+export type NewVersionFile = Pick<
+  SkillFile,
+  'path' | 'mime_type' | 'is_executable' | 'script_language' | 'run_instructions_for_ai' | 'created_at'
+> &
+  NewFileContent;
+
+/**
+ * Counts of file_blobs rows needing housekeeping
+ */
+export interface BlobStats {
+  legacy: number;
+  unreferenced: number;
+}
+
+/**
+ * Rows written by a version write
+ */
+export interface VersionWriteResult {
+  skill: Skill;
+  version: SkillVersion;
+  files: SkillFile[];
+}
 
 /**
  * Repository interface for skill data access
  */
 export interface SkillRepository {
   // Skills
-  createSkill(skill: Omit<Skill, 'id'>): Promise<Skill>;
-  findSkillById(id: string): Promise<Skill | null>;
-  findSkillByName(name: string): Promise<Skill | null>;
+  findSkillById(id: string, options?: FindSkillOptions): Promise<Skill | null>;
+  findSkillByName(name: string, options?: FindSkillOptions): Promise<Skill | null>;
   listSkills(options: ListSkillsOptions): Promise<SkillWithVersion[]>;
-  updateSkill(id: string, updates: Partial<Pick<Skill, 'name' | 'description' | 'active' | 'updated_at'>>): Promise<Skill | null>;
+  updateSkill(id: string, updates: SkillUpdates): Promise<Skill | null>;
+  purgeSkillsDeletedBefore(timestamp: number): Promise<number>;
+  /** Tags of skills outside the trash with the number of skills carrying each */
+  listTags(options: Pick<ListSkillsOptions, 'activeOnly'>): Promise<TagCount[]>;
+
+  // Search
+  searchSkills(query: string, options: Omit<ListSkillsOptions, 'query' | 'deletedOnly'>): Promise<SkillSearchResult[]>;
+  refreshSearchIndex(skillId: string): Promise<void>;
 
   // Versions
-  createVersion(version: Omit<SkillVersion, 'id'>): Promise<SkillVersion>;
-  findVersionsBySkillId(skillId: string): Promise<SkillVersion[]>;
+  /** Insert a skill with version 1 and its files in a single batch */
+  createSkillWithVersion(skill: Omit<Skill, 'id'>, version: NewVersion, files: NewVersionFile[]): Promise<VersionWriteResult>;
+  /** Update a skill row and add a new version with its files in a single batch */
+  addVersion(skillId: string, updates: SkillUpdates, version: NewVersion, files: NewVersionFile[]): Promise<VersionWriteResult>;
+  findVersionsBySkillId(skillId: string, options?: ListVersionsOptions): Promise<SkillVersionSummary[]>;
+  countVersions(skillId: string): Promise<number>;
   findVersion(skillId: string, versionNumber: number): Promise<SkillVersion | null>;
   getLatestVersionNumber(skillId: string): Promise<number>;
 
   // Files
-  createFiles(files: Omit<SkillFile, 'id'>[]): Promise<SkillFile[]>;
   findFilesByVersionId(versionId: string): Promise<SkillFile[]>;
   findFile(versionId: string, path: string): Promise<SkillFile | null>;
+  /** Read a binary file's bytes from R2 */
+  getAssetData(contentHash: string): Promise<Uint8Array | null>;
+
+  // Consistency
+  findConsistencyIssues(): Promise<ConsistencyIssue[]>;
+  repairConsistencyIssues(issues: ConsistencyIssue[]): Promise<void>;
+
+  // Blobs
+  getBlobStats(): Promise<BlobStats>;
+  /** Re-key blobs deduplicated by migration under their SHA-256; returns the number re-keyed */
+  rehashLegacyBlobs(limit: number): Promise<number>;
+  /**
+   * Delete content (including R2 objects) no longer referenced by any file; returns the number deleted
+   * R2 objects a concurrent version write may be about to reference again are left in place.
+   */
+  deleteUnreferencedBlobs(): Promise<number>;
+}
+
+/**
+ * Convert a skills row to a skill
+ */
+function toSkill(row: SkillRow): Skill {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    active: row.active === 1,
+    tags: JSON.parse(row.tags) as string[],
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    deleted_at: row.deleted_at,
+  };
+}
+
+/**
+ * Convert a skill_versions row (optionally with extra columns) to a version
+ */
+function toVersion<T extends SkillVersion>(row: VersionRow<T>): T {
+  return { ...row, manifest: row.manifest === null ? null : (JSON.parse(row.manifest) as SkillManifest) } as T;
+}
+
+/**
+ * SQL condition and parameters matching skills (aliased s) that have every one of the tags
+ */
+function tagsCondition(tags: string[] | undefined): { sql: string; params: string[] } {
+  const wanted = tags ?? [];
+  return {
+    sql: wanted.map(() => ' AND EXISTS (SELECT 1 FROM json_each(s.tags) WHERE json_each.value = ?)').join(''),
+    params: wanted,
+  };
 }
 
+/**
+ * Convert free-text search input into a safe FTS5 query
+ * Each word becomes a quoted prefix term; all terms must match
+ */
+function toFtsQuery(query: string): string {
+  return query
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ''))
+    .filter((term) => term.length > 0)
+    .map((term) => `"${term}"*`)
+    .join(' ');
+}
+
+/**
+ * SQL condition matching a skill none of whose versions has any files
+ * @param skillId - SQL expression for the skill ID, e.g. a column or `?`
+ */
+function skillHasNoContent(skillId: string): string {
+  return `NOT EXISTS (SELECT 1 FROM skill_versions v JOIN skill_files f ON f.version_id = v.id WHERE v.skill_id = ${skillId})`;
+}
+
+/**
+ * Delete stored content that no file references any more, returning what was deleted
+ */
+const DELETE_UNREFERENCED_BLOBS =
+  'DELETE FROM file_blobs WHERE NOT EXISTS (SELECT 1 FROM skill_files f WHERE f.content_hash = file_blobs.hash) RETURNING hash, storage';
+
+/**
+ * Files joined with their stored content
+ */
+const SELECT_FILES =
+  'SELECT f.*, b.content, b.size, b.storage FROM skill_files f JOIN file_blobs b ON b.hash = f.content_hash';
+
+/**
+ * Maximum keys per R2 delete call
+ */
+const R2_DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Hashes looked up per query when re-checking deleted blobs (D1 binds at most 100 parameters)
+ */
+const BLOB_RECHECK_BATCH_SIZE = 100;
+
+/**
+ * How long after an R2 object is written it may still be awaiting the rows of the version
+ * writing it; garbage collection leaves such objects alone
+ */
+const BLOB_WRITE_GRACE_MS = 5 * 60 * 1000;
+
+/**
+ * R2 object key of a binary blob
+ */
+function assetKey(hash: string): string {
+  return `blobs/${hash}`;
+}
+
+/**
+ * Convert a joined file row to a SkillFile
+ */
+function toSkillFile({ storage, ...row }: FileRow): SkillFile {
+  const isBinary = storage === 'r2';
+  return {
+    ...row,
+    is_binary: isBinary,
+    // Files written before MIME types were stored
+    mime_type: row.mime_type ?? getMimeType(row.path, isBinary),
+    is_executable: row.is_executable === 1,
+  };
+}
+
+/**
+ * Key prefix of blobs deduplicated by migration 0008 before their SHA-256 is known
+ */
+const LEGACY_BLOB_PREFIX = 'legacy:';
+
+/**
+ * Legacy blobs loaded per batch while rehashing
+ */
+const REHASH_BATCH_SIZE = 50;
+
 /**
  * Generate a unique ID using crypto.randomUUID
  */
@@ -42,80 +277,231 @@ function generateId(): string {
 }
 
 /**
- * D1 implementation of SkillRepository
+ * D1 implementation of SkillRepository, with binary file content in R2
  */
-export function createSkillRepository(db: D1Database): SkillRepository {
+export function createSkillRepository(db: D1Database, bucket: R2Bucket): SkillRepository {
+  // Statement builders shared by single writes and batched version writes
+
+  function insertSkillStatement(skill: Skill): D1PreparedStatement {
+    return db
+      .prepare(
+        `INSERT INTO skills (id, name, description, active, tags, created_at, updated_at, deleted_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        skill.id,
+        skill.name,
+        skill.description,
+        skill.active ? 1 : 0,
+        JSON.stringify(skill.tags),
+        skill.created_at,
+        skill.updated_at,
+        skill.deleted_at
+      );
+  }
+
+  /**
+   * @returns null when there is nothing to update
+   */
+  function updateSkillStatement(id: string, updates: SkillUpdates): D1PreparedStatement | null {
+    const fields: string[] = [];
+    const values: (string | number | null)[] = [];
+
+    if (updates.name !== undefined) {
+      fields.push('name = ?');
+      values.push(updates.name);
+    }
+    if (updates.description !== undefined) {
+      fields.push('description = ?');
+      values.push(updates.description);
+    }
+    if (updates.active !== undefined) {
+      fields.push('active = ?');
+      values.push(updates.active ? 1 : 0);
+    }
+    if (updates.tags !== undefined) {
+      fields.push('tags = ?');
+      values.push(JSON.stringify(updates.tags));
+    }
+    if (updates.updated_at !== undefined) {
+      fields.push('updated_at = ?');
+      values.push(updates.updated_at);
+    }
+    if (updates.deleted_at !== undefined) {
+      fields.push('deleted_at = ?');
+      values.push(updates.deleted_at);
+    }
+
+    if (fields.length === 0) return null;
+
+    values.push(id);
+    return db.prepare(`UPDATE skills SET ${fields.join(', ')} WHERE id = ?`).bind(...values);
+  }
+
+  function insertVersionStatement(version: SkillVersion): D1PreparedStatement {
+    return db
+      .prepare(
+        `INSERT INTO skill_versions (
+           id, skill_id, version_number, changelog, created_at, created_by,
+           channel, author_key_id, author_name, client_name, client_version, manifest
+         )
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        version.id,
+        version.skill_id,
+        version.version_number,
+        version.changelog,
+        version.created_at,
+        version.created_by,
+        version.channel,
+        version.author_key_id,
+        version.author_name,
+        version.client_name,
+        version.client_version,
+        version.manifest === null ? null : JSON.stringify(version.manifest)
+      );
+  }
+
+  function insertFileStatement(file: Omit<SkillFile, 'content' | 'is_binary' | 'size'>): D1PreparedStatement {
+    return db
+      .prepare(
+        `INSERT INTO skill_files (id, skill_id, version_id, path, content_hash, mime_type, is_executable, script_language, run_instructions_for_ai, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        file.id,
+        file.skill_id,
+        file.version_id,
+        file.path,
+        file.content_hash,
+        file.mime_type,
+        file.is_executable ? 1 : 0,
+        file.script_language,
+        file.run_instructions_for_ai,
+        file.created_at
+      );
+  }
+
+  /**
+   * Record stored content unless identical content is already stored
+   */
+  function insertBlobStatement(
+    hash: string,
+    content: string,
+    size: number,
+    storage: FileRow['storage'],
+    createdAt: number
+  ): D1PreparedStatement {
+    return db
+      .prepare('INSERT OR IGNORE INTO file_blobs (hash, content, size, storage, created_at) VALUES (?, ?, ?, ?, ?)')
+      .bind(hash, content, size, storage, createdAt);
+  }
+
+  /**
+   * Re-index a skill from its latest version
+   */
+  function refreshSearchIndexStatements(skillId: string): D1PreparedStatement[] {
+    return [
+      db.prepare('DELETE FROM skills_fts WHERE skill_id = ?').bind(skillId),
+      db
+        .prepare(
+          `INSERT INTO skills_fts (skill_id, name, description, skill_md, content)
+           SELECT
+             s.id,
+             s.name,
+             COALESCE(s.description, ''),
+             COALESCE((SELECT b.content FROM skill_files f JOIN file_blobs b ON b.hash = f.content_hash WHERE f.version_id = v.id AND f.path = 'SKILL.md'), ''),
+             COALESCE((SELECT group_concat(f.path || char(10) || b.content, char(10)) FROM skill_files f JOIN file_blobs b ON b.hash = f.content_hash WHERE f.version_id = v.id AND f.path != 'SKILL.md'), '')
+           FROM skills s
+           JOIN skill_versions v ON v.skill_id = s.id
+           WHERE s.id = ? AND v.version_number = (SELECT MAX(version_number) FROM skill_versions WHERE skill_id = s.id)`
+        )
+        .bind(skillId),
+    ];
+  }
+
+  /**
+   * Assign IDs to a new version and its files and build the statements storing them
+   * Binary content is uploaded to R2 here, before any row references it
+   */
+  async function buildVersion(
+    skillId: string,
+    version: NewVersion,
+    files: NewVersionFile[]
+  ): Promise<{ version: SkillVersion; statements: D1PreparedStatement[] }> {
+    const newVersion: SkillVersion = { id: generateId(), skill_id: skillId, ...version };
+    const blobs = new Map<string, D1PreparedStatement>();
+    const rows: D1PreparedStatement[] = [];
+
+    for (const file of files) {
+      let contentHash: string;
+      if ('data' in file) {
+        contentHash = await sha256Hex(file.data);
+        if (!blobs.has(contentHash)) {
+          await bucket.put(assetKey(contentHash), file.data);
+          blobs.set(contentHash, insertBlobStatement(contentHash, '', file.data.length, 'r2', file.created_at));
+        }
+      } else if ('content' in file) {
+        contentHash = await sha256Hex(file.content);
+        if (!blobs.has(contentHash)) {
+          const size = new TextEncoder().encode(file.content).length;
+          blobs.set(contentHash, insertBlobStatement(contentHash, file.content, size, 'inline', file.created_at));
+        }
+      } else {
+        contentHash = file.content_hash;
+      }
+
+      rows.push(
+        insertFileStatement({
+          id: generateId(),
+          skill_id: skillId,
+          version_id: newVersion.id,
+          path: file.path,
+          content_hash: contentHash,
+          mime_type: file.mime_type,
+          is_executable: file.is_executable,
+          script_language: file.script_language,
+          run_instructions_for_ai: file.run_instructions_for_ai,
+          created_at: file.created_at,
+        })
+      );
+    }
+
+    return { version: newVersion, statements: [...blobs.values(), ...rows] };
+  }
+
   return {
     // =========================================================================
     // Skills
     // =========================================================================
 
-    async createSkill(skill: Omit<Skill, 'id'>): Promise<Skill> {
-      const id = generateId();
-      const newSkill: Skill = { id, ...skill };
-
-      await db
-        .prepare(
-          `INSERT INTO skills (id, name, description, active, created_at, updated_at)
-           VALUES (?, ?, ?, ?, ?, ?)`
-        )
-        .bind(
-          newSkill.id,
-          newSkill.name,
-          newSkill.description,
-          newSkill.active ? 1 : 0,
-          newSkill.created_at,
-          newSkill.updated_at
-        )
-        .run();
-
-      return newSkill;
-    },
-
-    async findSkillById(id: string): Promise<Skill | null> {
+    async findSkillById(id: string, options: FindSkillOptions = {}): Promise<Skill | null> {
+      const sql = options.includeDeleted
+        ? 'SELECT * FROM skills WHERE id = ?'
+        : 'SELECT * FROM skills WHERE id = ? AND deleted_at IS NULL';
       const result = await db
-        .prepare('SELECT * FROM skills WHERE id = ?')
+        .prepare(sql)
         .bind(id)
-        .first<{
-          id: string;
-          name: string;
-          description: string | null;
-          active: number;
-          created_at: number;
-          updated_at: number;
-        }>();
-
-      if (!result) return null;
-
-      return {
-        ...result,
-        active: result.active === 1,
-      };
+        .first<SkillRow>();
+
+      return result ? toSkill(result) : null;
     },
 
-    async findSkillByName(name: string): Promise<Skill | null> {
+    async findSkillByName(name: string, options: FindSkillOptions = {}): Promise<Skill | null> {
+      const sql = options.includeDeleted
+        ? 'SELECT * FROM skills WHERE name = ?'
+        : 'SELECT * FROM skills WHERE name = ? AND deleted_at IS NULL';
       const result = await db
-        .prepare('SELECT * FROM skills WHERE name = ?')
+        .prepare(sql)
         .bind(name)
-        .first<{
-          id: string;
-          name: string;
-          description: string | null;
-          active: number;
-          created_at: number;
-          updated_at: number;
-        }>();
-
-      if (!result) return null;
-
-      return {
-        ...result,
-        active: result.active === 1,
-      };
+        .first<SkillRow>();
+
+      return result ? toSkill(result) : null;
     },
 
     async listSkills(options: ListSkillsOptions): Promise<SkillWithVersion[]> {
-      const { activeOnly, limit = 50, offset = 0, query } = options;
+      const { activeOnly, deletedOnly, limit = 50, offset = 0, query, tags } = options;
 
       let sql = `
         SELECT 
@@ -127,6 +513,9 @@ export function createSkillRepository(db: D1Database): SkillRepository {
       `;
       const params: (string | number)[] = [];
 
+      // Deleted skills are only listed from the trash
+      sql += deletedOnly ? ' AND s.deleted_at IS NOT NULL' : ' AND s.deleted_at IS NULL';
+
       if (activeOnly) {
         sql += ' AND s.active = 1';
       }
@@ -136,104 +525,191 @@ export function createSkillRepository(db: D1Database): SkillRepository {
         params.push(`%${query}%`);
       }
 
-      sql += ' GROUP BY s.id ORDER BY s.updated_at DESC LIMIT ? OFFSET ?';
+      const tagFilter = tagsCondition(tags);
+      sql += tagFilter.sql;
+      params.push(...tagFilter.params);
+
+      sql += deletedOnly
+        ? ' GROUP BY s.id ORDER BY s.deleted_at DESC LIMIT ? OFFSET ?'
+        : ' GROUP BY s.id ORDER BY s.updated_at DESC LIMIT ? OFFSET ?';
       params.push(limit, offset);
 
       const stmt = db.prepare(sql);
-      const results = await stmt.bind(...params).all<{
-        id: string;
-        name: string;
-        description: string | null;
-        active: number;
-        created_at: number;
-        updated_at: number;
-        latest_version: number;
-      }>();
+      const results = await stmt.bind(...params).all<SkillRow & { latest_version: number }>();
 
       return (results.results || []).map((row) => ({
-        id: row.id,
-        name: row.name,
-        description: row.description,
-        active: row.active === 1,
-        created_at: row.created_at,
-        updated_at: row.updated_at,
+        ...toSkill(row),
         latest_version: row.latest_version,
       }));
     },
 
-    async updateSkill(
-      id: string,
-      updates: Partial<Pick<Skill, 'name' | 'description' | 'active' | 'updated_at'>>
-    ): Promise<Skill | null> {
-      const fields: string[] = [];
-      const values: (string | number | null)[] = [];
-
-      if (updates.name !== undefined) {
-        fields.push('name = ?');
-        values.push(updates.name);
-      }
-      if (updates.description !== undefined) {
-        fields.push('description = ?');
-        values.push(updates.description);
-      }
-      if (updates.active !== undefined) {
-        fields.push('active = ?');
-        values.push(updates.active ? 1 : 0);
-      }
-      if (updates.updated_at !== undefined) {
-        fields.push('updated_at = ?');
-        values.push(updates.updated_at);
+    async updateSkill(id: string, updates: SkillUpdates): Promise<Skill | null> {
+      const statement = updateSkillStatement(id, updates);
+      if (statement) {
+        await statement.run();
       }
 
-      if (fields.length === 0) {
-        return this.findSkillById(id);
+      return this.findSkillById(id, { includeDeleted: true });
+    },
+
+    async purgeSkillsDeletedBefore(timestamp: number): Promise<number> {
+      const condition = 'SELECT id FROM skills WHERE deleted_at IS NOT NULL AND deleted_at <= ?';
+
+      // Delete children explicitly rather than relying on ON DELETE CASCADE
+      const results = await db.batch([
+        db.prepare(`DELETE FROM skills_fts WHERE skill_id IN (${condition})`).bind(timestamp),
+        db.prepare(`DELETE FROM skill_files WHERE skill_id IN (${condition})`).bind(timestamp),
+        db.prepare(`DELETE FROM skill_versions WHERE skill_id IN (${condition})`).bind(timestamp),
+        db.prepare('DELETE FROM skills WHERE deleted_at IS NOT NULL AND deleted_at <= ?').bind(timestamp),
+      ]);
+      await this.deleteUnreferencedBlobs();
+
+      return results[3].meta.changes ?? 0;
+    },
+
+    async listTags(options: Pick<ListSkillsOptions, 'activeOnly'>): Promise<TagCount[]> {
+      const results = await db
+        .prepare(
+          `SELECT json_each.value AS tag, COUNT(*) AS count
+           FROM skills s, json_each(s.tags)
+           WHERE s.deleted_at IS NULL${options.activeOnly ? ' AND s.active = 1' : ''}
+           GROUP BY json_each.value
+           ORDER BY count DESC, tag`
+        )
+        .all<TagCount>();
+
+      return results.results || [];
+    },
+
+    // =========================================================================
+    // Search
+    // =========================================================================
+
+    async searchSkills(
+      query: string,
+      options: Omit<ListSkillsOptions, 'query' | 'deletedOnly'>
+    ): Promise<SkillSearchResult[]> {
+      const { activeOnly, limit = 50, offset = 0, tags } = options;
+      const match = toFtsQuery(query);
+      if (!match) return [];
+
+      // Column weights: skill_id (unindexed), name, description, skill_md, content
+      let sql = `
+        SELECT
+          s.*,
+          (SELECT MAX(version_number) FROM skill_versions WHERE skill_id = s.id) as latest_version,
+          bm25(skills_fts, 0.0, 10.0, 5.0, 2.0, 1.0) as rank,
+          snippet(skills_fts, -1, '**', '**', '…', 16) as snippet
+        FROM skills_fts
+        JOIN skills s ON s.id = skills_fts.skill_id
+        WHERE skills_fts MATCH ? AND s.deleted_at IS NULL
+      `;
+      const params: (string | number)[] = [match];
+
+      if (activeOnly) {
+        sql += ' AND s.active = 1';
       }
 
-      values.push(id);
+      const tagFilter = tagsCondition(tags);
+      sql += tagFilter.sql;
+      params.push(...tagFilter.params);
 
-      await db
-        .prepare(`UPDATE skills SET ${fields.join(', ')} WHERE id = ?`)
-        .bind(...values)
-        .run();
+      sql += ' ORDER BY rank, s.updated_at DESC LIMIT ? OFFSET ?';
+      params.push(limit, offset);
+
+      const results = await db
+        .prepare(sql)
+        .bind(...params)
+        .all<SkillRow & { latest_version: number | null; rank: number; snippet: string }>();
+
+      return (results.results || []).map((row) => ({
+        ...toSkill(row),
+        latest_version: row.latest_version ?? 0,
+        score: Math.round(-row.rank * 1000) / 1000,
+        snippet: row.snippet,
+      }));
+    },
 
-      return this.findSkillById(id);
+    async refreshSearchIndex(skillId: string): Promise<void> {
+      await db.batch(refreshSearchIndexStatements(skillId));
     },
 
     // =========================================================================
     // Versions
     // =========================================================================
 
-    async createVersion(version: Omit<SkillVersion, 'id'>): Promise<SkillVersion> {
-      const id = generateId();
-      const newVersion: SkillVersion = { id, ...version };
-
-      await db
-        .prepare(
-          `INSERT INTO skill_versions (id, skill_id, version_number, changelog, created_at, created_by)
-           VALUES (?, ?, ?, ?, ?, ?)`
-        )
-        .bind(
-          newVersion.id,
-          newVersion.skill_id,
-          newVersion.version_number,
-          newVersion.changelog,
-          newVersion.created_at,
-          newVersion.created_by
-        )
-        .run();
+    async createSkillWithVersion(
+      skill: Omit<Skill, 'id'>,
+      version: NewVersion,
+      files: NewVersionFile[]
+    ): Promise<VersionWriteResult> {
+      const newSkill: Skill = { id: generateId(), ...skill };
+      const written = await buildVersion(newSkill.id, version, files);
+
+      // D1 runs a batch as one transaction: either every row is written or none
+      await db.batch([
+        insertSkillStatement(newSkill),
+        insertVersionStatement(written.version),
+        ...written.statements,
+        ...refreshSearchIndexStatements(newSkill.id),
+      ]);
+
+      return { skill: newSkill, version: written.version, files: await this.findFilesByVersionId(written.version.id) };
+    },
 
-      return newVersion;
+    async addVersion(
+      skillId: string,
+      updates: SkillUpdates,
+      version: NewVersion,
+      files: NewVersionFile[]
+    ): Promise<VersionWriteResult> {
+      const written = await buildVersion(skillId, version, files);
+      const update = updateSkillStatement(skillId, updates);
+
+      // The version row goes first so a concurrent writer's version number clash aborts the whole batch
+      await db.batch([
+        insertVersionStatement(written.version),
+        ...(update ? [update] : []),
+        ...written.statements,
+        ...refreshSearchIndexStatements(skillId),
+      ]);
+
+      const skill = await this.findSkillById(skillId, { includeDeleted: true });
+      return { skill: skill!, version: written.version, files: await this.findFilesByVersionId(written.version.id) };
     },
 
-    async findVersionsBySkillId(skillId: string): Promise<SkillVersion[]> {
+    async findVersionsBySkillId(
+      skillId: string,
+      options: ListVersionsOptions = {}
+    ): Promise<SkillVersionSummary[]> {
+      const { limit = 20, offset = 0 } = options;
+
       const results = await db
         .prepare(
-          'SELECT * FROM skill_versions WHERE skill_id = ? ORDER BY version_number DESC'
+          `SELECT v.*,
+                  COUNT(f.id) as file_count,
+                  COALESCE(SUM(b.size), 0) as total_size
+           FROM skill_versions v
+           LEFT JOIN skill_files f ON f.version_id = v.id
+           LEFT JOIN file_blobs b ON b.hash = f.content_hash
+           WHERE v.skill_id = ?
+           GROUP BY v.id
+           ORDER BY v.version_number DESC
+           LIMIT ? OFFSET ?`
         )
+        .bind(skillId, limit, offset)
+        .all<VersionRow<SkillVersionSummary>>();
+
+      return (results.results || []).map((row) => toVersion(row));
+    },
+
+    async countVersions(skillId: string): Promise<number> {
+      const result = await db
+        .prepare('SELECT COUNT(*) as count FROM skill_versions WHERE skill_id = ?')
         .bind(skillId)
-        .all<SkillVersion>();
+        .first<{ count: number }>();
 
-      return results.results || [];
+      return result?.count ?? 0;
     },
 
     async findVersion(skillId: string, versionNumber: number): Promise<SkillVersion | null> {
@@ -242,9 +718,9 @@ export function createSkillRepository(db: D1Database): SkillRepository {
           'SELECT * FROM skill_versions WHERE skill_id = ? AND version_number = ?'
         )
         .bind(skillId, versionNumber)
-        .first<SkillVersion>();
+        .first<VersionRow>();
 
-      return result || null;
+      return result ? toVersion(result) : null;
     },
 
     async getLatestVersionNumber(skillId: string): Promise<number> {
@@ -262,84 +738,215 @@ export function createSkillRepository(db: D1Database): SkillRepository {
     // Files
     // =========================================================================
 
-    async createFiles(files: Omit<SkillFile, 'id'>[]): Promise<SkillFile[]> {
-      if (files.length === 0) return [];
-
-      const createdFiles: SkillFile[] = [];
-
-      // Use batch for better performance
-      const statements = files.map((file) => {
-        const id = generateId();
-        const newFile: SkillFile = { id, ...file };
-        createdFiles.push(newFile);
-
-        return db
-          .prepare(
-            `INSERT INTO skill_files (id, skill_id, version_id, path, content, is_executable, script_language, run_instructions_for_ai, created_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
-          )
-          .bind(
-            newFile.id,
-            newFile.skill_id,
-            newFile.version_id,
-            newFile.path,
-            newFile.content,
-            newFile.is_executable ? 1 : 0,
-            newFile.script_language,
-            newFile.run_instructions_for_ai,
-            newFile.created_at
-          );
-      });
-
-      await db.batch(statements);
-
-      return createdFiles;
-    },
-
     async findFilesByVersionId(versionId: string): Promise<SkillFile[]> {
       const results = await db
-        .prepare('SELECT * FROM skill_files WHERE version_id = ? ORDER BY path')
+        .prepare(`${SELECT_FILES} WHERE f.version_id = ? ORDER BY f.path`)
         .bind(versionId)
-        .all<{
-          id: string;
-          skill_id: string;
-          version_id: string;
-          path: string;
-          content: string;
-          is_executable: number;
-          script_language: string | null;
-          run_instructions_for_ai: string | null;
-          created_at: number;
-        }>();
+        .all<FileRow>();
 
-      return (results.results || []).map((row) => ({
-        ...row,
-        is_executable: row.is_executable === 1,
-      }));
+      return (results.results || []).map(toSkillFile);
     },
 
     async findFile(versionId: string, path: string): Promise<SkillFile | null> {
       const result = await db
-        .prepare('SELECT * FROM skill_files WHERE version_id = ? AND path = ?')
+        .prepare(`${SELECT_FILES} WHERE f.version_id = ? AND f.path = ?`)
         .bind(versionId, path)
-        .first<{
-          id: string;
-          skill_id: string;
-          version_id: string;
-          path: string;
-          content: string;
-          is_executable: number;
-          script_language: string | null;
-          run_instructions_for_ai: string | null;
-          created_at: number;
-        }>();
-
-      if (!result) return null;
-
-      return {
-        ...result,
-        is_executable: result.is_executable === 1,
-      };
+        .first<FileRow>();
+
+      return result ? toSkillFile(result) : null;
+    },
+
+    async getAssetData(contentHash: string): Promise<Uint8Array | null> {
+      const object = await bucket.get(assetKey(contentHash));
+      return object ? new Uint8Array(await object.arrayBuffer()) : null;
+    },
+
+    // =========================================================================
+    // Consistency
+    // =========================================================================
+
+    async findConsistencyIssues(): Promise<ConsistencyIssue[]> {
+      const [withoutContent, emptyVersions, orphanedVersions, orphanedFiles] = await db.batch<
+        Omit<ConsistencyIssue, 'type'>
+      >([
+        db.prepare(
+          `SELECT s.id as skill_id, s.name as skill_name, NULL as version_id, NULL as version_number
+           FROM skills s
+           WHERE ${skillHasNoContent('s.id')}`
+        ),
+        db.prepare(
+          `SELECT v.skill_id, s.name as skill_name, v.id as version_id, v.version_number
+           FROM skill_versions v
+           JOIN skills s ON s.id = v.skill_id
+           WHERE NOT EXISTS (SELECT 1 FROM skill_files f WHERE f.version_id = v.id)
+           ORDER BY s.name, v.version_number`
+        ),
+        db.prepare(
+          `SELECT v.skill_id, NULL as skill_name, v.id as version_id, v.version_number
+           FROM skill_versions v
+           WHERE NOT EXISTS (SELECT 1 FROM skills s WHERE s.id = v.skill_id)`
+        ),
+        db.prepare(
+          `SELECT f.skill_id, s.name as skill_name, f.version_id, NULL as version_number
+           FROM skill_files f
+           LEFT JOIN skills s ON s.id = f.skill_id
+           WHERE NOT EXISTS (SELECT 1 FROM skill_versions v WHERE v.id = f.version_id AND v.skill_id = f.skill_id)
+           GROUP BY f.skill_id, f.version_id`
+        ),
+      ]);
+
+      const withType = (type: ConsistencyIssue['type'], rows: Omit<ConsistencyIssue, 'type'>[] | undefined) =>
+        (rows || []).map((row): ConsistencyIssue => ({ type, ...row }));
+
+      return [
+        ...withType('skill_without_content', withoutContent.results),
+        ...withType('empty_version', emptyVersions.results),
+        ...withType('orphaned_version', orphanedVersions.results),
+        ...withType('orphaned_files', orphanedFiles.results),
+      ];
+    },
+
+    async repairConsistencyIssues(issues: ConsistencyIssue[]): Promise<void> {
+      const statements: D1PreparedStatement[] = [];
+      const reindex = new Set<string>();
+
+      // Every delete re-checks its condition, so rows fixed since the check are left alone
+      for (const issue of issues) {
+        switch (issue.type) {
+          case 'empty_version':
+            statements.push(
+              db
+                .prepare(
+                  'DELETE FROM skill_versions WHERE id = ? AND NOT EXISTS (SELECT 1 FROM skill_files WHERE version_id = ?)'
+                )
+                .bind(issue.version_id, issue.version_id)
+            );
+            reindex.add(issue.skill_id);
+            break;
+          case 'orphaned_version':
+            statements.push(
+              db
+                .prepare('DELETE FROM skill_files WHERE version_id = ? AND NOT EXISTS (SELECT 1 FROM skills WHERE id = ?)')
+                .bind(issue.version_id, issue.skill_id),
+              db
+                .prepare('DELETE FROM skill_versions WHERE id = ? AND NOT EXISTS (SELECT 1 FROM skills WHERE id = ?)')
+                .bind(issue.version_id, issue.skill_id)
+            );
+            break;
+          case 'orphaned_files':
+            statements.push(
+              db
+                .prepare(
+                  `DELETE FROM skill_files WHERE version_id = ? AND skill_id = ?
+                   AND NOT EXISTS (SELECT 1 FROM skill_versions WHERE id = ? AND skill_id = ?)`
+                )
+                .bind(issue.version_id, issue.skill_id, issue.version_id, issue.skill_id)
+            );
+            break;
+        }
+      }
+
+      // Skills without content go last, once their empty versions are gone
+      for (const issue of issues.filter((i) => i.type === 'skill_without_content')) {
+        const id = issue.skill_id;
+        statements.push(
+          db.prepare(`DELETE FROM skills_fts WHERE skill_id = ? AND ${skillHasNoContent('?')}`).bind(id, id),
+          db.prepare(`DELETE FROM skill_files WHERE skill_id = ? AND ${skillHasNoContent('?')}`).bind(id, id),
+          db.prepare(`DELETE FROM skill_versions WHERE skill_id = ? AND ${skillHasNoContent('?')}`).bind(id, id),
+          db.prepare(`DELETE FROM skills WHERE id = ? AND ${skillHasNoContent('?')}`).bind(id, id)
+        );
+        reindex.delete(id);
+      }
+
+      for (const skillId of reindex) {
+        statements.push(...refreshSearchIndexStatements(skillId));
+      }
+
+      if (statements.length > 0) {
+        await db.batch(statements);
+      }
+    },
+
+    // =========================================================================
+    // Blobs
+    // =========================================================================
+
+    async getBlobStats(): Promise<BlobStats> {
+      const result = await db
+        .prepare(
+          `SELECT
+             (SELECT COUNT(*) FROM file_blobs WHERE hash LIKE '${LEGACY_BLOB_PREFIX}%') as legacy,
+             (SELECT COUNT(*) FROM file_blobs b WHERE NOT EXISTS (SELECT 1 FROM skill_files f WHERE f.content_hash = b.hash)) as unreferenced`
+        )
+        .first<BlobStats>();
+
+      return { legacy: result?.legacy ?? 0, unreferenced: result?.unreferenced ?? 0 };
+    },
+
+    async rehashLegacyBlobs(limit: number): Promise<number> {
+      let rehashed = 0;
+
+      while (rehashed < limit) {
+        const results = await db
+          .prepare(`SELECT hash, content FROM file_blobs WHERE hash LIKE '${LEGACY_BLOB_PREFIX}%' LIMIT ?`)
+          .bind(Math.min(REHASH_BATCH_SIZE, limit - rehashed))
+          .all<{ hash: string; content: string }>();
+        const blobs = results.results || [];
+        if (blobs.length === 0) break;
+
+        // Copy to the SHA-256 key (content already stored under it is kept), repoint files, drop the old key
+        const statements: D1PreparedStatement[] = [];
+        for (const blob of blobs) {
+          const hash = await sha256Hex(blob.content);
+          statements.push(
+            db
+              .prepare(
+                `INSERT OR IGNORE INTO file_blobs (hash, content, size, created_at)
+                 SELECT ?, content, size, created_at FROM file_blobs WHERE hash = ?`
+              )
+              .bind(hash, blob.hash),
+            db.prepare('UPDATE skill_files SET content_hash = ? WHERE content_hash = ?').bind(hash, blob.hash),
+            db.prepare('DELETE FROM file_blobs WHERE hash = ?').bind(blob.hash)
+          );
+        }
+        await db.batch(statements);
+        rehashed += blobs.length;
+      }
+
+      return rehashed;
+    },
+
+    async deleteUnreferencedBlobs(): Promise<number> {
+      const result = await db.prepare(DELETE_UNREFERENCED_BLOBS).all<{ hash: string; storage: FileRow['storage'] }>();
+      const deleted = result.results || [];
+
+      // Rows go first so no file can be left pointing at a deleted object. A version written
+      // concurrently uploads its objects before storing its rows, so an object is kept if its
+      // row has been stored again since, or if it was uploaded recently enough to be awaiting one.
+      const hashes = deleted.filter((blob) => blob.storage === 'r2').map((blob) => blob.hash);
+      const cutoff = Date.now() - BLOB_WRITE_GRACE_MS;
+      const keys: string[] = [];
+      for (let i = 0; i < hashes.length; i += BLOB_RECHECK_BATCH_SIZE) {
+        const batch = hashes.slice(i, i + BLOB_RECHECK_BATCH_SIZE);
+        const restored = await db
+          .prepare(`SELECT hash FROM file_blobs WHERE hash IN (${batch.map(() => '?').join(', ')})`)
+          .bind(...batch)
+          .all<{ hash: string }>();
+        const stored = new Set((restored.results || []).map((row) => row.hash));
+
+        for (const hash of batch) {
+          if (stored.has(hash)) continue;
+          const object = await bucket.head(assetKey(hash));
+          if (object && object.uploaded.getTime() <= cutoff) {
+            keys.push(assetKey(hash));
+          }
+        }
+      }
+      for (let i = 0; i < keys.length; i += R2_DELETE_BATCH_SIZE) {
+        await bucket.delete(keys.slice(i, i + R2_DELETE_BATCH_SIZE));
+      }
+
+      return deleted.length;
     },
   };
 }
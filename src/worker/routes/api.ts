@@ -4,22 +4,29 @@
  */
 
 import { Hono } from 'hono';
+import type { Skill } from '../../shared/types';
 import type { SkillService } from '../services/skill.service';
+import { createExportService } from '../services/export.service';
 import { isAppError } from '../lib/errors';
+import { getTrashRetentionDays, getTrashRetentionMs } from '../lib/config';
+import { parseTagsParam } from '../lib/validation';
+import { parseIfMatch } from '../lib/etag';
+import { rawFileHeaders, archiveHeaders } from '../lib/download';
 
 /**
  * Create REST API routes
  */
 export function createAPIRoutes(service: SkillService) {
   const app = new Hono<{ Bindings: Env }>();
+  const exportService = createExportService(service);
 
   // Error handler
   app.onError((err, c) => {
     console.error('API error:', err);
     if (isAppError(err)) {
       return c.json(
-        { ok: false, error: { code: err.code, message: err.message } },
-        err.status as 400 | 401 | 404 | 409 | 500
+        { ok: false, error: err.toJSON() },
+        err.status as 400 | 401 | 403 | 404 | 409 | 500
       );
     }
     return c.json(
@@ -37,6 +44,7 @@ export function createAPIRoutes(service: SkillService) {
     const limit = parseInt(c.req.query('limit') || '50', 10);
     const offset = parseInt(c.req.query('offset') || '0', 10);
     const query = c.req.query('query') || undefined;
+    const tags = parseTagsParam(c.req.query('tags'));
     const detailed = c.req.query('detailed') !== 'false'; // Default to true for web UI
 
     const skills = await service.listSkills({
@@ -44,12 +52,75 @@ export function createAPIRoutes(service: SkillService) {
       limit: Math.min(limit, 100), // Cap at 100
       offset: Math.max(offset, 0),
       query,
+      tags,
       detailed,
     });
 
     return c.json({ ok: true, data: { skills, count: skills.length } });
   });
 
+  /**
+   * GET /api/skills/tags - List tags in use with skill counts
+   */
+  app.get('/skills/tags', async (c) => {
+    const tags = await service.listTags({ activeOnly: c.req.query('active_only') === 'true' });
+    return c.json({ ok: true, data: { tags } });
+  });
+
+
+  /**
+   * GET /api/skills/trash - List deleted skills
+   */
+  app.get('/skills/trash', async (c) => {
+    const limit = parseInt(c.req.query('limit') || '50', 10);
+    const offset = parseInt(c.req.query('offset') || '0', 10);
+
+    const skills = await service.listDeletedSkills({
+      limit: Math.min(limit, 100),
+      offset: Math.max(offset, 0),
+    });
+
+    return c.json({
+      ok: true,
+      data: { skills, count: skills.length, retention_days: getTrashRetentionDays(c.env) },
+    });
+  });
+
+  /**
+   * POST /api/skills/trash/purge - Permanently delete skills past the retention period
+   */
+  app.post('/skills/trash/purge', async (c) => {
+    const purged = await service.purgeDeletedSkills(getTrashRetentionMs(c.env));
+    return c.json({ ok: true, data: { purged } });
+  });
+
+  /**
+   * GET /api/skills/consistency - Report empty or orphaned versions
+   */
+  app.get('/skills/consistency', async (c) => {
+    const report = await service.checkConsistency(false);
+    return c.json({ ok: true, data: report });
+  });
+
+  /**
+   * POST /api/skills/consistency/repair - Delete empty or orphaned versions
+   */
+  app.post('/skills/consistency/repair', async (c) => {
+    const report = await service.checkConsistency(true);
+    return c.json({ ok: true, data: report });
+  });
+
+  /**
+   * GET /api/skills/export - Download the latest version of all (or filtered) skills as a ZIP
+   */
+  app.get('/skills/export', async (c) => {
+    const archive = await exportService.exportSkills({
+      activeOnly: c.req.query('active_only') === 'true',
+      query: c.req.query('query') || undefined,
+      tags: parseTagsParam(c.req.query('tags')),
+    });
+    return c.body(archive.data, 200, archiveHeaders(archive));
+  });
 
   /**
    * GET /api/skills/:id - Get skill details
@@ -65,35 +136,50 @@ export function createAPIRoutes(service: SkillService) {
   });
 
   /**
-   * GET /api/skills/:id/versions - Get version history
+   * GET /api/skills/:id/export - Download a skill version (default: latest) as a ZIP
+   */
+  app.get('/skills/:id/export', async (c) => {
+    const versionParam = c.req.query('version');
+    const version = versionParam ? parseInt(versionParam, 10) : undefined;
+
+    const archive = await exportService.exportSkill(c.req.param('id'), version);
+    return c.body(archive.data, 200, archiveHeaders(archive));
+  });
+
+  /**
+   * GET /api/skills/:id/versions - Get version history (newest first, paginated)
    * Requirements: 6.1, 6.2
    */
   app.get('/skills/:id/versions', async (c) => {
     const skillId = c.req.param('id');
+    const limit = parseInt(c.req.query('limit') || '20', 10);
+    const offset = parseInt(c.req.query('offset') || '0', 10);
 
-    // First verify skill exists
-    await service.getSkill(skillId);
-
-    // Get all versions by fetching skill details for each version
-    // We need to access the repository directly for this, but since we only have service,
-    // we'll get the skill and then list versions through a workaround
-    // For now, return the current version info - this will be enhanced when we wire up the full app
-    const skill = await service.getSkill(skillId);
-    
-    // Return versions array with at least the current version
-    return c.json({
-      ok: true,
-      data: {
-        versions: [
-          {
-            version_number: skill.version.version_number,
-            changelog: skill.version.changelog,
-            created_at: skill.version.created_at,
-            created_by: skill.version.created_by,
-          },
-        ],
-      },
+    const history = await service.listVersions(skillId, {
+      limit: Math.min(Math.max(limit, 1), 100),
+      offset: Math.max(offset, 0),
     });
+    return c.json({ ok: true, data: history });
+  });
+
+  /**
+   * GET /api/skills/:id/diff?from=&to= - Compare two versions (to defaults to latest)
+   */
+  app.get('/skills/:id/diff', async (c) => {
+    const skillId = c.req.param('id');
+    const from = parseInt(c.req.query('from') || '', 10);
+    const toParam = c.req.query('to');
+    const to = toParam ? parseInt(toParam, 10) : undefined;
+
+    if (isNaN(from) || (to !== undefined && isNaN(to))) {
+      return c.json(
+        { ok: false, error: { code: 'VALIDATION_ERROR', message: 'from (and optional to) must be version numbers' } },
+        400
+      );
+    }
+
+    const diff = await service.diffVersions(skillId, from, to);
+    return c.json({ ok: true, data: diff });
   });
 
   /**
@@ -122,21 +208,55 @@ export function createAPIRoutes(service: SkillService) {
   });
 
   /**
-   * PATCH /api/skills/:id - Update skill status
+   * GET /api/skills/:id/versions/:version/raw/*path - Download file bytes (text or binary)
+   */
+  app.get('/skills/:id/versions/:version/raw/*', async (c) => {
+    const skillId = c.req.param('id');
+    const version = parseInt(c.req.param('version'), 10);
+
+    const url = new URL(c.req.url);
+    const pathMatch = url.pathname.match(/\/raw\/(.+)$/);
+    const filePath = pathMatch ? pathMatch[1] : '';
+
+    if (!filePath) {
+      return c.json(
+        { ok: false, error: { code: 'VALIDATION_ERROR', message: 'File path is required' } },
+        400
+      );
+    }
+
+    const { file, data } = await service.getFileData(skillId, filePath, version);
+
+    const headers = rawFileHeaders(file, c.req.query('download') === 'true');
+    if (c.req.header('If-None-Match') === headers.ETag) {
+      return c.body(null, 304, { ETag: headers.ETag });
+    }
+    return c.body(data, 200, headers);
+  });
+
+  /**
+   * PATCH /api/skills/:id - Update skill status and/or tags
    * Requirement: 7.1
    */
   app.patch('/skills/:id', async (c) => {
     const skillId = c.req.param('id');
-    const body = await c.req.json<{ active?: boolean }>();
+    const body = await c.req.json<{ active?: boolean; tags?: string[] }>();
 
-    if (body.active === undefined) {
+    if (body.active === undefined && body.tags === undefined) {
       return c.json(
-        { ok: false, error: { code: 'VALIDATION_ERROR', message: 'active field is required' } },
+        { ok: false, error: { code: 'VALIDATION_ERROR', message: 'active or tags field is required' } },
         400
       );
     }
 
-    const skill = await service.updateStatus(skillId, body.active);
+    // Tags first: they are validated, so an invalid request changes nothing
+    let skill: Skill | undefined;
+    if (body.tags !== undefined) {
+      skill = await service.updateTags(skillId, body.tags);
+    }
+    if (body.active !== undefined) {
+      skill = await service.updateStatus(skillId, body.active);
+    }
     return c.json({ ok: true, data: skill });
   });
 
@@ -148,20 +268,60 @@ export function createAPIRoutes(service: SkillService) {
     const skillId = c.req.param('id');
     const body = await c.req.json<{
       description?: string;
+      tags?: string[];
       file_changes?: any[];
       changelog?: string;
+      expected_version?: number;
     }>();
 
     // The service expects UpdateSkillInput which includes skill_id
     const skill = await service.updateSkill({
       skill_id: skillId,
       description: body.description,
+      tags: body.tags,
       file_changes: body.file_changes,
       changelog: body.changelog,
+      expected_version: body.expected_version ?? parseIfMatch(c.req.header('If-Match')),
     });
 
     return c.json({ ok: true, data: skill });
   });
 
+  /**
+   * POST /api/skills/:id/rollback - Create a new version from an earlier one
+   */
+  app.post('/skills/:id/rollback', async (c) => {
+    const skillId = c.req.param('id');
+    const body = await c.req.json<{ version?: number; changelog?: string }>();
+
+    if (typeof body.version !== 'number') {
+      return c.json(
+        { ok: false, error: { code: 'VALIDATION_ERROR', message: 'version field is required' } },
+        400
+      );
+    }
+
+    const skill = await service.rollbackSkill(skillId, body.version, body.changelog);
+    return c.json({ ok: true, data: skill });
+  });
+
+  /**
+   * DELETE /api/skills/:id - Move skill to the trash
+   */
+  app.delete('/skills/:id', async (c) => {
+    const skillId = c.req.param('id');
+    const skill = await service.deleteSkill(skillId);
+    return c.json({ ok: true, data: skill });
+  });
+
+  /**
+   * POST /api/skills/:id/restore - Restore skill from the trash
+   */
+  app.post('/skills/:id/restore', async (c) => {
+    const skillId = c.req.param('id');
+    const skill = await service.restoreSkill(skillId);
+    return c.json({ ok: true, data: skill });
+  });
+
   return app;
 }
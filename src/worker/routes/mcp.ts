@@ -4,9 +4,23 @@
  */
 
 import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
 import type { SkillService } from '../services/skill.service';
-import type { CreateSkillInput, UpdateSkillInput, ExtendedListSkillsOptions } from '../../shared/types';
-import { isAppError } from '../lib/errors';
+import { skillArchiveFilename } from '../services/export.service';
+import type { MCPSession, MCPSessionStore } from '../services/mcp-session.service';
+import { hasScope, type AuthPrincipal } from '../services/api-key.service';
+import type {
+  ApiKeyScope,
+  CreateSkillInput,
+  UpdateSkillInput,
+  ExtendedListSkillsOptions,
+  SkillWithVersion,
+  VersionAttribution,
+} from '../../shared/types';
+import { isAppError, forbidden } from '../lib/errors';
+import { encodeBase64 } from '../lib/base64';
+import { versionAttribution } from '../lib/auth';
+import { buildSkillUri, parseSkillUri, SKILL_URI_TEMPLATE } from '../lib/skill-uri';
 
 /**
  * MCP JSON-RPC request structure
@@ -23,7 +37,7 @@ interface MCPRequest {
  */
 interface MCPResponse {
   jsonrpc: '2.0';
-  id: string | number;
+  id: string | number | null;
   result?: unknown;
   error?: { code: number; message: string; data?: unknown };
 }
@@ -36,6 +50,25 @@ interface ToolResult {
   isError?: boolean;
 }
 
+/**
+ * Scope required to call each tool that changes skills; other tools need skills:read
+ */
+const TOOL_SCOPES: Record<string, ApiKeyScope> = {
+  skill_create: 'skills:write',
+  skill_update: 'skills:write',
+  skill_set_tags: 'skills:write',
+  skill_rollback: 'skills:write',
+  skill_delete: 'skills:write',
+  skill_restore: 'skills:write',
+};
+
+/**
+ * Scope required to call a tool
+ */
+function toolScope(toolName: string): ApiKeyScope {
+  return TOOL_SCOPES[toolName] ?? 'skills:read';
+}
+
 /**
  * Tool definitions for MCP
  */
@@ -48,6 +81,11 @@ const TOOL_DEFINITIONS = [
       properties: {
         name: { type: 'string', description: 'Unique name for the skill (kebab-case recommended)' },
         description: { type: 'string', description: 'Brief description of the skill' },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Tags for grouping skills (e.g., ["frontend", "testing"]); defaults to the tags: list of SKILL.md',
+        },
         files: {
           type: 'array',
           items: {
@@ -55,6 +93,11 @@ const TOOL_DEFINITIONS = [
             properties: {
               path: { type: 'string', description: 'File path. Use SKILL.md for main doc, references/ folder for reference files (e.g., references/api-docs.md)' },
               content: { type: 'string', description: 'File content' },
+              encoding: {
+                type: 'string',
+                enum: ['utf-8', 'base64'],
+                description: 'Content encoding (default utf-8). Use base64 for binary files such as images, fonts or PDFs',
+              },
               is_executable: { type: 'boolean', description: 'Whether the file is executable' },
               script_language: { type: 'string', description: 'Script language if executable (e.g., python, bash, javascript)' },
               run_instructions_for_ai: { type: 'string', description: 'Instructions for AI to run the script' },
@@ -76,6 +119,11 @@ const TOOL_DEFINITIONS = [
       properties: {
         name: { type: 'string', description: 'Name of the skill to update (e.g., "svelte5-expert")' },
         description: { type: 'string', description: 'New description for the skill' },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Replacement tags; defaults to the tags: list of an updated SKILL.md, else unchanged',
+        },
         file_changes: {
           type: 'array',
           items: {
@@ -84,6 +132,11 @@ const TOOL_DEFINITIONS = [
               type: { type: 'string', enum: ['add', 'update', 'delete'], description: 'Type of change' },
               path: { type: 'string', description: 'File path' },
               content: { type: 'string', description: 'File content (required for add/update)' },
+              encoding: {
+                type: 'string',
+                enum: ['utf-8', 'base64'],
+                description: 'Content encoding (default utf-8). Use base64 for binary files such as images, fonts or PDFs',
+              },
               is_executable: { type: 'boolean', description: 'Whether the file is executable' },
               script_language: { type: 'string', description: 'Script language if executable' },
               run_instructions_for_ai: { type: 'string', description: 'Instructions for AI to run the script' },
@@ -93,6 +146,10 @@ const TOOL_DEFINITIONS = [
           description: 'File changes to apply',
         },
         changelog: { type: 'string', description: 'Changelog for this version' },
+        expected_version: {
+          type: 'number',
+          description: 'Version your changes are based on; fails with CONFLICT if the skill has a newer version',
+        },
       },
       required: ['name'],
     },
@@ -107,8 +164,24 @@ const TOOL_DEFINITIONS = [
         show_inactive: { type: 'boolean', description: 'Include inactive skills (default: false)' },
         limit: { type: 'number', description: 'Maximum number of results' },
         offset: { type: 'number', description: 'Number of results to skip' },
-        query: { type: 'string', description: 'Search query for skill name' },
+        query: { type: 'string', description: 'Full-text search over names, descriptions, SKILL.md and file contents (results ranked by relevance)' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Only skills with all of these tags' },
+      },
+    },
+  },
+  {
+    name: 'skill_search',
+    description: 'Full-text search over skill names, descriptions, SKILL.md and file contents of the latest versions. Returns results ranked by relevance with a matching snippet.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search terms (e.g., "pdf forms"); all terms must match, prefixes allowed' },
+        show_inactive: { type: 'boolean', description: 'Include inactive skills (default: false)' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Only skills with all of these tags' },
+        limit: { type: 'number', description: 'Maximum number of results' },
+        offset: { type: 'number', description: 'Number of results to skip' },
       },
+      required: ['query'],
     },
   },
   {
@@ -125,7 +198,7 @@ const TOOL_DEFINITIONS = [
   },
   {
     name: 'skill_get_file',
-    description: 'Get the content of one or more files from a skill. Supports single path or multiple paths.',
+    description: 'Get the content of one or more files from a skill. Supports single path or multiple paths. Binary files are returned base64-encoded (encoding: "base64").',
     inputSchema: {
       type: 'object',
       properties: {
@@ -141,6 +214,101 @@ const TOOL_DEFINITIONS = [
       required: ['name'],
     },
   },
+  {
+    name: 'skill_export',
+    description: 'Get a download URL for a ZIP of a skill (or of all skills when name is omitted; that download needs the same API key as a Bearer token and is limited to 200 skills and 50MB). The ZIP can be re-imported through the ZIP upload without losing file flags.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Name of the skill to export; omit to export all skills' },
+        version: { type: 'number', description: 'Specific version number (defaults to latest; single skill only)' },
+        show_inactive: { type: 'boolean', description: 'Include inactive skills in a bulk export (default: false)' },
+        query: { type: 'string', description: 'Only export skills matching this full-text search (bulk export only)' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Only export skills with all of these tags (bulk export only)' },
+      },
+    },
+  },
+  {
+    name: 'skill_set_tags',
+    description: 'Replace the tags of a skill. Tags are metadata, so no new version is created.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Name of the skill (e.g., "svelte5-expert")' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'New tags; an empty array removes all tags' },
+      },
+      required: ['name', 'tags'],
+    },
+  },
+  {
+    name: 'skill_list_tags',
+    description: 'List the tags in use with the number of skills carrying each, most used first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        show_inactive: { type: 'boolean', description: 'Count inactive skills too (default: false)' },
+      },
+    },
+  },
+  {
+    name: 'skill_diff',
+    description: 'Show what changed between two versions of a skill: added, removed and modified files with unified line diffs',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Name of the skill (e.g., "svelte5-expert")' },
+        from_version: { type: 'number', description: 'Version to compare from' },
+        to_version: { type: 'number', description: 'Version to compare to (defaults to latest)' },
+      },
+      required: ['name', 'from_version'],
+    },
+  },
+  {
+    name: 'skill_rollback',
+    description: 'Roll back a skill to an earlier version. Creates a new version with the files of the chosen version.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Name of the skill to roll back (e.g., "svelte5-expert")' },
+        version: { type: 'number', description: 'Earlier version number to restore' },
+        changelog: { type: 'string', description: 'Changelog for the new version (defaults to "Rolled back to vN")' },
+      },
+      required: ['name', 'version'],
+    },
+  },
+  {
+    name: 'skill_delete',
+    description: 'Move a skill to the trash. Deleted skills are hidden and permanently purged after the retention period unless restored.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Name of the skill to delete (e.g., "svelte5-expert")' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'skill_restore',
+    description: 'Restore a deleted skill from the trash',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Name of the deleted skill (e.g., "svelte5-expert")' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'skill_list_deleted',
+    description: 'List skills in the trash, most recently deleted first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Maximum number of results' },
+        offset: { type: 'number', description: 'Number of results to skip' },
+      },
+    },
+  },
 ];
 
 
@@ -153,6 +321,13 @@ function successResult(data: unknown): ToolResult {
   };
 }
 
+/**
+ * Check that a tool argument is an array of strings
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
 /**
  * Create error tool result
  */
@@ -173,7 +348,7 @@ function mcpSuccess(id: string | number, result: unknown): MCPResponse {
 /**
  * Create MCP error response
  */
-function mcpError(id: string | number, code: number, message: string, data?: unknown): MCPResponse {
+function mcpError(id: string | number | null, code: number, message: string, data?: unknown): MCPResponse {
   return { jsonrpc: '2.0', id, error: { code, message, data } };
 }
 
@@ -187,60 +362,390 @@ const MCP_ERROR_CODES = {
   INVALID_PARAMS: -32602,
   INTERNAL_ERROR: -32603,
   APPLICATION_ERROR: -32000,
+  RESOURCE_NOT_FOUND: -32002,
 };
 
+/**
+ * Protocol versions supported by this server, newest first
+ */
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/**
+ * Header carrying the negotiated protocol version on requests after initialize
+ */
+const MCP_PROTOCOL_VERSION_HEADER = 'MCP-Protocol-Version';
+
+/**
+ * Header carrying the session ID of the Streamable HTTP transport
+ */
+const MCP_SESSION_HEADER = 'Mcp-Session-Id';
+
+/**
+ * SSE stream timing: poll the event log every 2s, send a keepalive comment
+ * after 15s of silence, and close after 5 minutes (clients reconnect with Last-Event-ID)
+ */
+const SSE_POLL_INTERVAL = 2000;
+const SSE_KEEPALIVE_INTERVAL = 15 * 1000;
+const SSE_STREAM_DURATION = 5 * 60 * 1000;
+
+/**
+ * Number of skills included per resources/list or prompts/list page
+ */
+const LIST_PAGE_SIZE = 20;
+
+/**
+ * Resource template definitions for MCP
+ */
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: SKILL_URI_TEMPLATE,
+    name: 'skill-file',
+    title: 'Skill file',
+    description: 'A file from a skill. Use a version number or "latest" for version, e.g. skill://svelte5-expert/latest/SKILL.md',
+  },
+];
+
+/**
+ * Parse an opaque pagination cursor into an offset
+ * @returns offset, or null if the cursor is malformed
+ */
+function parseCursor(cursor: unknown): number | null {
+  if (cursor === undefined) return 0;
+  if (typeof cursor !== 'string' || !/^\d+$/.test(cursor)) return null;
+  return parseInt(cursor, 10);
+}
+
+/**
+ * Per-request state shared by MCP method handlers
+ */
+interface MCPContext {
+  service: SkillService;
+  baseUrl: string; // origin of the request, for links returned to the client
+  sessions: MCPSessionStore;
+  session: MCPSession | null;
+  auth: AuthPrincipal;
+}
+
+/**
+ * Check whether the client accepts an SSE response
+ */
+function acceptsEventStream(accept: string | undefined): boolean {
+  return !!accept && accept.includes('text/event-stream');
+}
+
 /**
  * Create MCP routes
+ * Implements the Streamable HTTP transport: POST for requests, GET for the
+ * server-to-client notification stream, DELETE to end a session
  */
-export function createMCPRoutes(service: SkillService) {
+export function createMCPRoutes(service: SkillService, sessions: MCPSessionStore, auth: AuthPrincipal) {
   const app = new Hono<{ Bindings: Env }>();
 
   app.post('/mcp', async (c) => {
-    let request: MCPRequest;
+    let body: unknown;
     
     try {
-      request = await c.req.json<MCPRequest>();
+      body = await c.req.json();
     } catch {
-      return c.json(mcpError(0, MCP_ERROR_CODES.PARSE_ERROR, 'Parse error'));
+      return c.json(mcpError(null, MCP_ERROR_CODES.PARSE_ERROR, 'Parse error'));
     }
 
-    // Validate JSON-RPC structure
-    if (request.jsonrpc !== '2.0' || !request.method || request.id === undefined) {
-      return c.json(mcpError(request?.id ?? 0, MCP_ERROR_CODES.INVALID_REQUEST, 'Invalid request'));
+    // A JSON-RPC batch is an array of messages; an empty batch is invalid
+    const isBatch = Array.isArray(body);
+    const messages: unknown[] = Array.isArray(body) ? body : [body];
+    if (messages.length === 0) {
+      return c.json(mcpError(null, MCP_ERROR_CODES.INVALID_REQUEST, 'Invalid request'));
     }
 
-    const { id, method, params } = request;
+    const protocolVersion = c.req.header(MCP_PROTOCOL_VERSION_HEADER);
+    if (protocolVersion && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+      return c.json(
+        mcpError(null, MCP_ERROR_CODES.INVALID_REQUEST, `Unsupported protocol version: ${protocolVersion}`),
+        400
+      );
+    }
 
-    try {
-      switch (method) {
-        case 'initialize':
-          return c.json(mcpSuccess(id, {
-            protocolVersion: '2024-11-05',
-            capabilities: { tools: {} },
-            serverInfo: { name: 'skill-manager', version: '1.0.0' },
-          }));
-
-        case 'tools/list':
-          return c.json(mcpSuccess(id, { tools: TOOL_DEFINITIONS }));
-
-        case 'tools/call':
-          return c.json(await handleToolCall(id, params, service));
-
-        default:
-          return c.json(mcpError(id, MCP_ERROR_CODES.METHOD_NOT_FOUND, `Method not found: ${method}`));
+    // Resolve the session; initialize always starts a new one
+    const ctx: MCPContext = { service, baseUrl: new URL(c.req.url).origin, sessions, session: null, auth };
+    const initializing = messages.some((m) => isRecord(m) && m.method === 'initialize');
+    const sessionId = c.req.header(MCP_SESSION_HEADER);
+    if (sessionId && !initializing) {
+      ctx.session = await sessions.get(sessionId);
+      if (!ctx.session) {
+        return c.json(mcpError(null, MCP_ERROR_CODES.INVALID_REQUEST, 'Session not found'), 404);
       }
-    } catch (error) {
-      console.error('MCP error:', error);
-      if (isAppError(error)) {
-        return c.json(mcpError(id, MCP_ERROR_CODES.APPLICATION_ERROR, error.message, { code: error.code }));
+    }
+
+    const responses: MCPResponse[] = [];
+    for (const message of messages) {
+      const response = await handleMessage(message, ctx);
+      if (response) responses.push(response);
+    }
+
+    if (initializing && ctx.session) {
+      c.header(MCP_SESSION_HEADER, ctx.session.id);
+    }
+
+    // Only notifications and responses: accepted with no body
+    if (responses.length === 0) {
+      return c.body(null, 202);
+    }
+
+    const payload = isBatch ? responses : responses[0];
+
+    if (acceptsEventStream(c.req.header('Accept'))) {
+      return streamSSE(c, async (stream) => {
+        await stream.writeSSE({ event: 'message', data: JSON.stringify(payload) });
+      });
+    }
+
+    return c.json(payload);
+  });
+
+  app.get('/mcp', async (c) => {
+    if (!acceptsEventStream(c.req.header('Accept'))) {
+      return c.text('Method Not Allowed', 405);
+    }
+
+    const sessionId = c.req.header(MCP_SESSION_HEADER);
+    if (!sessionId) {
+      return c.json(mcpError(null, MCP_ERROR_CODES.INVALID_REQUEST, `${MCP_SESSION_HEADER} header is required`), 400);
+    }
+
+    const session = await sessions.get(sessionId);
+    if (!session) {
+      return c.json(mcpError(null, MCP_ERROR_CODES.INVALID_REQUEST, 'Session not found'), 404);
+    }
+
+    // Resume after Last-Event-ID, otherwise only deliver new events
+    const lastEventId = c.req.header('Last-Event-ID');
+    let cursor = lastEventId && /^\d+$/.test(lastEventId)
+      ? parseInt(lastEventId, 10)
+      : await sessions.latestEventId();
+
+    return streamSSE(c, async (stream) => {
+      const deadline = Date.now() + SSE_STREAM_DURATION;
+      let lastWrite = Date.now();
+
+      while (!stream.aborted && Date.now() < deadline) {
+        const events = await sessions.eventsSince(session.id, cursor);
+
+        for (const event of events) {
+          await stream.writeSSE({
+            id: String(event.id),
+            event: 'message',
+            data: JSON.stringify({ jsonrpc: '2.0', method: event.method, params: event.params }),
+          });
+          cursor = event.id;
+          lastWrite = Date.now();
+        }
+
+        if (events.length === 0) {
+          if (Date.now() - lastWrite >= SSE_KEEPALIVE_INTERVAL) {
+            await stream.write(': keepalive\n\n');
+            lastWrite = Date.now();
+          }
+          await stream.sleep(SSE_POLL_INTERVAL);
+        }
       }
-      return c.json(mcpError(id, MCP_ERROR_CODES.INTERNAL_ERROR, 'Internal error'));
+    });
+  });
+
+  app.delete('/mcp', async (c) => {
+    const sessionId = c.req.header(MCP_SESSION_HEADER);
+    if (!sessionId) {
+      return c.json(mcpError(null, MCP_ERROR_CODES.INVALID_REQUEST, `${MCP_SESSION_HEADER} header is required`), 400);
+    }
+
+    const session = await sessions.get(sessionId);
+    if (!session) {
+      return c.json(mcpError(null, MCP_ERROR_CODES.INVALID_REQUEST, 'Session not found'), 404);
     }
+
+    await sessions.delete(session.id);
+    return c.body(null, 204);
   });
 
   return app;
 }
 
+/**
+ * Check whether a value is a plain JSON object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Handle a single JSON-RPC message from a POST body
+ * @returns the response for requests, or null for notifications and responses
+ */
+async function handleMessage(message: unknown, ctx: MCPContext): Promise<MCPResponse | null> {
+  if (!isRecord(message) || message.jsonrpc !== '2.0') {
+    return mcpError(null, MCP_ERROR_CODES.INVALID_REQUEST, 'Invalid request');
+  }
+
+  const id = typeof message.id === 'string' || typeof message.id === 'number' ? message.id : null;
+
+  // Responses to server-initiated requests are accepted but not used
+  if (message.method === undefined && ('result' in message || 'error' in message)) {
+    return null;
+  }
+
+  if (typeof message.method !== 'string' || (message.params !== undefined && !isRecord(message.params))) {
+    return mcpError(id, MCP_ERROR_CODES.INVALID_REQUEST, 'Invalid request');
+  }
+
+  // Notifications carry no id and never get a response
+  if (message.id === undefined) {
+    handleNotification(message.method);
+    return null;
+  }
+
+  if (id === null) {
+    return mcpError(null, MCP_ERROR_CODES.INVALID_REQUEST, 'Invalid request');
+  }
+
+  return dispatch({ jsonrpc: '2.0', id, method: message.method, params: message.params }, ctx);
+}
+
+/**
+ * Handle a client notification
+ */
+function handleNotification(method: string): void {
+  switch (method) {
+    case 'notifications/initialized':
+      break;
+
+    case 'notifications/cancelled':
+      // Requests complete within the POST that carried them, so nothing is left to cancel
+      break;
+
+    default:
+      // Unknown notifications are ignored per JSON-RPC
+      break;
+  }
+}
+
+/**
+ * Dispatch a JSON-RPC request to its method handler
+ */
+async function dispatch(request: MCPRequest, ctx: MCPContext): Promise<MCPResponse> {
+  const { id, method, params } = request;
+  const { service } = ctx;
+
+  try {
+    switch (method) {
+      case 'initialize':
+        return await handleInitialize(id, params, ctx);
+
+      case 'ping':
+        return mcpSuccess(id, {});
+
+      case 'tools/list':
+        // Only advertise tools the caller's API key may use
+        return mcpSuccess(id, {
+          tools: TOOL_DEFINITIONS.filter((tool) => hasScope(ctx.auth, toolScope(tool.name))),
+        });
+
+      case 'tools/call':
+        return await handleToolCall(id, params, ctx);
+
+      case 'resources/list':
+        return await handleResourcesList(id, params, service);
+
+      case 'resources/templates/list':
+        return mcpSuccess(id, { resourceTemplates: RESOURCE_TEMPLATES });
+
+      case 'resources/read':
+        return await handleResourcesRead(id, params, service);
+
+      case 'resources/subscribe':
+      case 'resources/unsubscribe':
+        return await handleResourceSubscription(id, method, params, ctx);
+
+      case 'prompts/list':
+        return await handlePromptsList(id, params, service);
+
+      case 'prompts/get':
+        return await handlePromptsGet(id, params, service);
+
+      default:
+        return mcpError(id, MCP_ERROR_CODES.METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  } catch (error) {
+    console.error('MCP error:', error);
+    if (isAppError(error)) {
+      return mcpError(id, MCP_ERROR_CODES.APPLICATION_ERROR, error.message, { code: error.code });
+    }
+    return mcpError(id, MCP_ERROR_CODES.INTERNAL_ERROR, 'Internal error');
+  }
+}
+
+/**
+ * Handle initialize - starts a new session
+ */
+async function handleInitialize(
+  id: string | number,
+  params: Record<string, unknown> | undefined,
+  ctx: MCPContext
+): Promise<MCPResponse> {
+  const rawClientInfo = params?.clientInfo as Record<string, unknown> | undefined;
+  const clientInfo = rawClientInfo && typeof rawClientInfo.name === 'string'
+    ? {
+        name: rawClientInfo.name,
+        version: typeof rawClientInfo.version === 'string' ? rawClientInfo.version : undefined,
+      }
+    : null;
+
+  // Use the client's version when supported, otherwise offer our latest
+  const requestedVersion = params?.protocolVersion;
+  const protocolVersion = typeof requestedVersion === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requestedVersion)
+    ? requestedVersion
+    : SUPPORTED_PROTOCOL_VERSIONS[0];
+
+  // Expired sessions and old events are purged whenever a new session starts
+  await ctx.sessions.cleanup();
+  ctx.session = await ctx.sessions.create(protocolVersion, clientInfo);
+
+  return mcpSuccess(id, {
+    protocolVersion,
+    capabilities: {
+      // The tool list depends only on the API key's scopes, never on skills, so it does not change
+      tools: { listChanged: false },
+      resources: { subscribe: true, listChanged: true },
+      prompts: { listChanged: true },
+    },
+    serverInfo: { name: 'skill-manager', version: '1.0.0' },
+  });
+}
+
+/**
+ * Handle resources/subscribe and resources/unsubscribe
+ * Subscriptions belong to a session; updates are delivered over GET /mcp
+ */
+async function handleResourceSubscription(
+  id: string | number,
+  method: string,
+  params: Record<string, unknown> | undefined,
+  ctx: MCPContext
+): Promise<MCPResponse> {
+  if (!ctx.session) {
+    return mcpError(id, MCP_ERROR_CODES.INVALID_REQUEST, `Subscriptions require an ${MCP_SESSION_HEADER}`);
+  }
+
+  if (!params || typeof params.uri !== 'string' || !parseSkillUri(params.uri)) {
+    return mcpError(id, MCP_ERROR_CODES.INVALID_PARAMS, 'Invalid skill resource uri');
+  }
+
+  if (method === 'resources/subscribe') {
+    await ctx.sessions.subscribe(ctx.session.id, params.uri);
+  } else {
+    await ctx.sessions.unsubscribe(ctx.session.id, params.uri);
+  }
+
+  return mcpSuccess(id, {});
+}
 
 /**
  * Handle MCP tool calls
@@ -249,8 +754,9 @@ export function createMCPRoutes(service: SkillService) {
 async function handleToolCall(
   id: string | number,
   params: Record<string, unknown> | undefined,
-  service: SkillService
+  ctx: MCPContext
 ): Promise<MCPResponse> {
+  const { service } = ctx;
   if (!params || typeof params.name !== 'string') {
     return mcpError(id, MCP_ERROR_CODES.INVALID_PARAMS, 'Missing tool name');
   }
@@ -259,21 +765,33 @@ async function handleToolCall(
   const args = (params.arguments as Record<string, unknown>) || {};
 
   try {
+    const scope = toolScope(toolName);
+    if (!hasScope(ctx.auth, scope)) {
+      throw forbidden(`API key lacks the ${scope} scope`);
+    }
+
+    // Versions created by this call are attributed to the key and the initialized client
+    const attribution = versionAttribution(ctx.auth, 'mcp', ctx.session?.client_info);
+
     let result: ToolResult;
 
     switch (toolName) {
       case 'skill_create':
-        result = await handleSkillCreate(args, service);
+        result = await handleSkillCreate(args, service, attribution);
         break;
 
       case 'skill_update':
-        result = await handleSkillUpdate(args, service);
+        result = await handleSkillUpdate(args, service, attribution);
         break;
 
       case 'skill_list':
         result = await handleSkillList(args, service);
         break;
 
+      case 'skill_search':
+        result = await handleSkillSearch(args, service);
+        break;
+
       case 'skill_get':
         result = await handleSkillGet(args, service);
         break;
@@ -282,6 +800,38 @@ async function handleToolCall(
         result = await handleSkillGetFile(args, service);
         break;
 
+      case 'skill_export':
+        result = await handleSkillExport(args, service, ctx.baseUrl);
+        break;
+
+      case 'skill_set_tags':
+        result = await handleSkillSetTags(args, service);
+        break;
+
+      case 'skill_list_tags':
+        result = await handleSkillListTags(args, service);
+        break;
+
+      case 'skill_diff':
+        result = await handleSkillDiff(args, service);
+        break;
+
+      case 'skill_rollback':
+        result = await handleSkillRollback(args, service, attribution);
+        break;
+
+      case 'skill_delete':
+        result = await handleSkillDelete(args, service);
+        break;
+
+      case 'skill_restore':
+        result = await handleSkillRestore(args, service);
+        break;
+
+      case 'skill_list_deleted':
+        result = await handleSkillListDeleted(args, service);
+        break;
+
       default:
         return mcpError(id, MCP_ERROR_CODES.METHOD_NOT_FOUND, `Unknown tool: ${toolName}`);
     }
@@ -295,21 +845,159 @@ async function handleToolCall(
   }
 }
 
+/**
+ * Handle resources/list - one resource per file of each active skill's latest version
+ * Paginated by skill using an opaque offset cursor
+ */
+async function handleResourcesList(
+  id: string | number,
+  params: Record<string, unknown> | undefined,
+  service: SkillService
+): Promise<MCPResponse> {
+  const offset = parseCursor(params?.cursor);
+  if (offset === null) {
+    return mcpError(id, MCP_ERROR_CODES.INVALID_PARAMS, 'Invalid cursor');
+  }
+
+  const skills = (await service.listSkills({
+    activeOnly: true,
+    detailed: true,
+    limit: LIST_PAGE_SIZE,
+    offset,
+  })) as SkillWithVersion[];
+
+  const details = await Promise.all(skills.map((skill) => service.getSkill(skill.id)));
+
+  const resources = details.flatMap((skill) =>
+    skill.files.map((file) => ({
+      uri: buildSkillUri(skill.name, undefined, file.path),
+      name: `${skill.name}/${file.path}`,
+      description: file.path === 'SKILL.md' ? skill.description ?? undefined : undefined,
+      mimeType: file.mime_type,
+    }))
+  );
+
+  const result: { resources: typeof resources; nextCursor?: string } = { resources };
+  if (skills.length === LIST_PAGE_SIZE) {
+    result.nextCursor = String(offset + LIST_PAGE_SIZE);
+  }
+
+  return mcpSuccess(id, result);
+}
+
+/**
+ * Handle resources/read - return the content of a single skill file
+ */
+async function handleResourcesRead(
+  id: string | number,
+  params: Record<string, unknown> | undefined,
+  service: SkillService
+): Promise<MCPResponse> {
+  if (!params || typeof params.uri !== 'string') {
+    return mcpError(id, MCP_ERROR_CODES.INVALID_PARAMS, 'Missing resource uri');
+  }
+
+  const uri = params.uri;
+  const parsed = parseSkillUri(uri);
+  if (!parsed) {
+    return mcpError(id, MCP_ERROR_CODES.INVALID_PARAMS, `Invalid skill resource uri: ${uri}`);
+  }
+
+  try {
+    const { file, data } = await service.getFileData(parsed.name, parsed.path, parsed.version);
+
+    // Binary assets are returned as blob resource contents
+    const content = file.is_binary ? { blob: encodeBase64(data) } : { text: file.content };
+    return mcpSuccess(id, { contents: [{ uri, mimeType: file.mime_type, ...content }] });
+  } catch (error) {
+    if (isAppError(error) && error.code === 'NOT_FOUND') {
+      return mcpError(id, MCP_ERROR_CODES.RESOURCE_NOT_FOUND, 'Resource not found', { uri });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Handle prompts/list - one prompt per active skill
+ */
+async function handlePromptsList(
+  id: string | number,
+  params: Record<string, unknown> | undefined,
+  service: SkillService
+): Promise<MCPResponse> {
+  const offset = parseCursor(params?.cursor);
+  if (offset === null) {
+    return mcpError(id, MCP_ERROR_CODES.INVALID_PARAMS, 'Invalid cursor');
+  }
+
+  const prompts = await service.listPrompts({ limit: LIST_PAGE_SIZE, offset });
+
+  const result: { prompts: Array<Record<string, unknown>>; nextCursor?: string } = {
+    prompts: prompts.map((prompt) => ({
+      name: prompt.name,
+      description: prompt.description ?? undefined,
+      arguments: prompt.arguments,
+    })),
+  };
+  if (prompts.length === LIST_PAGE_SIZE) {
+    result.nextCursor = String(offset + LIST_PAGE_SIZE);
+  }
+
+  return mcpSuccess(id, result);
+}
+
+/**
+ * Handle prompts/get - return the skill's SKILL.md as a user message
+ */
+async function handlePromptsGet(
+  id: string | number,
+  params: Record<string, unknown> | undefined,
+  service: SkillService
+): Promise<MCPResponse> {
+  if (!params || typeof params.name !== 'string') {
+    return mcpError(id, MCP_ERROR_CODES.INVALID_PARAMS, 'Missing prompt name');
+  }
+
+  const rawArgs = (params.arguments as Record<string, unknown>) || {};
+  const args: Record<string, string> = {};
+  for (const [key, value] of Object.entries(rawArgs)) {
+    if (typeof value !== 'string') {
+      return mcpError(id, MCP_ERROR_CODES.INVALID_PARAMS, `Argument "${key}" must be a string`);
+    }
+    args[key] = value;
+  }
+
+  try {
+    const prompt = await service.getPrompt(params.name, args);
+    return mcpSuccess(id, {
+      description: prompt.description ?? undefined,
+      messages: [{ role: 'user', content: { type: 'text', text: prompt.content } }],
+    });
+  } catch (error) {
+    if (isAppError(error) && (error.code === 'NOT_FOUND' || error.code === 'VALIDATION_ERROR')) {
+      return mcpError(id, MCP_ERROR_CODES.INVALID_PARAMS, error.message);
+    }
+    throw error;
+  }
+}
+
 /**
  * Handle skill.create tool
  */
 async function handleSkillCreate(
   args: Record<string, unknown>,
-  service: SkillService
+  service: SkillService,
+  attribution: VersionAttribution
 ): Promise<ToolResult> {
   const input: CreateSkillInput = {
     name: args.name as string,
     description: args.description as string | undefined,
+    tags: args.tags as string[] | undefined,
     files: (args.files as CreateSkillInput['files']) || [],
     changelog: args.changelog as string | undefined,
   };
 
-  const skill = await service.createSkill(input);
+  const skill = await service.createSkill(input, attribution);
   return successResult({
     message: `Skill "${skill.name}" created successfully`,
     skill_id: skill.id,
@@ -323,18 +1011,21 @@ async function handleSkillCreate(
  */
 async function handleSkillUpdate(
   args: Record<string, unknown>,
-  service: SkillService
+  service: SkillService,
+  attribution: VersionAttribution
 ): Promise<ToolResult> {
   // Accept both 'name' (preferred) and 'skill_id' (legacy) for backward compatibility
   const skillIdentifier = (args.name ?? args.skill_id) as string;
   const input: UpdateSkillInput = {
     skill_id: skillIdentifier, // Service layer handles lookup by name or ID
     description: args.description as string | undefined,
+    tags: args.tags as string[] | undefined,
     file_changes: args.file_changes as UpdateSkillInput['file_changes'],
     changelog: args.changelog as string | undefined,
+    expected_version: args.expected_version as number | undefined,
   };
 
-  const skill = await service.updateSkill(input);
+  const skill = await service.updateSkill(input, attribution);
   return successResult({
     message: `Skill "${skill.name}" updated to version ${skill.version.version_number}`,
     skill_id: skill.id,
@@ -360,12 +1051,17 @@ async function handleSkillList(
     return errorResult('Parameter "show_inactive" must be a boolean');
   }
 
+  if (args.tags !== undefined && !isStringArray(args.tags)) {
+    return errorResult('Parameter "tags" must be an array of strings');
+  }
+
   const options: ExtendedListSkillsOptions = {
     detailed: args.detailed as boolean | undefined,
     showInactive: args.show_inactive as boolean | undefined,
     limit: args.limit as number | undefined,
     offset: args.offset as number | undefined,
     query: args.query as string | undefined,
+    tags: args.tags,
   };
 
   const skills = await service.listSkills(options);
@@ -376,6 +1072,44 @@ async function handleSkillList(
   });
 }
 
+/**
+ * Handle skill_search tool
+ */
+async function handleSkillSearch(
+  args: Record<string, unknown>,
+  service: SkillService
+): Promise<ToolResult> {
+  if (typeof args.query !== 'string') {
+    return errorResult('Parameter "query" must be a string');
+  }
+  if (args.show_inactive !== undefined && typeof args.show_inactive !== 'boolean') {
+    return errorResult('Parameter "show_inactive" must be a boolean');
+  }
+  if (args.tags !== undefined && !isStringArray(args.tags)) {
+    return errorResult('Parameter "tags" must be an array of strings');
+  }
+
+  const results = await service.searchSkills(args.query, {
+    activeOnly: args.show_inactive !== true,
+    limit: args.limit as number | undefined,
+    offset: args.offset as number | undefined,
+    tags: args.tags,
+  });
+
+  return successResult({
+    count: results.length,
+    results: results.map((result) => ({
+      name: result.name,
+      description: result.description,
+      tags: result.tags,
+      latest_version: result.latest_version,
+      active: result.active,
+      score: result.score,
+      snippet: result.snippet,
+    })),
+  });
+}
+
 /**
  * Handle skill_get tool
  */
@@ -392,14 +1126,25 @@ async function handleSkillGet(
     name: skill.name,
     description: skill.description,
     active: skill.active,
+    tags: skill.tags,
+    manifest: skill.version.manifest,
     version: {
       number: skill.version.version_number,
       changelog: skill.version.changelog,
       created_at: skill.version.created_at,
       created_by: skill.version.created_by,
+      channel: skill.version.channel,
+      author: skill.version.author_name,
+      client: skill.version.client_name
+        ? { name: skill.version.client_name, version: skill.version.client_version }
+        : null,
     },
     files: skill.files.map((f) => ({
       path: f.path,
+      content_hash: f.content_hash,
+      mime_type: f.mime_type,
+      size: f.size,
+      is_binary: f.is_binary,
       is_executable: f.is_executable,
       script_language: f.script_language,
     })),
@@ -436,10 +1181,15 @@ async function handleSkillGetFile(
   const results = await Promise.all(
     pathsToFetch.map(async (filePath) => {
       try {
-        const file = await service.getFile(skillName, filePath, version);
+        // Binary files are returned base64-encoded
+        const { file, data } = await service.getFileData(skillName, filePath, version);
         return {
           path: file.path,
-          content: file.content,
+          content: file.is_binary ? encodeBase64(data) : file.content,
+          encoding: file.is_binary ? 'base64' : 'utf-8',
+          mime_type: file.mime_type,
+          size: file.size,
+          content_hash: file.content_hash,
           is_executable: file.is_executable,
           script_language: file.script_language,
           run_instructions_for_ai: file.run_instructions_for_ai,
@@ -464,4 +1214,167 @@ async function handleSkillGetFile(
 
   // Return array format for multiple files
   return successResult({ files: results });
-}
\ No newline at end of file
+}
+
+/**
+ * Handle skill_diff tool
+ */
+async function handleSkillDiff(
+  args: Record<string, unknown>,
+  service: SkillService
+): Promise<ToolResult> {
+  if (typeof args.from_version !== 'number') {
+    return errorResult('Parameter "from_version" must be a number');
+  }
+  if (args.to_version !== undefined && typeof args.to_version !== 'number') {
+    return errorResult('Parameter "to_version" must be a number');
+  }
+
+  const diff = await service.diffVersions(args.name as string, args.from_version, args.to_version);
+  return successResult(diff);
+}
+
+/**
+ * Handle skill_export tool - returns a URL of the export endpoint rather than the ZIP itself
+ */
+async function handleSkillExport(
+  args: Record<string, unknown>,
+  service: SkillService,
+  baseUrl: string
+): Promise<ToolResult> {
+  if (args.version !== undefined && typeof args.version !== 'number') {
+    return errorResult('Parameter "version" must be a number');
+  }
+
+  if (typeof args.name === 'string') {
+    // Resolve the name and version so the URL points at an existing, fixed version
+    const skill = await service.getSkill(args.name, args.version);
+    const version = skill.version.version_number;
+    return successResult({
+      url: `${baseUrl}/api/skills/${skill.id}/export?version=${version}`,
+      filename: skillArchiveFilename(skill.name, version),
+      name: skill.name,
+      version,
+    });
+  }
+
+  const params = new URLSearchParams();
+  if (args.show_inactive !== true) params.set('active_only', 'true');
+  if (typeof args.query === 'string' && args.query.trim()) params.set('query', args.query);
+  if (isStringArray(args.tags) && args.tags.length > 0) params.set('tags', args.tags.join(','));
+  const query = params.toString();
+
+  return successResult({ url: `${baseUrl}/api/skills/export${query ? `?${query}` : ''}` });
+}
+
+/**
+ * Handle skill_set_tags tool
+ */
+async function handleSkillSetTags(
+  args: Record<string, unknown>,
+  service: SkillService
+): Promise<ToolResult> {
+  if (!isStringArray(args.tags)) {
+    return errorResult('Parameter "tags" must be an array of strings');
+  }
+
+  const skill = await service.updateTags(args.name as string, args.tags);
+  return successResult({
+    message: `Tags of skill "${skill.name}" updated`,
+    skill_id: skill.id,
+    tags: skill.tags,
+  });
+}
+
+/**
+ * Handle skill_list_tags tool
+ */
+async function handleSkillListTags(
+  args: Record<string, unknown>,
+  service: SkillService
+): Promise<ToolResult> {
+  if (args.show_inactive !== undefined && typeof args.show_inactive !== 'boolean') {
+    return errorResult('Parameter "show_inactive" must be a boolean');
+  }
+
+  const tags = await service.listTags({ activeOnly: args.show_inactive !== true });
+  return successResult({ count: tags.length, tags });
+}
+
+/**
+ * Handle skill_rollback tool
+ */
+async function handleSkillRollback(
+  args: Record<string, unknown>,
+  service: SkillService,
+  attribution: VersionAttribution
+): Promise<ToolResult> {
+  if (typeof args.version !== 'number') {
+    return errorResult('Parameter "version" must be a number');
+  }
+
+  const skill = await service.rollbackSkill(
+    args.name as string,
+    args.version,
+    args.changelog as string | undefined,
+    attribution
+  );
+  return successResult({
+    message: `Skill "${skill.name}" rolled back to version ${args.version} as version ${skill.version.version_number}`,
+    skill_id: skill.id,
+    version: skill.version.version_number,
+    files: skill.files.map(f => f.path),
+  });
+}
+
+/**
+ * Handle skill_delete tool
+ */
+async function handleSkillDelete(
+  args: Record<string, unknown>,
+  service: SkillService
+): Promise<ToolResult> {
+  const skill = await service.deleteSkill(args.name as string);
+  return successResult({
+    message: `Skill "${skill.name}" moved to the trash`,
+    skill_id: skill.id,
+    deleted_at: skill.deleted_at,
+  });
+}
+
+/**
+ * Handle skill_restore tool
+ */
+async function handleSkillRestore(
+  args: Record<string, unknown>,
+  service: SkillService
+): Promise<ToolResult> {
+  const skill = await service.restoreSkill(args.name as string);
+  return successResult({
+    message: `Skill "${skill.name}" restored`,
+    skill_id: skill.id,
+  });
+}
+
+/**
+ * Handle skill_list_deleted tool
+ */
+async function handleSkillListDeleted(
+  args: Record<string, unknown>,
+  service: SkillService
+): Promise<ToolResult> {
+  const skills = await service.listDeletedSkills({
+    limit: args.limit as number | undefined,
+    offset: args.offset as number | undefined,
+  });
+
+  return successResult({
+    count: skills.length,
+    skills: skills.map((skill) => ({
+      name: skill.name,
+      description: skill.description,
+      deleted_at: skill.deleted_at,
+      latest_version: skill.latest_version,
+    })),
+  });
+}
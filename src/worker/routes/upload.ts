@@ -4,7 +4,15 @@
  */
 
 import { Hono } from 'hono';
-import type { UploadService, ParseResult, ProcessResult } from '../services/upload.service';
+import type {
+  UploadService,
+  ParseResult,
+  ImportStrategy,
+  ImportFileDiff,
+} from '../services/upload.service';
+import type { ImportJob } from '../services/import-job.service';
+import { IMPORT_STRATEGIES } from '../services/upload.service';
+import type { VersionAttribution } from '../../shared/types';
 import { isAppError, validationError, notFound } from '../lib/errors';
 
 /**
@@ -13,12 +21,30 @@ import { isAppError, validationError, notFound } from '../lib/errors';
 interface ProcessRequest {
   session_id: string;
   selected_skills: string[];
+  strategy?: ImportStrategy; // for skills that already exist (default: replace)
+  names?: Record<string, string>; // detected name -> name to import the skill as
+}
+
+/**
+ * Check a names map (detected name -> name to import the skill as) from a request
+ */
+function validateNames(names: unknown): asserts names is Record<string, string> | undefined {
+  if (
+    names !== undefined &&
+    (typeof names !== 'object' ||
+      names === null ||
+      Array.isArray(names) ||
+      Object.values(names).some((name) => typeof name !== 'string'))
+  ) {
+    throw validationError('names must map skill names to strings');
+  }
 }
 
 /**
  * Create upload API routes
+ * @param attribution - recorded on every version created by the upload
  */
-export function createUploadRoutes(uploadService: UploadService) {
+export function createUploadRoutes(uploadService: UploadService, attribution?: VersionAttribution) {
   const app = new Hono<{ Bindings: Env }>();
 
   // Error handler
@@ -26,8 +52,8 @@ export function createUploadRoutes(uploadService: UploadService) {
     console.error('Upload API error:', err);
     if (isAppError(err)) {
       return c.json(
-        { ok: false, error: { code: err.code, message: err.message } },
-        err.status as 400 | 401 | 404 | 409 | 500
+        { ok: false, error: err.toJSON() },
+        err.status as 400 | 401 | 403 | 404 | 409 | 500
       );
     }
     return c.json(
@@ -37,7 +63,7 @@ export function createUploadRoutes(uploadService: UploadService) {
   });
 
   /**
-   * POST /api/skills/upload/parse - Parse ZIP and return preview
+   * POST /api/skills/upload/parse - Parse a ZIP, .skill, tar or tar.gz archive and return preview
    * Requirements: 5.1, 5.4, 5.5
    */
   app.post('/parse', async (c) => {
@@ -46,25 +72,20 @@ export function createUploadRoutes(uploadService: UploadService) {
     const file = formData.get('file');
 
     if (!file || !(file instanceof File)) {
-      throw validationError('ZIP file is required');
-    }
-
-    // Validate file type
-    if (!file.name.endsWith('.zip') && file.type !== 'application/zip') {
-      throw validationError('File must be a ZIP archive');
+      throw validationError('Archive file is required');
     }
 
     // Get file buffer
     const buffer = await file.arrayBuffer();
 
-    // Parse ZIP and create session
-    const result: ParseResult = await uploadService.parseZip(buffer);
+    // Parse archive and create session
+    const result: ParseResult = await uploadService.parseZip(buffer, file.name);
 
     return c.json({ ok: true, data: result });
   });
 
   /**
-   * POST /api/skills/upload/process - Process selected skills
+   * POST /api/skills/upload/process - Start a job importing selected skills
    * Requirements: 5.2, 5.6, 5.7
    */
   app.post('/process', async (c) => {
@@ -83,14 +104,22 @@ export function createUploadRoutes(uploadService: UploadService) {
       throw validationError('At least one skill must be selected');
     }
 
-    // Process selected skills
+    if (body.strategy !== undefined && !IMPORT_STRATEGIES.includes(body.strategy)) {
+      throw validationError(`strategy must be one of: ${IMPORT_STRATEGIES.join(', ')}`);
+    }
+
+    validateNames(body.names);
+
+    // Queue selected skills for import
     try {
-      const result: ProcessResult = await uploadService.processSelected(
+      const job: ImportJob = await uploadService.startImport(
         body.session_id,
-        body.selected_skills
+        body.selected_skills,
+        { strategy: body.strategy, names: body.names },
+        attribution
       );
 
-      return c.json({ ok: true, data: result });
+      return c.json({ ok: true, data: job }, 202);
     } catch (err) {
       // Handle session not found specifically
       if (err instanceof Error && err.message.includes('Session not found')) {
@@ -100,5 +129,74 @@ export function createUploadRoutes(uploadService: UploadService) {
     }
   });
 
+  /**
+   * GET /api/skills/upload/jobs/:jobId - Import job with the progress of each skill
+   */
+  app.get('/jobs/:jobId', async (c) => {
+    const job: ImportJob = await uploadService.getJob(c.req.param('jobId'));
+    return c.json({ ok: true, data: job });
+  });
+
+  /**
+   * POST /api/skills/upload/jobs/:jobId/retry - Queue the failed skills of a job again
+   */
+  app.post('/jobs/:jobId/retry', async (c) => {
+    const job: ImportJob = await uploadService.retryJob(c.req.param('jobId'), attribution);
+    return c.json({ ok: true, data: job }, 202);
+  });
+
+  /**
+   * GET /api/skills/upload/sessions/:sessionId?names= - Parse the session's upload again and return the preview
+   * names is a JSON object of names chosen in the preview, as passed to process.
+   */
+  app.get('/sessions/:sessionId', async (c) => {
+    const namesParam = c.req.query('names');
+    let names: Record<string, string> | undefined;
+    if (namesParam) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(namesParam);
+      } catch {
+        throw validationError('names must be a JSON object');
+      }
+      validateNames(parsed);
+      names = parsed;
+    }
+
+    try {
+      const result: ParseResult = await uploadService.getSession(c.req.param('sessionId'), names);
+      return c.json({ ok: true, data: result });
+    } catch (err) {
+      if (err instanceof Error && err.message.includes('Session not found')) {
+        throw notFound('Session');
+      }
+      throw err;
+    }
+  });
+
+  /**
+   * GET /api/skills/upload/sessions/:sessionId/diff?skill=&path=&target= - Diff a parsed file against the existing skill
+   * target is the name chosen for the skill in the preview (default: its detected name).
+   */
+  app.get('/sessions/:sessionId/diff', async (c) => {
+    const sessionId = c.req.param('sessionId');
+    const skill = c.req.query('skill');
+    const path = c.req.query('path');
+
+    if (!skill || !path) {
+      throw validationError('skill and path are required');
+    }
+
+    try {
+      const result: ImportFileDiff = await uploadService.diffFile(sessionId, skill, path, c.req.query('target'));
+      return c.json({ ok: true, data: result });
+    } catch (err) {
+      if (err instanceof Error && err.message.includes('Session not found')) {
+        throw notFound('Session');
+      }
+      throw err;
+    }
+  });
+
   return app;
 }
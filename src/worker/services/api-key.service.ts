@@ -0,0 +1,160 @@
+/**
+ * API Key Service - Scoped API key management and authentication
+ *
+ * Keys are random tokens shown once at creation; only their SHA-256 hash is
+ * stored. The MCP_API_KEY env var remains a bootstrap key with admin scope.
+ */
+
+import type { ApiKey, ApiKeyScope, CreatedApiKey, CreateApiKeyInput } from '../../shared/types';
+import type { ApiKeyRepository } from '../repositories/api-key.repo';
+import { sha256Hex } from '../lib/hash';
+import { notFound, validationError } from '../lib/errors';
+
+/**
+ * All scopes, from least to most privileged
+ */
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = ['skills:read', 'skills:write', 'skills:admin'];
+
+/**
+ * Prefix of generated keys, makes them recognizable in logs and secret scanners
+ */
+const KEY_PREFIX = 'smk_';
+
+/**
+ * Number of characters of a key kept for display
+ */
+const KEY_DISPLAY_LENGTH = 12;
+
+/**
+ * The caller identified by an API key
+ */
+export interface AuthPrincipal {
+  type: 'api_key' | 'bootstrap';
+  key_id: string | null; // null for the bootstrap key
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * Check whether a principal holds a scope (admin implies write implies read)
+ */
+export function hasScope(principal: AuthPrincipal, required: ApiKeyScope): boolean {
+  const requiredLevel = API_KEY_SCOPES.indexOf(required);
+  return principal.scopes.some((scope) => API_KEY_SCOPES.indexOf(scope) >= requiredLevel);
+}
+
+/**
+ * Generate a new random API key
+ */
+function generateKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return KEY_PREFIX + Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Service interface for API key operations
+ */
+export interface ApiKeyService {
+  createKey(input: CreateApiKeyInput): Promise<CreatedApiKey>;
+  listKeys(): Promise<ApiKey[]>;
+  revokeKey(id: string): Promise<ApiKey>;
+  authenticate(token: string, bootstrapKey?: string): Promise<AuthPrincipal | null>;
+}
+
+/**
+ * Create an API key service instance
+ */
+export function createApiKeyService(repo: ApiKeyRepository): ApiKeyService {
+  return {
+    /**
+     * Create a key; the plaintext key is only returned here
+     */
+    async createKey(input: CreateApiKeyInput): Promise<CreatedApiKey> {
+      const errors: string[] = [];
+      const name = typeof input.name === 'string' ? input.name.trim() : '';
+      if (!name) {
+        errors.push('Key name is required');
+      } else if (name.length > 100) {
+        errors.push('Key name exceeds 100 characters');
+      }
+
+      if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+        errors.push('At least one scope is required');
+      } else {
+        const invalid = input.scopes.filter((scope) => !API_KEY_SCOPES.includes(scope));
+        if (invalid.length > 0) {
+          errors.push(`Invalid scopes: ${invalid.join(', ')}`);
+        }
+      }
+
+      const now = Date.now();
+      if (input.expires_at !== undefined && input.expires_at !== null) {
+        if (typeof input.expires_at !== 'number' || input.expires_at <= now) {
+          errors.push('expires_at must be a future timestamp');
+        }
+      }
+
+      if (errors.length > 0) {
+        throw validationError(errors.join('; '));
+      }
+
+      const key = generateKey();
+      const created = await repo.createKey(
+        {
+          name,
+          key_prefix: key.substring(0, KEY_DISPLAY_LENGTH),
+          scopes: Array.from(new Set(input.scopes)),
+          created_at: now,
+          expires_at: input.expires_at ?? null,
+          last_used_at: null,
+          revoked_at: null,
+        },
+        await sha256Hex(key)
+      );
+
+      return { ...created, key };
+    },
+
+    async listKeys(): Promise<ApiKey[]> {
+      return repo.listKeys();
+    },
+
+    /**
+     * Revoke a key; revoked keys stay listed for auditing
+     */
+    async revokeKey(id: string): Promise<ApiKey> {
+      const key = await repo.findKeyById(id);
+      if (!key) {
+        throw notFound('API key');
+      }
+
+      if (key.revoked_at === null) {
+        await repo.revokeKey(id, Date.now());
+      }
+
+      return (await repo.findKeyById(id))!;
+    },
+
+    /**
+     * Resolve a bearer token to a principal
+     * Returns null for unknown, revoked or expired keys
+     */
+    async authenticate(token: string, bootstrapKey?: string): Promise<AuthPrincipal | null> {
+      if (bootstrapKey && token === bootstrapKey) {
+        return { type: 'bootstrap', key_id: null, name: 'bootstrap', scopes: ['skills:admin'] };
+      }
+
+      if (!token.startsWith(KEY_PREFIX)) return null;
+
+      const key = await repo.findKeyByHash(await sha256Hex(token));
+      const now = Date.now();
+      if (!key || key.revoked_at !== null || (key.expires_at !== null && key.expires_at <= now)) {
+        return null;
+      }
+
+      await repo.touchKey(key.id, now);
+
+      return { type: 'api_key', key_id: key.id, name: key.name, scopes: key.scopes };
+    },
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * Export Service - Packages skills as ZIP archives in the layout the ZIP upload reads
+ *
+ * Each skill becomes a root-level folder of its files, with a manifest at the root
+ * recording file flags so that re-importing the archive is lossless.
+ */
+
+import { Zip, ZipDeflate, strToU8 } from 'fflate';
+import type { SkillWithVersion, SkillDetail } from '../../shared/types';
+import type { SkillService } from './skill.service';
+import { createExportManifest, EXPORT_MANIFEST_PATH } from '../lib/export-manifest';
+import { validationError } from '../lib/errors';
+
+/**
+ * A ZIP archive, generated while it is read
+ */
+export interface SkillArchive {
+  filename: string;
+  data: ReadableStream<Uint8Array>;
+  skill_count: number;
+}
+
+/**
+ * Filters for a bulk export (same meaning as for listing skills)
+ */
+export interface ExportOptions {
+  activeOnly?: boolean;
+  query?: string;
+  tags?: string[];
+}
+
+/**
+ * Export service interface
+ */
+export interface ExportService {
+  /** Export one version (default: latest) of a skill */
+  exportSkill(skillId: string, version?: number): Promise<SkillArchive>;
+  /** Export the latest version of every matching skill; fails when more than the export limits match */
+  exportSkills(options: ExportOptions): Promise<SkillArchive>;
+}
+
+/**
+ * Skills listed per page while collecting a bulk export
+ */
+const EXPORT_PAGE_SIZE = 100;
+
+/**
+ * Limits of a bulk export: number of skills and total size of their files
+ */
+const EXPORT_MAX_SKILLS = 200;
+const EXPORT_MAX_BYTES = 50 * 1024 * 1024; // 50MB
+
+/**
+ * Unix permissions stored for exported files, so executables keep their mode when unzipped
+ */
+const EXECUTABLE_MODE = 0o100755; // regular file, rwxr-xr-x
+const FILE_MODE = 0o100644; // regular file, rw-r--r--
+const ZIP_OS_UNIX = 3;
+
+/**
+ * File name of a single skill export
+ */
+export function skillArchiveFilename(skillName: string, versionNumber: number): string {
+  return `${skillName}-v${versionNumber}.zip`;
+}
+
+/**
+ * Add a file to a ZIP with its Unix mode
+ */
+function addEntry(zip: Zip, path: string, data: Uint8Array, mode: number, mtime?: number): void {
+  const entry = new ZipDeflate(path);
+  entry.os = ZIP_OS_UNIX;
+  // The mode goes in the high 16 bits; multiply, as << would overflow into the sign bit
+  entry.attrs = mode * 0x10000;
+  if (mtime !== undefined) entry.mtime = mtime;
+  zip.add(entry);
+  entry.push(data, true);
+}
+
+/**
+ * Stream a ZIP of skill folders plus the manifest
+ * File contents are read one skill at a time as the stream is pulled, so the archive is
+ * never held in memory as a whole.
+ */
+function streamArchive(skillService: SkillService, skills: SkillDetail[]): ReadableStream<Uint8Array> {
+  const manifest = createExportManifest(
+    skills.map((skill) => ({
+      name: skill.name,
+      description: skill.description,
+      tags: skill.tags,
+      version: skill.version.version_number,
+      files: skill.files.map((file) => ({
+        path: file.path,
+        is_binary: file.is_binary,
+        is_executable: file.is_executable,
+        script_language: file.script_language,
+        run_instructions_for_ai: file.run_instructions_for_ai,
+      })),
+    }))
+  );
+
+  let zip: Zip;
+  let next = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      zip = new Zip((err, chunk, final) => {
+        if (err) {
+          controller.error(err);
+          return;
+        }
+        controller.enqueue(chunk);
+        if (final) controller.close();
+      });
+    },
+
+    async pull() {
+      if (next === skills.length) {
+        addEntry(zip, EXPORT_MANIFEST_PATH, strToU8(JSON.stringify(manifest, null, 2)), FILE_MODE);
+        zip.end();
+        next++;
+        return;
+      }
+
+      const skill = skills[next++];
+      // Read the version the manifest describes, even if a newer one was saved meanwhile
+      const { files } = await skillService.getSkillContents(skill.id, skill.version.version_number);
+      for (const { file, data } of files) {
+        addEntry(
+          zip,
+          `${skill.name}/${file.path}`,
+          data,
+          file.is_executable ? EXECUTABLE_MODE : FILE_MODE,
+          skill.version.created_at
+        );
+      }
+    },
+
+    cancel() {
+      zip.terminate();
+    },
+  });
+}
+
+/**
+ * Create an export service instance
+ */
+export function createExportService(skillService: SkillService): ExportService {
+  return {
+    async exportSkill(skillId: string, version?: number): Promise<SkillArchive> {
+      const skill = await skillService.getSkill(skillId, version);
+
+      return {
+        filename: skillArchiveFilename(skill.name, skill.version.version_number),
+        data: streamArchive(skillService, [skill]),
+        skill_count: 1,
+      };
+    },
+
+    async exportSkills(options: ExportOptions): Promise<SkillArchive> {
+      const listed: SkillWithVersion[] = [];
+      for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+        const page = (await skillService.listSkills({
+          activeOnly: options.activeOnly ?? false,
+          query: options.query,
+          tags: options.tags,
+          detailed: true,
+          limit: EXPORT_PAGE_SIZE,
+          offset,
+        })) as SkillWithVersion[];
+        listed.push(...page);
+        if (listed.length > EXPORT_MAX_SKILLS) {
+          throw validationError(
+            `Export matches more than ${EXPORT_MAX_SKILLS} skills; filter by query or tags to export fewer`
+          );
+        }
+        if (page.length < EXPORT_PAGE_SIZE) break;
+      }
+
+      // Check the size before anything is streamed, so the limit surfaces as an error response
+      const skills: SkillDetail[] = [];
+      let totalBytes = 0;
+      for (const { id } of listed) {
+        const skill = await skillService.getSkill(id);
+        totalBytes += skill.files.reduce((sum, file) => sum + file.size, 0);
+        if (totalBytes > EXPORT_MAX_BYTES) {
+          throw validationError(
+            `Export exceeds ${EXPORT_MAX_BYTES / 1024 / 1024}MB; filter by query or tags to export fewer skills`
+          );
+        }
+        skills.push(skill);
+      }
+
+      return {
+        filename: `skills-${new Date().toISOString().slice(0, 10)}.zip`,
+        data: streamArchive(skillService, skills),
+        skill_count: skills.length,
+      };
+    },
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Housekeeping Service - Periodic cleanup run by the scheduled (cron) handler
+ *
+ * Removes expired upload sessions, import jobs and MCP sessions, purges skills past
+ * the trash retention period, which also deletes content no version references any more,
+ * and re-keys content migrated before content addressing under its SHA-256.
+ */
+
+import type { SessionStore } from './session.service';
+import type { ImportJobStore } from './import-job.service';
+import type { MCPSessionStore } from './mcp-session.service';
+import type { SkillService } from './skill.service';
+
+/**
+ * What a housekeeping run removed
+ */
+export interface HousekeepingReport {
+  upload_sessions: number;
+  import_jobs: number;
+  purged_skills: number;
+  rehashed_blobs: number;
+}
+
+/**
+ * Housekeeping service interface
+ */
+export interface HousekeepingService {
+  /** Run every cleanup task; a failing task does not stop the others */
+  run(): Promise<HousekeepingReport>;
+}
+
+/**
+ * Create a housekeeping service instance
+ * @param retentionMs - how long deleted skills stay in the trash
+ */
+export function createHousekeepingService(
+  sessionStore: SessionStore,
+  jobStore: ImportJobStore,
+  mcpSessions: MCPSessionStore,
+  skillService: SkillService,
+  retentionMs: number
+): HousekeepingService {
+  /**
+   * Run a task, logging failures
+   */
+  async function attempt<T>(task: string, run: () => Promise<T>, fallback: T): Promise<T> {
+    try {
+      return await run();
+    } catch (err) {
+      console.error(`Housekeeping task ${task} failed:`, err);
+      return fallback;
+    }
+  }
+
+  return {
+    async run(): Promise<HousekeepingReport> {
+      const uploadSessions = await attempt('upload sessions', () => sessionStore.cleanup(), 0);
+      const importJobs = await attempt('import jobs', () => jobStore.cleanup(), 0);
+      await attempt('MCP sessions', () => mcpSessions.cleanup(), undefined);
+      // Rehash before purging so legacy blobs merged into existing ones are collected in the same run
+      const rehashedBlobs = await attempt('legacy blobs', () => skillService.rehashLegacyContent(), 0);
+      const purgedSkills = await attempt('trash', () => skillService.purgeDeletedSkills(retentionMs), 0);
+
+      return {
+        upload_sessions: uploadSessions,
+        import_jobs: importJobs,
+        purged_skills: purgedSkills,
+        rehashed_blobs: rehashedBlobs,
+      };
+    },
+  };
+}
@@ -0,0 +1,403 @@
+/**
+ * Import Job Store Service - storage for asynchronous skill imports
+ *
+ * A job records the selected skills of an upload and the progress of each. The raw
+ * upload is kept in R2 under imports/<job id> for the lifetime of the job, so the
+ * queue consumer can read it and failed skills can be retried.
+ */
+
+import type { ImportStrategy, ImportChanges, SkillImportResult } from './upload.service';
+import type { VersionAttribution } from '../../shared/types';
+
+/**
+ * Job TTL: 24 hours in milliseconds
+ */
+export const IMPORT_JOB_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * How long a skill can stay pending or running before it counts as failed
+ * A queue consumer runs for at most 15 minutes, so an item left unfinished for twice
+ * that was lost with a consumer that crashed or timed out.
+ */
+export const IMPORT_ITEM_TIMEOUT = 30 * 60 * 1000;
+
+/**
+ * Error recorded for a skill whose import never finished
+ */
+const UNFINISHED_ITEM_ERROR = 'Import did not finish; retry to import it again';
+
+/**
+ * R2 key prefix of job uploads
+ */
+const IMPORT_KEY_PREFIX = 'imports/';
+
+/**
+ * Most keys R2 deletes in one call
+ */
+const R2_DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Message sent to the import queue: skills (by detected name) of a job to import
+ * Versions are attributed to whoever started or retried the import.
+ */
+export interface ImportJobMessage {
+  job_id: string;
+  skills: string[];
+  attribution?: VersionAttribution;
+}
+
+export type ImportJobItemStatus = 'pending' | 'running' | 'success' | 'failed';
+
+/**
+ * Progress of one skill of a job
+ */
+export interface ImportJobItem {
+  source_name: string; // name detected in the archive
+  name: string; // name the skill is imported as
+  status: ImportJobItemStatus;
+  attempts: number;
+  skill_id?: string;
+  version?: number;
+  is_new?: boolean;
+  changes?: ImportChanges;
+  error?: string;
+}
+
+/**
+ * An import job
+ * - queued: no skill has started yet
+ * - running: some skills are pending or running
+ * - completed: every skill succeeded or failed
+ */
+export interface ImportJob {
+  id: string;
+  filename: string | null;
+  strategy: ImportStrategy;
+  status: 'queued' | 'running' | 'completed';
+  total: number;
+  pending: number; // pending or running
+  successful: number;
+  failed: number;
+  results: ImportJobItem[];
+  created_at: number;
+  updated_at: number;
+  expires_at: number;
+}
+
+/**
+ * A skill to add to a new job; skills that cannot be imported start out failed
+ */
+export interface NewImportJobItem {
+  source_name: string;
+  name: string;
+  error?: string;
+}
+
+/**
+ * Import job store interface
+ */
+export interface ImportJobStore {
+  /** Store a job and its upload, returns the new job */
+  create(
+    upload: ArrayBuffer,
+    filename: string | null,
+    strategy: ImportStrategy,
+    items: NewImportJobItem[]
+  ): Promise<ImportJob>;
+
+  /** Retrieve a job with the progress of each skill, returns null if not found or expired */
+  get(jobId: string): Promise<ImportJob | null>;
+
+  /** Retrieve the raw upload of a job, returns null if not found or expired */
+  getUpload(jobId: string): Promise<ArrayBuffer | null>;
+
+  /** Mark a skill as running */
+  startItem(jobId: string, sourceName: string): Promise<void>;
+
+  /** Record the outcome of importing a skill */
+  finishItem(jobId: string, sourceName: string, result: SkillImportResult): Promise<void>;
+
+  /** Mark skills that have not finished (pending or running) as failed with an error */
+  failUnfinished(jobId: string, sourceNames: string[], error: string): Promise<void>;
+
+  /** Mark failed skills, and skills unfinished past IMPORT_ITEM_TIMEOUT, as pending again; returns their detected names */
+  resetFailed(jobId: string): Promise<string[]>;
+
+  /** Clean up expired jobs and stray uploads, returns the number of jobs removed */
+  cleanup(): Promise<number>;
+}
+
+/**
+ * Row of the import_job_items table
+ */
+interface ImportJobItemRow {
+  source_name: string;
+  name: string;
+  status: ImportJobItemStatus;
+  attempts: number;
+  skill_id: string | null;
+  version: number | null;
+  is_new: number | null;
+  changes: string | null;
+  error: string | null;
+  updated_at: number;
+}
+
+/**
+ * Row of the import_jobs table
+ */
+interface ImportJobRow {
+  id: string;
+  filename: string | null;
+  strategy: ImportStrategy;
+  created_at: number;
+  updated_at: number;
+  expires_at: number;
+}
+
+/**
+ * R2 key of a job's raw upload
+ */
+function uploadKey(jobId: string): string {
+  return `${IMPORT_KEY_PREFIX}${jobId}`;
+}
+
+/**
+ * Convert an item row to its API form
+ * Items unfinished past IMPORT_ITEM_TIMEOUT are reported as failed, so the job completes and can be retried.
+ */
+function toImportJobItem(row: ImportJobItemRow, now: number): ImportJobItem {
+  const lost = (row.status === 'pending' || row.status === 'running') && row.updated_at <= now - IMPORT_ITEM_TIMEOUT;
+  if (lost) {
+    return {
+      source_name: row.source_name,
+      name: row.name,
+      status: 'failed',
+      attempts: row.attempts,
+      error: UNFINISHED_ITEM_ERROR,
+    };
+  }
+
+  return {
+    source_name: row.source_name,
+    name: row.name,
+    status: row.status,
+    attempts: row.attempts,
+    skill_id: row.skill_id ?? undefined,
+    version: row.version ?? undefined,
+    is_new: row.is_new === null ? undefined : row.is_new === 1,
+    changes: row.changes ? (JSON.parse(row.changes) as ImportChanges) : undefined,
+    error: row.error ?? undefined,
+  };
+}
+
+/**
+ * Build a job from its row and items, counting progress
+ */
+function toImportJob(row: ImportJobRow, items: ImportJobItem[]): ImportJob {
+  const count = (...statuses: ImportJobItemStatus[]) =>
+    items.filter((item) => statuses.includes(item.status)).length;
+  const pending = count('pending', 'running');
+
+  return {
+    ...row,
+    status: pending === 0 ? 'completed' : items.every((item) => item.attempts === 0) ? 'queued' : 'running',
+    total: items.length,
+    pending,
+    successful: count('success'),
+    failed: count('failed'),
+    results: items,
+  };
+}
+
+/**
+ * Create an import job store instance
+ * @param db - D1 database binding
+ * @param bucket - R2 bucket binding for job uploads
+ */
+export function createImportJobStore(db: D1Database, bucket: R2Bucket): ImportJobStore {
+  /**
+   * Touch the job so updated_at reflects the latest progress
+   */
+  function touchJob(jobId: string, now: number): D1PreparedStatement {
+    return db.prepare('UPDATE import_jobs SET updated_at = ? WHERE id = ?').bind(now, jobId);
+  }
+
+  return {
+    async create(
+      upload: ArrayBuffer,
+      filename: string | null,
+      strategy: ImportStrategy,
+      items: NewImportJobItem[]
+    ): Promise<ImportJob> {
+      const now = Date.now();
+      const row: ImportJobRow = {
+        id: crypto.randomUUID(),
+        filename,
+        strategy,
+        created_at: now,
+        updated_at: now,
+        expires_at: now + IMPORT_JOB_TTL,
+      };
+
+      // Upload first: a job row never points at a missing object
+      await bucket.put(uploadKey(row.id), upload);
+      await db.batch([
+        db
+          .prepare(
+            'INSERT INTO import_jobs (id, filename, strategy, created_at, updated_at, expires_at) VALUES (?, ?, ?, ?, ?, ?)'
+          )
+          .bind(row.id, row.filename, row.strategy, row.created_at, row.updated_at, row.expires_at),
+        ...items.map((item, position) =>
+          db
+            .prepare(
+              'INSERT INTO import_job_items (job_id, source_name, name, position, status, error, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+            )
+            .bind(row.id, item.source_name, item.name, position, item.error ? 'failed' : 'pending', item.error ?? null, now)
+        ),
+      ]);
+
+      return toImportJob(
+        row,
+        items.map((item) => ({
+          source_name: item.source_name,
+          name: item.name,
+          status: item.error ? 'failed' : 'pending',
+          attempts: 0,
+          error: item.error,
+        }))
+      );
+    },
+
+    async get(jobId: string): Promise<ImportJob | null> {
+      const now = Date.now();
+      const row = await db
+        .prepare(
+          'SELECT id, filename, strategy, created_at, updated_at, expires_at FROM import_jobs WHERE id = ? AND expires_at > ?'
+        )
+        .bind(jobId, now)
+        .first<ImportJobRow>();
+
+      if (!row) {
+        return null;
+      }
+
+      const items = await db
+        .prepare(
+          `SELECT source_name, name, status, attempts, skill_id, version, is_new, changes, error, updated_at
+           FROM import_job_items WHERE job_id = ? ORDER BY position`
+        )
+        .bind(jobId)
+        .all<ImportJobItemRow>();
+
+      return toImportJob(row, items.results.map((item) => toImportJobItem(item, now)));
+    },
+
+    async getUpload(jobId: string): Promise<ArrayBuffer | null> {
+      const object = await bucket.get(uploadKey(jobId));
+      return object ? object.arrayBuffer() : null;
+    },
+
+    async startItem(jobId: string, sourceName: string): Promise<void> {
+      const now = Date.now();
+      await db.batch([
+        db
+          .prepare(
+            `UPDATE import_job_items SET status = 'running', attempts = attempts + 1, error = NULL, updated_at = ?
+             WHERE job_id = ? AND source_name = ?`
+          )
+          .bind(now, jobId, sourceName),
+        touchJob(jobId, now),
+      ]);
+    },
+
+    async finishItem(jobId: string, sourceName: string, result: SkillImportResult): Promise<void> {
+      const now = Date.now();
+      await db.batch([
+        db
+          .prepare(
+            `UPDATE import_job_items
+             SET status = ?, skill_id = ?, version = ?, is_new = ?, changes = ?, error = ?, updated_at = ?
+             WHERE job_id = ? AND source_name = ?`
+          )
+          .bind(
+            result.status,
+            result.skill_id ?? null,
+            result.version ?? null,
+            result.is_new === undefined ? null : result.is_new ? 1 : 0,
+            result.changes ? JSON.stringify(result.changes) : null,
+            result.error ?? null,
+            now,
+            jobId,
+            sourceName
+          ),
+        touchJob(jobId, now),
+      ]);
+    },
+
+    async failUnfinished(jobId: string, sourceNames: string[], error: string): Promise<void> {
+      if (sourceNames.length === 0) return;
+      const now = Date.now();
+      await db.batch([
+        ...sourceNames.map((sourceName) =>
+          db
+            .prepare(
+              `UPDATE import_job_items SET status = 'failed', error = ?, updated_at = ?
+               WHERE job_id = ? AND source_name = ? AND status IN ('pending', 'running')`
+            )
+            .bind(error, now, jobId, sourceName)
+        ),
+        touchJob(jobId, now),
+      ]);
+    },
+
+    async resetFailed(jobId: string): Promise<string[]> {
+      const now = Date.now();
+      const [reset] = await db.batch<{ source_name: string }>([
+        db
+          .prepare(
+            `UPDATE import_job_items SET status = 'pending', updated_at = ?
+             WHERE job_id = ? AND (status = 'failed' OR (status IN ('pending', 'running') AND updated_at <= ?))
+             RETURNING source_name`
+          )
+          .bind(now, jobId, now - IMPORT_ITEM_TIMEOUT),
+        touchJob(jobId, now),
+      ]);
+      return reset.results.map((row) => row.source_name);
+    },
+
+    /**
+     * Clean up expired jobs
+     * Run by the scheduled handler. Uploads are removed once older than a job can
+     * live, which also catches uploads whose job row was never written.
+     */
+    async cleanup(): Promise<number> {
+      const now = Date.now();
+      const [, expired] = await db.batch<{ id: string }>([
+        db
+          .prepare('DELETE FROM import_job_items WHERE job_id IN (SELECT id FROM import_jobs WHERE expires_at <= ?)')
+          .bind(now),
+        db.prepare('DELETE FROM import_jobs WHERE expires_at <= ? RETURNING id').bind(now),
+      ]);
+
+      const staleKeys = new Set(expired.results.map((row) => uploadKey(row.id)));
+      let cursor: string | undefined;
+      do {
+        const listed = await bucket.list({ prefix: IMPORT_KEY_PREFIX, cursor });
+        for (const object of listed.objects) {
+          if (object.uploaded.getTime() <= now - IMPORT_JOB_TTL) {
+            staleKeys.add(object.key);
+          }
+        }
+        cursor = listed.truncated ? listed.cursor : undefined;
+      } while (cursor);
+
+      const keys = [...staleKeys];
+      for (let i = 0; i < keys.length; i += R2_DELETE_BATCH_SIZE) {
+        await bucket.delete(keys.slice(i, i + R2_DELETE_BATCH_SIZE));
+      }
+
+      return expired.results.length;
+    },
+  };
+}
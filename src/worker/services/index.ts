@@ -1,11 +1,22 @@
-export { createSkillService, type SkillService } from './skill.service';
+export {
+  createSkillService,
+  type SkillService,
+  type SkillChange,
+  type SkillChangeListener,
+  type SkillFileData,
+  type SkillContents,
+} from './skill.service';
 export {
   createZipParserService,
   parseZip,
+  parseArchive,
+  detectArchiveFormat,
   extractSkillFolders,
+  type ArchiveFormat,
   type ZipParserService,
   type ParsedZip,
   type ZipEntry,
+  type RejectedEntry,
   type ExtractedFile,
   type SkillFolder,
 } from './zip-parser.service';
@@ -17,9 +28,51 @@ export {
 } from './session.service';
 export {
   createUploadService,
+  IMPORT_STRATEGIES,
   type UploadService,
   type ParseResult,
-  type ProcessResult,
   type SkillPreview,
   type SkillImportResult,
+  type ImportStrategy,
+  type ImportChanges,
+  type ImportFileDiff,
+  type ProcessOptions,
 } from './upload.service';
+export {
+  createImportJobStore,
+  IMPORT_JOB_TTL,
+  type ImportJobStore,
+  type ImportJob,
+  type ImportJobItem,
+  type ImportJobItemStatus,
+  type ImportJobMessage,
+} from './import-job.service';
+export {
+  createExportService,
+  skillArchiveFilename,
+  type ExportService,
+  type ExportOptions,
+  type SkillArchive,
+} from './export.service';
+export {
+  createMCPSessionStore,
+  createMCPNotifier,
+  MCP_SESSION_TTL,
+  MCP_EVENT_TTL,
+  type MCPSessionStore,
+  type MCPSession,
+  type MCPClientInfo,
+  type MCPEvent,
+} from './mcp-session.service';
+export {
+  createHousekeepingService,
+  type HousekeepingService,
+  type HousekeepingReport,
+} from './housekeeping.service';
+export {
+  createApiKeyService,
+  hasScope,
+  API_KEY_SCOPES,
+  type ApiKeyService,
+  type AuthPrincipal,
+} from './api-key.service';
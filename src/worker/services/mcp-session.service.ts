@@ -0,0 +1,239 @@
+/**
+ * MCP Session Store - D1-backed sessions and notifications for the Streamable HTTP transport
+ *
+ * Sessions are created by `initialize` and identified by the Mcp-Session-Id header.
+ * Notifications are appended to an event log that SSE streams poll, so a skill
+ * changed in one Worker instance reaches clients connected to another.
+ */
+
+import type { SkillChange, SkillChangeListener } from './skill.service';
+import { buildSkillUri, parseSkillUri } from '../lib/skill-uri';
+
+/**
+ * Session TTL: 24 hours in milliseconds
+ */
+export const MCP_SESSION_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Notification events are kept for 1 hour for SSE resumption
+ */
+export const MCP_EVENT_TTL = 60 * 60 * 1000;
+
+/**
+ * Client information sent with initialize
+ */
+export interface MCPClientInfo {
+  name: string;
+  version?: string;
+}
+
+/**
+ * Stored MCP session
+ */
+export interface MCPSession {
+  id: string;
+  protocol_version: string;
+  client_info: MCPClientInfo | null;
+  created_at: number;
+  expires_at: number;
+}
+
+/**
+ * Notification event delivered over SSE
+ */
+export interface MCPEvent {
+  id: number;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * MCP session store interface
+ */
+export interface MCPSessionStore {
+  /** Create a session for an initialize request, returns the session */
+  create(protocolVersion: string, clientInfo: MCPClientInfo | null): Promise<MCPSession>;
+
+  /** Retrieve a session by ID, returns null if not found or expired */
+  get(sessionId: string): Promise<MCPSession | null>;
+
+  /** End a session and drop its subscriptions */
+  delete(sessionId: string): Promise<void>;
+
+  /** Subscribe a session to updates of a resource URI */
+  subscribe(sessionId: string, uri: string): Promise<void>;
+
+  /** Remove a resource subscription */
+  unsubscribe(sessionId: string, uri: string): Promise<void>;
+
+  /** Append a notification for one session, or all sessions when sessionId is null */
+  publish(method: string, params: Record<string, unknown> | undefined, sessionId: string | null): Promise<void>;
+
+  /** ID of the most recent event, used as the starting point of a new stream */
+  latestEventId(): Promise<number>;
+
+  /** Events visible to a session after the given event ID */
+  eventsSince(sessionId: string, lastEventId: number): Promise<MCPEvent[]>;
+
+  /** Clean up expired sessions and old events */
+  cleanup(): Promise<void>;
+}
+
+/**
+ * Create a D1-backed MCP session store instance
+ * @param db - D1 database binding
+ */
+export function createMCPSessionStore(db: D1Database): MCPSessionStore {
+  return {
+    async create(protocolVersion: string, clientInfo: MCPClientInfo | null): Promise<MCPSession> {
+      const now = Date.now();
+      const session: MCPSession = {
+        id: crypto.randomUUID(),
+        protocol_version: protocolVersion,
+        client_info: clientInfo,
+        created_at: now,
+        expires_at: now + MCP_SESSION_TTL,
+      };
+
+      await db
+        .prepare(
+          'INSERT INTO mcp_sessions (id, protocol_version, client_info, created_at, expires_at) VALUES (?, ?, ?, ?, ?)'
+        )
+        .bind(
+          session.id,
+          session.protocol_version,
+          clientInfo ? JSON.stringify(clientInfo) : null,
+          session.created_at,
+          session.expires_at
+        )
+        .run();
+
+      return session;
+    },
+
+    async get(sessionId: string): Promise<MCPSession | null> {
+      const result = await db
+        .prepare('SELECT * FROM mcp_sessions WHERE id = ? AND expires_at > ?')
+        .bind(sessionId, Date.now())
+        .first<{
+          id: string;
+          protocol_version: string;
+          client_info: string | null;
+          created_at: number;
+          expires_at: number;
+        }>();
+
+      if (!result) return null;
+
+      return {
+        ...result,
+        client_info: result.client_info ? (JSON.parse(result.client_info) as MCPClientInfo) : null,
+      };
+    },
+
+    async delete(sessionId: string): Promise<void> {
+      await db.batch([
+        db.prepare('DELETE FROM mcp_subscriptions WHERE session_id = ?').bind(sessionId),
+        db.prepare('DELETE FROM mcp_events WHERE session_id = ?').bind(sessionId),
+        db.prepare('DELETE FROM mcp_sessions WHERE id = ?').bind(sessionId),
+      ]);
+    },
+
+    async subscribe(sessionId: string, uri: string): Promise<void> {
+      await db
+        .prepare('INSERT OR IGNORE INTO mcp_subscriptions (session_id, uri, created_at) VALUES (?, ?, ?)')
+        .bind(sessionId, uri, Date.now())
+        .run();
+    },
+
+    async unsubscribe(sessionId: string, uri: string): Promise<void> {
+      await db
+        .prepare('DELETE FROM mcp_subscriptions WHERE session_id = ? AND uri = ?')
+        .bind(sessionId, uri)
+        .run();
+    },
+
+    async publish(
+      method: string,
+      params: Record<string, unknown> | undefined,
+      sessionId: string | null
+    ): Promise<void> {
+      await db
+        .prepare('INSERT INTO mcp_events (session_id, method, params, created_at) VALUES (?, ?, ?, ?)')
+        .bind(sessionId, method, params ? JSON.stringify(params) : null, Date.now())
+        .run();
+    },
+
+    async latestEventId(): Promise<number> {
+      const result = await db
+        .prepare('SELECT MAX(id) as max_id FROM mcp_events')
+        .first<{ max_id: number | null }>();
+
+      return result?.max_id ?? 0;
+    },
+
+    async eventsSince(sessionId: string, lastEventId: number): Promise<MCPEvent[]> {
+      const results = await db
+        .prepare(
+          `SELECT id, method, params FROM mcp_events
+           WHERE id > ? AND (session_id IS NULL OR session_id = ?)
+           ORDER BY id LIMIT 100`
+        )
+        .bind(lastEventId, sessionId)
+        .all<{ id: number; method: string; params: string | null }>();
+
+      return (results.results || []).map((row) => ({
+        id: row.id,
+        method: row.method,
+        params: row.params ? (JSON.parse(row.params) as Record<string, unknown>) : undefined,
+      }));
+    },
+
+    async cleanup(): Promise<void> {
+      const now = Date.now();
+      await db.batch([
+        db
+          .prepare(
+            'DELETE FROM mcp_subscriptions WHERE session_id IN (SELECT id FROM mcp_sessions WHERE expires_at <= ?)'
+          )
+          .bind(now),
+        db.prepare('DELETE FROM mcp_sessions WHERE expires_at <= ?').bind(now),
+        db.prepare('DELETE FROM mcp_events WHERE created_at <= ?').bind(now - MCP_EVENT_TTL),
+      ]);
+    },
+  };
+}
+
+/**
+ * Create a skill change listener that publishes MCP notifications
+ *
+ * Any change invalidates the resource and prompt lists. New versions also
+ * notify sessions subscribed to `latest` URIs of the changed skill. Skills are
+ * not tools, so no change sends notifications/tools/list_changed.
+ */
+export function createMCPNotifier(db: D1Database, sessions: MCPSessionStore): SkillChangeListener {
+  return {
+    async onSkillChanged(change: SkillChange): Promise<void> {
+      await sessions.publish('notifications/resources/list_changed', undefined, null);
+      await sessions.publish('notifications/prompts/list_changed', undefined, null);
+
+      if (change.type !== 'updated') return;
+
+      const prefix = buildSkillUri(change.skill_name, undefined, '');
+      const results = await db
+        .prepare('SELECT session_id, uri FROM mcp_subscriptions WHERE uri LIKE ?')
+        .bind(`${prefix}%`)
+        .all<{ session_id: string; uri: string }>();
+
+      for (const subscription of results.results || []) {
+        const parsed = parseSkillUri(subscription.uri);
+        if (!parsed || parsed.name !== change.skill_name || parsed.version !== undefined) continue;
+        await sessions.publish(
+          'notifications/resources/updated',
+          { uri: subscription.uri },
+          subscription.session_id
+        );
+      }
+    },
+  };
+}
@@ -1,23 +1,34 @@
 /**
- * Session Store Service - D1-backed storage for ZIP upload sessions
+ * Session Store Service - storage for archive upload sessions
  * Requirements: 1.7, 5.7
  *
- * Stores parsed ZIP data (SkillFolder[]) between parse and process steps.
- * Uses D1 database for persistence across Cloudflare Worker instances.
+ * Keeps the raw upload between the parse and process steps; it is parsed again when
+ * needed. The upload lives in R2 under uploads/<session id> and D1 keeps the session
+ * metadata, so both survive across Cloudflare Worker instances.
  */
 
-import type { SkillFolder } from './zip-parser.service';
-
 /**
  * Session TTL: 10 minutes in milliseconds
  */
 export const SESSION_TTL = 10 * 60 * 1000;
 
 /**
- * Data stored in a session
+ * R2 key prefix of raw uploads
+ */
+const UPLOAD_KEY_PREFIX = 'uploads/';
+
+/**
+ * Most keys R2 deletes in one call
+ */
+const R2_DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Metadata of a session
  */
 export interface SessionData {
-  skills: SkillFolder[];
+  id: string;
+  filename: string | null;
+  size: number;
   created_at: number;
   expires_at: number;
 }
@@ -26,17 +37,20 @@ export interface SessionData {
  * Session store interface
  */
 export interface SessionStore {
-  /** Store parsed ZIP data with TTL, returns session_id */
-  create(skills: SkillFolder[]): Promise<string>;
+  /** Store a raw upload with TTL, returns the new session */
+  create(upload: ArrayBuffer, filename?: string): Promise<SessionData>;
 
-  /** Retrieve session data by ID, returns null if not found or expired */
+  /** Retrieve session metadata by ID, returns null if not found or expired */
   get(sessionId: string): Promise<SessionData | null>;
 
-  /** Delete session after processing */
+  /** Retrieve the raw upload of a session, returns null if not found or expired */
+  getUpload(sessionId: string): Promise<ArrayBuffer | null>;
+
+  /** Delete session and its upload after processing */
   delete(sessionId: string): Promise<void>;
 
-  /** Clean up expired sessions */
-  cleanup(): Promise<void>;
+  /** Clean up expired sessions and stray uploads, returns the number of sessions removed */
+  cleanup(): Promise<number>;
 }
 
 /**
@@ -47,55 +61,63 @@ function generateSessionId(): string {
 }
 
 /**
- * Create a D1-backed session store instance
+ * R2 key of a session's raw upload
+ */
+function uploadKey(sessionId: string): string {
+  return `${UPLOAD_KEY_PREFIX}${sessionId}`;
+}
+
+/**
+ * Create a session store instance
  * @param db - D1 database binding
+ * @param bucket - R2 bucket binding for raw uploads
  */
-export function createSessionStore(db: D1Database): SessionStore {
-  return {
+export function createSessionStore(db: D1Database, bucket: R2Bucket): SessionStore {
+  const store: SessionStore = {
     /**
-     * Store parsed ZIP data with TTL
+     * Store a raw upload with TTL
      * Requirements: 1.7 - store ZIP temporarily and return session ID
      */
-    async create(skills: SkillFolder[]): Promise<string> {
-      const sessionId = generateSessionId();
-      const now = Date.now();
-      const expiresAt = now + SESSION_TTL;
-
-      const skillsData = JSON.stringify(skills);
+    async create(upload: ArrayBuffer, filename?: string): Promise<SessionData> {
+      const session: SessionData = {
+        id: generateSessionId(),
+        filename: filename ?? null,
+        size: upload.byteLength,
+        created_at: Date.now(),
+        expires_at: Date.now() + SESSION_TTL,
+      };
 
+      // Upload first: a session row never points at a missing object
+      await bucket.put(uploadKey(session.id), upload);
       await db
         .prepare(
-          'INSERT INTO upload_sessions (id, skills_data, created_at, expires_at) VALUES (?, ?, ?, ?)'
+          'INSERT INTO upload_sessions (id, filename, size, created_at, expires_at) VALUES (?, ?, ?, ?, ?)'
         )
-        .bind(sessionId, skillsData, now, expiresAt)
+        .bind(session.id, session.filename, session.size, session.created_at, session.expires_at)
         .run();
 
-      return sessionId;
+      return session;
     },
 
     /**
-     * Retrieve session data by ID
+     * Retrieve session metadata by ID
      * Requirements: 5.7 - return null if session expires or not found
      */
     async get(sessionId: string): Promise<SessionData | null> {
-      const now = Date.now();
-
-      const result = await db
+      return db
         .prepare(
-          'SELECT skills_data, created_at, expires_at FROM upload_sessions WHERE id = ? AND expires_at > ?'
+          'SELECT id, filename, size, created_at, expires_at FROM upload_sessions WHERE id = ? AND expires_at > ?'
         )
-        .bind(sessionId, now)
-        .first<{ skills_data: string; created_at: number; expires_at: number }>();
+        .bind(sessionId, Date.now())
+        .first<SessionData>();
+    },
 
-      if (!result) {
+    async getUpload(sessionId: string): Promise<ArrayBuffer | null> {
+      if (!(await store.get(sessionId))) {
         return null;
       }
-
-      return {
-        skills: JSON.parse(result.skills_data) as SkillFolder[],
-        created_at: result.created_at,
-        expires_at: result.expires_at,
-      };
+      const object = await bucket.get(uploadKey(sessionId));
+      return object ? object.arrayBuffer() : null;
     },
 
     /**
@@ -103,15 +125,40 @@ export function createSessionStore(db: D1Database): SessionStore {
      */
     async delete(sessionId: string): Promise<void> {
       await db.prepare('DELETE FROM upload_sessions WHERE id = ?').bind(sessionId).run();
+      await bucket.delete(uploadKey(sessionId));
     },
 
     /**
-     * Clean up all expired sessions
-     * Should be called periodically to prevent database bloat
+     * Clean up expired sessions
+     * Run by the scheduled handler. Uploads are removed once older than a session can
+     * live, which also catches uploads whose session row was never written.
      */
-    async cleanup(): Promise<void> {
+    async cleanup(): Promise<number> {
       const now = Date.now();
-      await db.prepare('DELETE FROM upload_sessions WHERE expires_at <= ?').bind(now).run();
+      const expired = await db
+        .prepare('DELETE FROM upload_sessions WHERE expires_at <= ? RETURNING id')
+        .bind(now)
+        .all<{ id: string }>();
+
+      const staleKeys: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const listed = await bucket.list({ prefix: UPLOAD_KEY_PREFIX, cursor });
+        for (const object of listed.objects) {
+          if (object.uploaded.getTime() <= now - SESSION_TTL) {
+            staleKeys.push(object.key);
+          }
+        }
+        cursor = listed.truncated ? listed.cursor : undefined;
+      } while (cursor);
+
+      for (let i = 0; i < staleKeys.length; i += R2_DELETE_BATCH_SIZE) {
+        await bucket.delete(staleKeys.slice(i, i + R2_DELETE_BATCH_SIZE));
+      }
+
+      return expired.results.length;
     },
   };
+
+  return store;
 }
@@ -8,206 +8,446 @@ import type {
   SkillVersion,
   SkillFile,
   SkillWithVersion,
+  SkillSearchResult,
   SkillDetail,
+  SkillVersionHistory,
+  SkillVersionDiff,
+  SkillFileDiff,
+  SkillFileField,
   CreateSkillInput,
   UpdateSkillInput,
   ListSkillsOptions,
+  ListVersionsOptions,
   MinimalSkillResponse,
   ExtendedListSkillsOptions,
+  SkillPrompt,
+  RenderedSkillPrompt,
+  VersionAttribution,
+  ConsistencyReport,
+  TagCount,
+  SkillManifest,
+  FileEncoding,
 } from '../../shared/types';
-import type { SkillRepository } from '../repositories/skill.repo';
-import { validateCreateSkill, validateUpdateSkill } from '../lib/validation';
+import type {
+  SkillRepository,
+  SkillUpdates,
+  NewFileContent,
+  NewVersionFile,
+  VersionWriteResult,
+} from '../repositories/skill.repo';
+import {
+  validateCreateSkill,
+  validateUpdateSkill,
+  validateTags,
+  normalizeTags,
+  isValidTag,
+  CONSTRAINTS,
+} from '../lib/validation';
 import { notFound, conflict, validationError } from '../lib/errors';
+import { unifiedDiff } from '../lib/diff';
+import { parseSkillManifest } from '../lib/skill-manifest';
+import { getMimeType } from '../lib/file-type';
+import { decodeBase64 } from '../lib/base64';
 
 /**
- * Parse metadata from SKILL.md file content
- * Extracts name and description from YAML frontmatter
+ * Manifest of SKILL.md content being written, rejecting invalid frontmatter
  */
-function parseSkillMetadata(content: string): { name?: string; description?: string } {
-  if (!content || content.trim().length === 0) {
-    return {};
+function readManifest(content: string): SkillManifest {
+  const { manifest, errors } = parseSkillManifest(content);
+  if (errors.length > 0) {
+    throw validationError(errors.join('; '));
   }
+  return manifest;
+}
 
-  const lines = content.split('\n');
+/**
+ * Manifest of a stored version
+ * Versions written before manifests were stored have their SKILL.md parsed instead;
+ * frontmatter errors are ignored there, as the version was already accepted.
+ */
+function storedManifest(version: SkillVersion, files: SkillFile[]): SkillManifest {
+  if (version.manifest) return version.manifest;
+  const skillMd = files.find((f) => f.path === 'SKILL.md' && !f.is_binary);
+  return skillMd ? parseSkillManifest(skillMd.content).manifest : {};
+}
 
-  // Check if file starts with YAML frontmatter
-  if (!lines[0] || lines[0].trim() !== '---') {
-    return {};
-  }
+/**
+ * Skill description declared in a manifest, cut to the description limit
+ */
+function manifestDescription(manifest: SkillManifest): string | undefined {
+  return manifest.description?.substring(0, CONSTRAINTS.DESCRIPTION_MAX).trim() || undefined;
+}
 
-  // Find the end of frontmatter
-  let frontmatterEnd = -1;
-  for (let i = 1; i < lines.length; i++) {
-    if (lines[i].trim() === '---') {
-      frontmatterEnd = i;
-      break;
-    }
-  }
+/**
+ * Tags declared in SKILL.md frontmatter, normalized
+ * Tags that would not pass validation are dropped rather than failing the write, and
+ * only the first TAGS_PER_SKILL_MAX are kept. Returns undefined when none are declared.
+ */
+function declaredTags(manifest: SkillManifest): string[] | undefined {
+  if (!manifest.tags) return undefined;
+  return normalizeTags(manifest.tags).filter(isValidTag).slice(0, CONSTRAINTS.TAGS_PER_SKILL_MAX);
+}
 
-  if (frontmatterEnd === -1) {
-    return {};
-  }
+/**
+ * Substitute {{argument}} placeholders in prompt content
+ */
+function renderPrompt(content: string, args: Record<string, string>): string {
+  return content.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(args, key) ? args[key] : match
+  );
+}
 
-  // Parse the frontmatter content
-  const frontmatterLines = lines.slice(1, frontmatterEnd);
-  let description = '';
-  let name = '';
-  let inDescription = false;
-  let isMultilineDescription = false;
+/**
+ * Find the SKILL.md file of a given skill version
+ */
+async function findSkillMd(
+  repo: SkillRepository,
+  skillId: string,
+  versionNumber: number
+): Promise<SkillFile | null> {
+  const version = await repo.findVersion(skillId, versionNumber);
+  if (!version) return null;
+  return repo.findFile(version.id, 'SKILL.md');
+}
+
+/**
+ * Content and MIME type of an incoming file; base64 content is decoded and stored as a binary asset
+ */
+function incomingContent(path: string, content: string, encoding?: FileEncoding): NewFileContent & { mime_type: string } {
+  return encoding === 'base64'
+    ? { data: decodeBase64(content), mime_type: getMimeType(path, true) }
+    : { content, mime_type: getMimeType(path) };
+}
 
-  for (const line of frontmatterLines) {
-    const trimmedLine = line.trim();
+/**
+ * Compare the files of two versions
+ * Files are matched by path; modified files get a unified diff when their content changed
+ */
+function diffFiles(
+  fromFiles: SkillFile[],
+  toFiles: SkillFile[],
+  fromVersion: number,
+  toVersion: number
+): { files: SkillFileDiff[]; unchanged: number } {
+  const fromMap = new Map(fromFiles.map((f) => [f.path, f]));
+  const toMap = new Map(toFiles.map((f) => [f.path, f]));
+  const paths = Array.from(new Set([...fromMap.keys(), ...toMap.keys()])).sort();
+
+  const files: SkillFileDiff[] = [];
+  let unchanged = 0;
 
-    // Parse Name
-    if (trimmedLine.startsWith('name:')) {
-      name = trimmedLine.substring('name:'.length).trim();
-      inDescription = false; // Reset description parsing state
+  for (const path of paths) {
+    const before = fromMap.get(path);
+    const after = toMap.get(path);
+
+    if (!before) {
+      files.push({ path, status: 'added' });
+      continue;
+    }
+    if (!after) {
+      files.push({ path, status: 'removed' });
       continue;
     }
 
-    // Parse Description
-    if (trimmedLine.startsWith('description:')) {
-      const descriptionValue = trimmedLine.substring('description:'.length).trim();
-
-      if (descriptionValue === '|') {
-        // Multi-line description using YAML literal block scalar
-        isMultilineDescription = true;
-        inDescription = true;
-        continue;
-      } else if (descriptionValue.length > 0) {
-        // Single-line description
-        description = descriptionValue;
-        inDescription = false;
-        break;
-      } else {
-        // Description on next line
-        inDescription = true;
-        continue;
-      }
+    // Binary content is only available as a hash
+    const binary = before.is_binary || after.is_binary;
+    const fields: SkillFileField[] = ['content', 'is_executable', 'script_language', 'run_instructions_for_ai'];
+    const changes = fields.filter((field) =>
+      field === 'content' && binary ? before.content_hash !== after.content_hash : before[field] !== after[field]
+    );
+    if (changes.length === 0) {
+      unchanged++;
+      continue;
     }
 
-    if (inDescription) {
-      if (isMultilineDescription) {
-        // For multi-line descriptions, collect all indented lines
-        if (line.startsWith('  ') || line.startsWith('\t')) {
-          // Remove leading whitespace and add to description
-          const cleanLine = line.replace(/^[ \t]+/, '');
-          if (description.length > 0) {
-            description += '\n';
-          }
-          description += cleanLine;
-        } else if (trimmedLine.length === 0) {
-          // Empty line in multi-line description - preserve as newline
-          description += '\n';
-          continue;
-        } else {
-          // End of multi-line description
-          break;
-        }
-      } else {
-        // Single line description value
-        description = trimmedLine;
-        break;
-      }
+    const entry: SkillFileDiff = { path, status: 'modified', changes };
+    if (changes.includes('content')) {
+      const fromLabel = `a/${path} (v${fromVersion})`;
+      const toLabel = `b/${path} (v${toVersion})`;
+      entry.diff = binary
+        ? `Binary files ${fromLabel} and ${toLabel} differ\n`
+        : unifiedDiff(before.content, after.content, fromLabel, toLabel);
     }
+    files.push(entry);
   }
 
-  const result: { name?: string; description?: string } = {};
+  return { files, unchanged };
+}
 
-  if (name.length > 0) {
-    result.name = name;
-  }
+/**
+ * Maximum number of legacy blobs rehashed by one consistency repair or housekeeping run
+ */
+const LEGACY_BLOB_REHASH_LIMIT = 1000;
 
-  // Clean up and limit to 1024 characters
-  description = description.trim();
-  if (description.length > 0) {
-    result.description = description.length > 1024
-      ? description.substring(0, 1024).trim()
-      : description;
+/**
+ * Version fields recording who made a change
+ * created_by keeps its coarse meaning: 'ai' for MCP clients, 'human' for everything else.
+ * Without an attribution the version is recorded as an unattributed AI change.
+ */
+function versionAuthor(
+  attribution?: VersionAttribution
+): Pick<SkillVersion, 'created_by' | keyof VersionAttribution> {
+  if (!attribution) {
+    return {
+      created_by: 'ai',
+      channel: null,
+      author_key_id: null,
+      author_name: null,
+      client_name: null,
+      client_version: null,
+    };
   }
+  return {
+    created_by: attribution.channel === 'mcp' ? 'ai' : 'human',
+    ...attribution,
+  };
+}
+
+/**
+ * Describes a change to a skill, reported to a SkillChangeListener
+ */
+export interface SkillChange {
+  skill_id: string;
+  skill_name: string;
+  type: 'created' | 'updated' | 'status_changed' | 'tags_changed' | 'deleted' | 'restored';
+}
 
-  return result;
+/**
+ * A file with its raw bytes
+ */
+export interface SkillFileData {
+  file: SkillFile;
+  data: Uint8Array;
+}
+
+/**
+ * A skill version with the raw bytes of all of its files
+ */
+export interface SkillContents {
+  skill: Skill;
+  version: SkillVersion;
+  files: SkillFileData[];
+}
+
+/**
+ * Listener notified after a skill is created, updated or (de)activated
+ */
+export interface SkillChangeListener {
+  onSkillChanged(change: SkillChange): Promise<void>;
 }
 
 /**
  * Service interface for skill operations
  */
 export interface SkillService {
-  createSkill(input: CreateSkillInput): Promise<SkillDetail>;
-  updateSkill(input: UpdateSkillInput): Promise<SkillDetail>;
+  createSkill(input: CreateSkillInput, attribution?: VersionAttribution): Promise<SkillDetail>;
+  updateSkill(input: UpdateSkillInput, attribution?: VersionAttribution): Promise<SkillDetail>;
+  rollbackSkill(
+    skillId: string,
+    targetVersion: number,
+    changelog?: string,
+    attribution?: VersionAttribution
+  ): Promise<SkillDetail>;
   listSkills(options: ExtendedListSkillsOptions): Promise<SkillWithVersion[] | MinimalSkillResponse[]>;
+  searchSkills(
+    query: string,
+    options: Pick<ListSkillsOptions, 'activeOnly' | 'limit' | 'offset' | 'tags'>
+  ): Promise<SkillSearchResult[]>;
   getSkill(skillId: string, version?: number): Promise<SkillDetail>;
+  listVersions(skillId: string, options: ListVersionsOptions): Promise<SkillVersionHistory>;
+  diffVersions(skillId: string, fromVersion: number, toVersion?: number): Promise<SkillVersionDiff>;
   getFile(skillId: string, path: string, version?: number): Promise<SkillFile>;
+  /** Read a file's raw bytes, fetching binary assets from storage */
+  getFileData(skillId: string, path: string, version?: number): Promise<SkillFileData>;
+  /** Read a skill version with the raw bytes of every file */
+  getSkillContents(skillId: string, version?: number): Promise<SkillContents>;
   updateStatus(skillId: string, active: boolean): Promise<Skill>;
+  /** Replace the tags of a skill without creating a version */
+  updateTags(skillId: string, tags: string[]): Promise<Skill>;
+  /** List tags in use with the number of skills carrying each */
+  listTags(options: Pick<ListSkillsOptions, 'activeOnly'>): Promise<TagCount[]>;
+  deleteSkill(skillId: string): Promise<Skill>;
+  restoreSkill(skillId: string): Promise<Skill>;
+  listDeletedSkills(options: Pick<ListSkillsOptions, 'limit' | 'offset'>): Promise<SkillWithVersion[]>;
+  purgeDeletedSkills(retentionMs: number): Promise<number>;
+  checkConsistency(repair: boolean): Promise<ConsistencyReport>;
+  /** Re-key content deduplicated by migration under its SHA-256; returns the number of blobs re-keyed */
+  rehashLegacyContent(): Promise<number>;
+  listPrompts(options: Pick<ListSkillsOptions, 'limit' | 'offset'>): Promise<SkillPrompt[]>;
+  getPrompt(skillId: string, args: Record<string, string>): Promise<RenderedSkillPrompt>;
 }
 
 /**
  * Create a skill service instance
  */
-export function createSkillService(repo: SkillRepository): SkillService {
+export function createSkillService(repo: SkillRepository, listener?: SkillChangeListener): SkillService {
+  /**
+   * Notify the listener; failures are logged and never fail the write
+   */
+  async function notifyChange(change: SkillChange): Promise<void> {
+    if (!listener) return;
+    try {
+      await listener.onSkillChanged(change);
+    } catch (err) {
+      console.error('Skill change listener error:', err);
+    }
+  }
+
+  /**
+   * Run a version write, reporting a version number claimed first by a concurrent writer as CONFLICT
+   */
+  async function withVersionConflict<T>(skillId: string, write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (err) {
+      if (err instanceof Error && err.message.includes('UNIQUE constraint failed: skill_versions')) {
+        const current = await repo.getLatestVersionNumber(skillId);
+        throw conflict(`Skill was modified concurrently; the current version is ${current}`, {
+          current_version: current,
+        });
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Find a skill by ID or name and one of its versions (default: latest)
+   */
+  async function findSkillVersion(
+    skillIdOrName: string,
+    versionNumber?: number
+  ): Promise<{ skill: Skill; version: SkillVersion }> {
+    // Find skill by ID first, then by name (Requirement 4.4)
+    let skill = await repo.findSkillById(skillIdOrName);
+    if (!skill) {
+      skill = await repo.findSkillByName(skillIdOrName);
+    }
+    if (!skill) {
+      throw notFound('Skill');
+    }
+    const skillId = skill.id;
+
+    // Get version (Requirements 4.2, 4.3, 5.3 - default to latest)
+    let version: SkillVersion | null;
+    if (versionNumber !== undefined) {
+      version = await repo.findVersion(skillId, versionNumber);
+      if (!version) {
+        throw notFound(`Version ${versionNumber}`);
+      }
+    } else {
+      const latestVersionNumber = await repo.getLatestVersionNumber(skillId);
+      if (latestVersionNumber === 0) {
+        throw notFound('Version');
+      }
+      version = await repo.findVersion(skillId, latestVersionNumber);
+      if (!version) {
+        throw notFound('Version');
+      }
+    }
+
+    return { skill, version };
+  }
+
+  /**
+   * Find a file of a skill version (default: latest), by skill ID or name
+   */
+  async function findFile(skillIdOrName: string, path: string, versionNumber?: number): Promise<SkillFile> {
+    const { version } = await findSkillVersion(skillIdOrName, versionNumber);
+
+    // Find file (Requirement 5.2)
+    const file = await repo.findFile(version.id, path);
+    if (!file) {
+      throw notFound(`File "${path}"`);
+    }
+
+    return file;
+  }
+
+  /**
+   * Read a file's bytes; text is returned UTF-8 encoded
+   */
+  async function readFileData(file: SkillFile): Promise<Uint8Array> {
+    if (!file.is_binary) {
+      return new TextEncoder().encode(file.content);
+    }
+
+    const data = await repo.getAssetData(file.content_hash);
+    if (!data) {
+      throw notFound(`Content of file "${file.path}"`);
+    }
+    return data;
+  }
+
   return {
     /**
      * Create a new skill with version 1
      * Requirements: 1.1, 1.2, 1.3, 1.4
      */
-    async createSkill(input: CreateSkillInput): Promise<SkillDetail> {
+    async createSkill(input: CreateSkillInput, attribution?: VersionAttribution): Promise<SkillDetail> {
       // Validate input
       const validation = validateCreateSkill(input);
       if (!validation.valid) {
         throw validationError(validation.errors.join('; '));
       }
 
-      // Check for duplicate name (Requirement 1.2)
-      const existing = await repo.findSkillByName(input.name);
+      // Check for duplicate name (Requirement 1.2), including skills in the trash
+      const existing = await repo.findSkillByName(input.name, { includeDeleted: true });
+      if (existing?.deleted_at) {
+        throw conflict(`Skill with name "${input.name}" already exists in the trash; restore it instead`, {
+          in_trash: true,
+        });
+      }
       if (existing) {
         throw conflict(`Skill with name "${input.name}" already exists`);
       }
 
-      // Extract description from SKILL.md if no description provided
-      let description = input.description ?? null;
-      if (!description) {
-        const skillMdFile = input.files.find(f => f.path === 'SKILL.md');
-        if (skillMdFile) {
-          const metadata = parseSkillMetadata(skillMdFile.content);
-          if (metadata.description) {
-            description = metadata.description;
-          }
-        }
-      }
+      // Extract description and tags from SKILL.md if not provided
+      const skillMdFile = input.files.find(f => f.path === 'SKILL.md' && f.encoding !== 'base64');
+      const manifest = skillMdFile ? readManifest(skillMdFile.content) : {};
+      const description = input.description || manifestDescription(manifest) || null;
+      const tags = input.tags !== undefined ? normalizeTags(input.tags) : (declaredTags(manifest) ?? []);
 
       const now = Date.now();
 
-      // Create skill (Requirement 1.4 - creator type 'ai')
-      const skill = await repo.createSkill({
-        name: input.name,
-        description,
-        active: true,
-        created_at: now,
-        updated_at: now,
-      });
+      // Create skill, version 1 and its files in one batch (Requirements 1.1, 1.3, 1.4)
+      let written: VersionWriteResult;
+      try {
+        written = await repo.createSkillWithVersion(
+          {
+            name: input.name,
+            description,
+            active: true,
+            tags,
+            created_at: now,
+            updated_at: now,
+            deleted_at: null,
+          },
+          {
+            version_number: 1,
+            changelog: input.changelog ?? null,
+            created_at: now,
+            ...versionAuthor(attribution),
+            manifest,
+          },
+          input.files.map((f) => ({
+            path: f.path,
+            ...incomingContent(f.path, f.content, f.encoding),
+            is_executable: f.is_executable ?? false,
+            script_language: f.script_language ?? null,
+            run_instructions_for_ai: f.run_instructions_for_ai ?? null,
+            created_at: now,
+          }))
+        );
+      } catch (err) {
+        // Another request created the same name since the check above
+        if (err instanceof Error && err.message.includes('UNIQUE constraint failed: skills.name')) {
+          throw conflict(`Skill with name "${input.name}" already exists`);
+        }
+        throw err;
+      }
+      const { skill, version, files } = written;
 
-      // Create version 1 (Requirement 1.1)
-      const version = await repo.createVersion({
-        skill_id: skill.id,
-        version_number: 1,
-        changelog: input.changelog ?? null,
-        created_at: now,
-        created_by: 'ai',
-      });
-
-      // Create files (Requirement 1.3)
-      const files = await repo.createFiles(
-        input.files.map((f) => ({
-          skill_id: skill.id,
-          version_id: version.id,
-          path: f.path,
-          content: f.content,
-          is_executable: f.is_executable ?? false,
-          script_language: f.script_language ?? null,
-          run_instructions_for_ai: f.run_instructions_for_ai ?? null,
-          created_at: now,
-        }))
-      );
+      await notifyChange({ skill_id: skill.id, skill_name: skill.name, type: 'created' });
 
       return {
         ...skill,
@@ -225,7 +465,7 @@ export function createSkillService(repo: SkillRepository): SkillService {
      * Supports lookup by ID or name
      * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5, 2.6
      */
-    async updateSkill(input: UpdateSkillInput): Promise<SkillDetail> {
+    async updateSkill(input: UpdateSkillInput, attribution?: VersionAttribution): Promise<SkillDetail> {
       // Find existing skill by ID or name (Requirement 2.6)
       let skill = await repo.findSkillById(input.skill_id);
       if (!skill) {
@@ -250,61 +490,70 @@ export function createSkillService(repo: SkillRepository): SkillService {
         throw validationError(validation.errors.join('; '));
       }
 
+      // Optimistic concurrency: the caller's edit must be based on the latest version
+      if (input.expected_version !== undefined && input.expected_version !== currentVersionNumber) {
+        throw conflict(
+          `Skill "${skill.name}" was modified: expected version ${input.expected_version}, current version is ${currentVersionNumber}`,
+          { current_version: currentVersionNumber }
+        );
+      }
+
       const now = Date.now();
 
       // Update skill metadata if description changed or extract from SKILL.md
-      let updatedSkill = skill;
-      const updates: any = { updated_at: now };
-      let hasUpdates = false;
+      const updates: SkillUpdates = { updated_at: now };
 
       if (input.description !== undefined) {
         updates.description = input.description;
-        hasUpdates = true;
       }
 
-      // If SKILL.md is being updated, extract metadata
+      if (input.tags !== undefined) {
+        updates.tags = normalizeTags(input.tags);
+      }
+
+      // The manifest carries over unless SKILL.md changes; a new SKILL.md also updates metadata
+      let manifest = currentVersion ? storedManifest(currentVersion, currentFiles) : {};
       if (input.file_changes) {
         const skillMdChange = input.file_changes.find(
-          change => change.path === 'SKILL.md' && (change.type === 'add' || change.type === 'update')
+          change =>
+            change.path === 'SKILL.md' &&
+            (change.type === 'add' || change.type === 'update') &&
+            change.encoding !== 'base64'
         );
-        if (skillMdChange && skillMdChange.content) {
-          const metadata = parseSkillMetadata(skillMdChange.content);
+        if (skillMdChange && skillMdChange.content !== undefined) {
+          manifest = readManifest(skillMdChange.content);
 
-          if (metadata.name && metadata.name !== skill.name) {
-            updates.name = metadata.name;
-            hasUpdates = true;
+          if (manifest.name && manifest.name !== skill.name) {
+            updates.name = manifest.name;
           }
 
-          if (metadata.description && input.description === undefined) {
-            updates.description = metadata.description;
-            hasUpdates = true;
+          const description = manifestDescription(manifest);
+          if (description && input.description === undefined) {
+            updates.description = description;
           }
-        }
-      }
 
-      if (hasUpdates) {
-        updatedSkill = (await repo.updateSkill(skill.id, updates))!;
-      } else {
-        updatedSkill = (await repo.updateSkill(skill.id, {
-          updated_at: now,
-        }))!;
+          const tags = declaredTags(manifest);
+          if (tags && input.tags === undefined) {
+            updates.tags = tags;
+          }
+        } else if (input.file_changes.some((change) => change.path === 'SKILL.md' && change.type === 'delete')) {
+          manifest = {};
+        }
       }
 
-      // Create new version (Requirement 2.1 - increment version)
-      const newVersionNumber = currentVersionNumber + 1;
-      const newVersion = await repo.createVersion({
-        skill_id: skill.id,
-        version_number: newVersionNumber,
-        changelog: input.changelog ?? null,
-        created_at: now,
-        created_by: 'ai',
-      });
-
       // Apply file changes (Requirements 2.2, 2.3, 2.4, 2.5)
-      // Start with current files as base
-      const fileMap = new Map<string, SkillFile>();
+      // Start with current files as base, reusing their stored content
+      const fileMap = new Map<string, NewVersionFile>();
       for (const file of currentFiles) {
-        fileMap.set(file.path, file);
+        fileMap.set(file.path, {
+          path: file.path,
+          content_hash: file.content_hash,
+          mime_type: file.mime_type,
+          is_executable: file.is_executable,
+          script_language: file.script_language,
+          run_instructions_for_ai: file.run_instructions_for_ai,
+          created_at: now,
+        });
       }
 
       // Apply changes
@@ -314,11 +563,8 @@ export function createSkillService(repo: SkillRepository): SkillService {
             case 'add':
               // Add new file (Requirement 2.3)
               fileMap.set(change.path, {
-                id: '', // Will be generated
-                skill_id: skill.id,
-                version_id: newVersion.id,
                 path: change.path,
-                content: change.content!,
+                ...incomingContent(change.path, change.content!, change.encoding),
                 is_executable: change.is_executable ?? false,
                 script_language: change.script_language ?? null,
                 run_instructions_for_ai: change.run_instructions_for_ai ?? null,
@@ -330,12 +576,12 @@ export function createSkillService(repo: SkillRepository): SkillService {
               const existing = fileMap.get(change.path);
               if (existing) {
                 fileMap.set(change.path, {
-                  ...existing,
-                  content: change.content!,
+                  path: change.path,
+                  ...incomingContent(change.path, change.content!, change.encoding),
+                  created_at: now,
                   is_executable: change.is_executable ?? existing.is_executable,
                   script_language: change.script_language ?? existing.script_language,
                   run_instructions_for_ai: change.run_instructions_for_ai ?? existing.run_instructions_for_ai,
-                  created_at: now,
                 });
               }
               break;
@@ -348,20 +594,107 @@ export function createSkillService(repo: SkillRepository): SkillService {
         }
       }
 
-      // Create files for new version (preserving previous version - Requirement 2.2)
-      const newFiles = await repo.createFiles(
-        Array.from(fileMap.values()).map((f) => ({
-          skill_id: skill.id,
-          version_id: newVersion.id,
-          path: f.path,
-          content: f.content,
-          is_executable: f.is_executable,
-          script_language: f.script_language,
-          run_instructions_for_ai: f.run_instructions_for_ai,
-          created_at: now,
-        }))
+      // Write the skill row, the new version and all of its files in one batch,
+      // preserving previous versions (Requirements 2.1, 2.2)
+      const { skill: updatedSkill, version: newVersion, files: newFiles } = await withVersionConflict(
+        skill.id,
+        () =>
+          repo.addVersion(
+            skill.id,
+            updates,
+            {
+              version_number: currentVersionNumber + 1,
+              changelog: input.changelog ?? null,
+              created_at: now,
+              ...versionAuthor(attribution),
+              manifest,
+            },
+            Array.from(fileMap.values())
+          )
       );
 
+      await notifyChange({ skill_id: skill.id, skill_name: updatedSkill.name, type: 'updated' });
+
+      return {
+        ...updatedSkill,
+        version: newVersion,
+        files: newFiles.map((f) => {
+          const { content: _, ...rest } = f;
+          void _;
+          return rest;
+        }),
+      };
+    },
+
+    /**
+     * Roll back a skill by creating a new version with the files of an earlier version
+     * Supports lookup by ID or name; earlier versions are left untouched
+     */
+    async rollbackSkill(
+      skillIdOrName: string,
+      targetVersion: number,
+      changelog?: string,
+      attribution?: VersionAttribution
+    ): Promise<SkillDetail> {
+      let skill = await repo.findSkillById(skillIdOrName);
+      if (!skill) {
+        skill = await repo.findSkillByName(skillIdOrName);
+      }
+      if (!skill) {
+        throw notFound('Skill');
+      }
+
+      const currentVersionNumber = await repo.getLatestVersionNumber(skill.id);
+      if (!Number.isInteger(targetVersion) || targetVersion < 1 || targetVersion >= currentVersionNumber) {
+        throw validationError(
+          `Version must be an earlier version between 1 and ${currentVersionNumber - 1}`
+        );
+      }
+
+      const target = await repo.findVersion(skill.id, targetVersion);
+      if (!target) {
+        throw notFound(`Version ${targetVersion}`);
+      }
+      const targetFiles = await repo.findFilesByVersionId(target.id);
+
+      const now = Date.now();
+
+      // Restore the manifest of the target version with the description and tags it declares
+      const manifest = storedManifest(target, targetFiles);
+      const description = manifestDescription(manifest);
+      const tags = declaredTags(manifest);
+
+      const { skill: updatedSkill, version: newVersion, files: newFiles } = await withVersionConflict(
+        skill.id,
+        () =>
+          repo.addVersion(
+            skill.id,
+            {
+              ...(description ? { description } : {}),
+              ...(tags ? { tags } : {}),
+              updated_at: now,
+            },
+            {
+              version_number: currentVersionNumber + 1,
+              changelog: changelog ?? `Rolled back to v${targetVersion}`,
+              created_at: now,
+              ...versionAuthor(attribution),
+              manifest,
+            },
+            targetFiles.map((f) => ({
+              path: f.path,
+              content_hash: f.content_hash,
+              mime_type: f.mime_type,
+              is_executable: f.is_executable,
+              script_language: f.script_language,
+              run_instructions_for_ai: f.run_instructions_for_ai,
+              created_at: now,
+            }))
+          )
+      );
+
+      await notifyChange({ skill_id: skill.id, skill_name: updatedSkill.name, type: 'updated' });
+
       return {
         ...updatedSkill,
         version: newVersion,
@@ -386,9 +719,13 @@ export function createSkillService(repo: SkillRepository): SkillService {
         limit: options.limit,
         offset: options.offset,
         query: options.query,
+        tags: options.tags ? normalizeTags(options.tags) : undefined,
       };
 
-      const skills = await repo.listSkills(repoOptions);
+      // Queries are ranked by full-text relevance instead of recency
+      const skills: Array<SkillWithVersion & { snippet?: string }> = repoOptions.query?.trim()
+        ? await repo.searchSkills(repoOptions.query, repoOptions)
+        : await repo.listSkills(repoOptions);
 
       // Return detailed format if requested (default for web UI)
       if (options.detailed !== false) {
@@ -410,52 +747,42 @@ export function createSkillService(repo: SkillRepository): SkillService {
           skill.description && skill.description.length > 1024
             ? skill.description.substring(0, 1024)
             : skill.description,
+        ...(skill.tags.length > 0 ? { tags: skill.tags } : {}),
+        ...(skill.snippet !== undefined ? { snippet: skill.snippet } : {}),
       }));
     },
 
+    /**
+     * Full-text search over the latest version of each skill
+     * Matches name, description, SKILL.md and other files, ranked by relevance
+     */
+    async searchSkills(
+      query: string,
+      options: Pick<ListSkillsOptions, 'activeOnly' | 'limit' | 'offset' | 'tags'>
+    ): Promise<SkillSearchResult[]> {
+      if (!query || query.trim().length === 0) {
+        throw validationError('Search query is required');
+      }
+      return repo.searchSkills(query, {
+        ...options,
+        tags: options.tags ? normalizeTags(options.tags) : undefined,
+      });
+    },
+
     /**
      * Get skill details with optional version selection
      * Supports lookup by ID or name
      * Requirements: 4.1, 4.2, 4.3, 4.4
      */
     async getSkill(skillIdOrName: string, versionNumber?: number): Promise<SkillDetail> {
-      // Find skill by ID first, then by name (Requirement 4.4)
-      let skill = await repo.findSkillById(skillIdOrName);
-      if (!skill) {
-        // Try finding by name
-        skill = await repo.findSkillByName(skillIdOrName);
-      }
-      if (!skill) {
-        throw notFound('Skill');
-      }
-      const skillId = skill.id;
-
-      // Get version (Requirement 4.2, 4.3)
-      let version: SkillVersion | null;
-      if (versionNumber !== undefined) {
-        // Specific version requested (Requirement 4.2)
-        version = await repo.findVersion(skillId, versionNumber);
-        if (!version) {
-          throw notFound(`Version ${versionNumber}`);
-        }
-      } else {
-        // Default to latest version (Requirement 4.3)
-        const latestVersionNumber = await repo.getLatestVersionNumber(skillId);
-        if (latestVersionNumber === 0) {
-          throw notFound('Version');
-        }
-        version = await repo.findVersion(skillId, latestVersionNumber);
-        if (!version) {
-          throw notFound('Version');
-        }
-      }
+      const { skill, version } = await findSkillVersion(skillIdOrName, versionNumber);
 
       // Get files for version
       const files = await repo.findFilesByVersionId(version.id);
 
       return {
         ...skill,
-        version,
+        version: { ...version, manifest: storedManifest(version, files) },
         files: files.map((f) => {
           const { content: _, ...rest } = f;
           void _;
@@ -465,12 +792,10 @@ export function createSkillService(repo: SkillRepository): SkillService {
     },
 
     /**
-     * Get a specific file from a skill version
+     * List a skill's version history, newest first, with file counts and sizes
      * Supports lookup by ID or name
-     * Requirements: 5.1, 5.2, 5.3
      */
-    async getFile(skillIdOrName: string, path: string, versionNumber?: number): Promise<SkillFile> {
-      // Find skill by ID first, then by name
+    async listVersions(skillIdOrName: string, options: ListVersionsOptions): Promise<SkillVersionHistory> {
       let skill = await repo.findSkillById(skillIdOrName);
       if (!skill) {
         skill = await repo.findSkillByName(skillIdOrName);
@@ -478,33 +803,89 @@ export function createSkillService(repo: SkillRepository): SkillService {
       if (!skill) {
         throw notFound('Skill');
       }
-      const skillId = skill.id;
 
-      // Get version (Requirement 5.3 - default to latest)
-      let version: SkillVersion | null;
-      if (versionNumber !== undefined) {
-        version = await repo.findVersion(skillId, versionNumber);
-        if (!version) {
-          throw notFound(`Version ${versionNumber}`);
-        }
-      } else {
-        const latestVersionNumber = await repo.getLatestVersionNumber(skillId);
-        if (latestVersionNumber === 0) {
-          throw notFound('Version');
-        }
-        version = await repo.findVersion(skillId, latestVersionNumber);
-        if (!version) {
-          throw notFound('Version');
-        }
+      const limit = options.limit ?? 20;
+      const offset = options.offset ?? 0;
+      const [versions, total] = await Promise.all([
+        repo.findVersionsBySkillId(skill.id, { limit, offset }),
+        repo.countVersions(skill.id),
+      ]);
+
+      return { versions, total, limit, offset };
+    },
+
+    /**
+     * Compare two versions of a skill
+     * Supports lookup by ID or name; toVersion defaults to the latest version
+     */
+    async diffVersions(skillIdOrName: string, fromVersion: number, toVersion?: number): Promise<SkillVersionDiff> {
+      let skill = await repo.findSkillById(skillIdOrName);
+      if (!skill) {
+        skill = await repo.findSkillByName(skillIdOrName);
+      }
+      if (!skill) {
+        throw notFound('Skill');
       }
 
-      // Find file (Requirement 5.2)
-      const file = await repo.findFile(version.id, path);
-      if (!file) {
-        throw notFound(`File "${path}"`);
+      const toNumber = toVersion ?? (await repo.getLatestVersionNumber(skill.id));
+      const [from, to] = await Promise.all([
+        repo.findVersion(skill.id, fromVersion),
+        repo.findVersion(skill.id, toNumber),
+      ]);
+      if (!from) {
+        throw notFound(`Version ${fromVersion}`);
+      }
+      if (!to) {
+        throw notFound(`Version ${toNumber}`);
       }
 
-      return file;
+      const [fromFiles, toFiles] = await Promise.all([
+        repo.findFilesByVersionId(from.id),
+        repo.findFilesByVersionId(to.id),
+      ]);
+
+      return {
+        skill_id: skill.id,
+        skill_name: skill.name,
+        from_version: from.version_number,
+        to_version: to.version_number,
+        ...diffFiles(fromFiles, toFiles, from.version_number, to.version_number),
+      };
+    },
+
+    /**
+     * Get a specific file from a skill version
+     * Supports lookup by ID or name
+     * Requirements: 5.1, 5.2, 5.3
+     */
+    async getFile(skillIdOrName: string, path: string, versionNumber?: number): Promise<SkillFile> {
+      return findFile(skillIdOrName, path, versionNumber);
+    },
+
+    /**
+     * Get a file's raw bytes; text is returned UTF-8 encoded
+     */
+    async getFileData(
+      skillIdOrName: string,
+      path: string,
+      versionNumber?: number
+    ): Promise<SkillFileData> {
+      const file = await findFile(skillIdOrName, path, versionNumber);
+      return { file, data: await readFileData(file) };
+    },
+
+    /**
+     * Get a skill version with the bytes of all of its files
+     */
+    async getSkillContents(skillIdOrName: string, versionNumber?: number): Promise<SkillContents> {
+      const { skill, version } = await findSkillVersion(skillIdOrName, versionNumber);
+      const files = await repo.findFilesByVersionId(version.id);
+
+      return {
+        skill,
+        version,
+        files: await Promise.all(files.map(async (file) => ({ file, data: await readFileData(file) }))),
+      };
     },
 
     /**
@@ -526,7 +907,186 @@ export function createSkillService(repo: SkillRepository): SkillService {
         updated_at: Date.now(),
       });
 
+      await notifyChange({ skill_id: skill.id, skill_name: skill.name, type: 'status_changed' });
+
+      return updated!;
+    },
+
+    /**
+     * Replace the tags of a skill
+     * Supports lookup by ID or name. Tags are skill metadata, so no version is created.
+     */
+    async updateTags(skillIdOrName: string, tags: string[]): Promise<Skill> {
+      const validation = validateTags(tags);
+      if (!validation.valid) {
+        throw validationError(validation.errors.join('; '));
+      }
+
+      let skill = await repo.findSkillById(skillIdOrName);
+      if (!skill) {
+        skill = await repo.findSkillByName(skillIdOrName);
+      }
+      if (!skill) {
+        throw notFound('Skill');
+      }
+
+      const updated = await repo.updateSkill(skill.id, {
+        tags: normalizeTags(tags),
+        updated_at: Date.now(),
+      });
+
+      await notifyChange({ skill_id: skill.id, skill_name: skill.name, type: 'tags_changed' });
+
       return updated!;
     },
+
+    async listTags(options: Pick<ListSkillsOptions, 'activeOnly'>): Promise<TagCount[]> {
+      return repo.listTags(options);
+    },
+
+    /**
+     * Move a skill to the trash (soft delete)
+     * Deleted skills are hidden from listings and lookups until restored or purged
+     */
+    async deleteSkill(skillIdOrName: string): Promise<Skill> {
+      let skill = await repo.findSkillById(skillIdOrName);
+      if (!skill) {
+        skill = await repo.findSkillByName(skillIdOrName);
+      }
+      if (!skill) {
+        throw notFound('Skill');
+      }
+
+      const now = Date.now();
+      const deleted = await repo.updateSkill(skill.id, {
+        deleted_at: now,
+        updated_at: now,
+      });
+
+      await notifyChange({ skill_id: skill.id, skill_name: skill.name, type: 'deleted' });
+
+      return deleted!;
+    },
+
+    /**
+     * Restore a skill from the trash
+     */
+    async restoreSkill(skillIdOrName: string): Promise<Skill> {
+      let skill = await repo.findSkillById(skillIdOrName, { includeDeleted: true });
+      if (!skill) {
+        skill = await repo.findSkillByName(skillIdOrName, { includeDeleted: true });
+      }
+      if (!skill || skill.deleted_at === null) {
+        throw notFound('Deleted skill');
+      }
+
+      const restored = await repo.updateSkill(skill.id, {
+        deleted_at: null,
+        updated_at: Date.now(),
+      });
+
+      await notifyChange({ skill_id: skill.id, skill_name: skill.name, type: 'restored' });
+
+      return restored!;
+    },
+
+    /**
+     * List skills in the trash, most recently deleted first
+     */
+    async listDeletedSkills(options: Pick<ListSkillsOptions, 'limit' | 'offset'>): Promise<SkillWithVersion[]> {
+      return repo.listSkills({ ...options, deletedOnly: true });
+    },
+
+    /**
+     * Permanently delete skills that have been in the trash longer than the retention period
+     * @returns number of skills purged
+     */
+    async purgeDeletedSkills(retentionMs: number): Promise<number> {
+      return repo.purgeSkillsDeletedBefore(Date.now() - retentionMs);
+    },
+
+    /**
+     * Find skills, versions and files left behind by partially written versions
+     * With repair, empty and orphaned versions are deleted, and so are skills without any content;
+     * legacy blobs are rehashed (up to LEGACY_BLOB_REHASH_LIMIT per call) and unused content is deleted
+     */
+    async checkConsistency(repair: boolean): Promise<ConsistencyReport> {
+      const issues = await repo.findConsistencyIssues();
+      const blobs = await repo.getBlobStats();
+      if (repair) {
+        if (issues.length > 0) {
+          await repo.repairConsistencyIssues(issues);
+        }
+        await this.rehashLegacyContent();
+        await repo.deleteUnreferencedBlobs();
+      }
+      return { issues, blobs, repaired: repair };
+    },
+
+    /**
+     * Re-key legacy blobs under their SHA-256, up to LEGACY_BLOB_REHASH_LIMIT per call
+     * Housekeeping calls this on every run until none are left. Content already stored
+     * under the same SHA-256 is merged, so migrated content is deduplicated with new content.
+     */
+    async rehashLegacyContent(): Promise<number> {
+      return repo.rehashLegacyBlobs(LEGACY_BLOB_REHASH_LIMIT);
+    },
+
+    /**
+     * List active skills as prompts, with arguments declared in SKILL.md frontmatter
+     */
+    async listPrompts(options: Pick<ListSkillsOptions, 'limit' | 'offset'>): Promise<SkillPrompt[]> {
+      const skills = await repo.listSkills({ activeOnly: true, ...options });
+
+      return Promise.all(
+        skills.map(async (skill) => {
+          const skillMd = await findSkillMd(repo, skill.id, skill.latest_version);
+          const manifest = skillMd ? parseSkillManifest(skillMd.content).manifest : {};
+          return {
+            name: skill.name,
+            description: skill.description,
+            arguments: manifest.arguments ?? [],
+          };
+        })
+      );
+    },
+
+    /**
+     * Render an active skill's SKILL.md as a prompt
+     * Supports lookup by ID or name; inactive skills are treated as not found
+     */
+    async getPrompt(skillIdOrName: string, args: Record<string, string>): Promise<RenderedSkillPrompt> {
+      let skill = await repo.findSkillById(skillIdOrName);
+      if (!skill) {
+        skill = await repo.findSkillByName(skillIdOrName);
+      }
+      if (!skill || !skill.active) {
+        throw notFound('Prompt');
+      }
+
+      const latestVersionNumber = await repo.getLatestVersionNumber(skill.id);
+      const skillMd = await findSkillMd(repo, skill.id, latestVersionNumber);
+      if (!skillMd) {
+        throw notFound('SKILL.md');
+      }
+
+      const declared = parseSkillManifest(skillMd.content).manifest.arguments ?? [];
+      const missing = declared.filter((arg) => arg.required && !args[arg.name]);
+      if (missing.length > 0) {
+        throw validationError(`Missing required arguments: ${missing.map((arg) => arg.name).join(', ')}`);
+      }
+
+      const values: Record<string, string> = {};
+      for (const arg of declared) {
+        values[arg.name] = args[arg.name] ?? '';
+      }
+
+      return {
+        name: skill.name,
+        description: skill.description,
+        arguments: declared,
+        content: renderPrompt(skillMd.content, values),
+      };
+    },
   };
 }
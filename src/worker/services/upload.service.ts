@@ -1,26 +1,72 @@
 /**
- * Upload Service - Orchestrates ZIP upload flow (parse and process)
+ * Upload Service - Orchestrates ZIP upload flow (parse, then import as a queued job)
  * Requirements: 1.2, 1.6, 1.7, 3.4, 3.5, 3.6, 3.7
  */
 
-import type { SkillFolder } from './zip-parser.service';
-import type { SessionStore } from './session.service';
+import type { SkillFolder, ParsedZip, RejectedEntry, ExtractedFile } from './zip-parser.service';
+import type { SessionStore, SessionData } from './session.service';
 import type { SkillService } from './skill.service';
-import { parseZip, extractSkillFolders } from './zip-parser.service';
-import { SESSION_TTL } from './session.service';
+import type { ImportJobStore, ImportJob, ImportJobMessage } from './import-job.service';
+import type { VersionAttribution, FileEncoding, FileChange, SkillDetail } from '../../shared/types';
+import { parseArchive, detectArchiveFormat, extractSkillFolders } from './zip-parser.service';
 import { validateZipSize, validateSkillFolder } from '../lib/upload-validation';
 import { isExecutable, getScriptLanguage } from '../lib/file-type';
-import { validationError } from '../lib/errors';
+import { validationError, notFound, conflict, isAppError } from '../lib/errors';
+import { sha256Hex } from '../lib/hash';
+import { decodeBase64 } from '../lib/base64';
+import { unifiedDiff } from '../lib/diff';
+import { parseSkillManifest, splitFrontmatter, setManifestName } from '../lib/skill-manifest';
+
+/**
+ * How a folder is applied to a skill that already exists
+ * - replace: the skill ends up with exactly the folder's files; files missing from the folder are deleted
+ * - merge: new and changed files are applied; files missing from the folder are kept
+ */
+export type ImportStrategy = 'merge' | 'replace';
+
+export const IMPORT_STRATEGIES: readonly ImportStrategy[] = ['merge', 'replace'];
+
+/**
+ * Paths added, updated and deleted by importing a skill
+ */
+export interface ImportChanges {
+  added: string[];
+  updated: string[];
+  deleted: string[];
+}
 
 /**
  * Preview of a skill folder from ZIP
+ * Valid folders of existing skills are compared with the latest version: `changes` lists what the
+ * replace strategy would apply (merge keeps the deleted files).
  */
 export interface SkillPreview {
   name: string;
+  path: string; // directory of the skill within the ZIP ('' for the root)
   valid: boolean;
   file_count: number;
   errors: string[];
   description?: string;
+  existing_version?: number; // absent for new skills
+  changes?: ImportChanges;
+  description_changed?: boolean;
+}
+
+/**
+ * Options for importing the selected skills
+ */
+export interface ProcessOptions {
+  strategy?: ImportStrategy; // for skills that already exist (default: replace)
+  names?: Record<string, string>; // detected name -> name to import the skill as
+}
+
+/**
+ * Line diff of one file of a folder against the latest version of its skill
+ */
+export interface ImportFileDiff {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  diff: string; // unified diff; a notice for binary files
 }
 
 /**
@@ -29,11 +75,13 @@ export interface SkillPreview {
 export interface ParseResult {
   session_id: string;
   skills: SkillPreview[];
+  rejected: RejectedEntry[]; // archive entries left out (unsafe paths, duplicates, oversized files)
   expires_at: number;
 }
 
 /**
  * Result of importing a single skill
+ * A skill whose files all match the folder is left at its current version with no changes.
  */
 export interface SkillImportResult {
   name: string;
@@ -42,32 +90,84 @@ export interface SkillImportResult {
   version?: number;
   error?: string;
   is_new?: boolean;
+  changes?: ImportChanges;
 }
 
 /**
- * Result of processing selected skills
+ * Skills imported per queue message; each message reads the archive once
  */
-export interface ProcessResult {
-  total: number;
-  successful: number;
-  failed: number;
-  results: SkillImportResult[];
-}
+const IMPORT_MESSAGE_SKILLS = 10;
 
+/**
+ * Most messages sent to a queue in one call
+ */
+const QUEUE_SEND_BATCH_SIZE = 100;
 
 /**
  * Upload service interface
  */
 export interface UploadService {
-  /** Step 1: Parse ZIP and create session */
-  parseZip(buffer: ArrayBuffer): Promise<ParseResult>;
+  /**
+   * Step 1: Parse a ZIP (or .skill), tar or tar.gz archive and create session
+   * The file name names a skill at the archive root without a frontmatter name.
+   */
+  parseZip(buffer: ArrayBuffer, filename?: string): Promise<ParseResult>;
+
+  /**
+   * Step 2: Start a job importing selected skills (by detected name) from session
+   * The job takes over the upload; new versions are attributed to the uploader.
+   */
+  startImport(
+    sessionId: string,
+    selectedSkills: string[],
+    options?: ProcessOptions,
+    attribution?: VersionAttribution
+  ): Promise<ImportJob>;
+
+  /** Progress of an import job */
+  getJob(jobId: string): Promise<ImportJob>;
+
+  /** Queue the failed skills of a job again, attributing the new versions to whoever retries */
+  retryJob(jobId: string, attribution?: VersionAttribution): Promise<ImportJob>;
+
+  /** Import the skills of a queue message (run by the queue consumer) */
+  runImport(message: ImportJobMessage): Promise<void>;
+
+  /** Record the unfinished skills of a message that will not be delivered again as failed */
+  abandonImport(message: ImportJobMessage, error: string): Promise<void>;
+
+  /**
+   * Parse a session's upload again, as returned by parseZip (skills compared with the current versions)
+   * Renamed skills are compared with the skill of the name chosen for them.
+   */
+  getSession(sessionId: string, names?: Record<string, string>): Promise<ParseResult>;
+
+  /** Diff a file of a parsed folder against the latest version of the existing skill it is imported as */
+  diffFile(sessionId: string, skillName: string, path: string, targetName?: string): Promise<ImportFileDiff>;
+}
+
+/**
+ * A file of a folder, in the form passed to the skill service
+ */
+interface ImportFile {
+  path: string;
+  content: string;
+  encoding?: FileEncoding;
+  is_executable: boolean;
+  script_language?: string;
+  run_instructions_for_ai?: string;
+}
 
-  /** Step 2: Process selected skills from session */
-  processSelected(sessionId: string, selectedSkills: string[]): Promise<ProcessResult>;
+/**
+ * File name without its archive extension
+ */
+function archiveBaseName(filename: string): string {
+  return filename.replace(/\.(zip|skill|tar|tar\.gz|tgz)$/i, '');
 }
 
 /**
- * Extract description from SKILL.md content (first paragraph or heading)
+ * Extract description from SKILL.md: the frontmatter description, else the first
+ * line of text after the frontmatter that is not a heading
  */
 function extractDescription(skillFolder: SkillFolder): string | undefined {
   const skillMd = skillFolder.files.find(
@@ -76,8 +176,11 @@ function extractDescription(skillFolder: SkillFolder): string | undefined {
 
   if (!skillMd) return undefined;
 
+  const { manifest } = parseSkillManifest(skillMd.content);
+  if (manifest.description) return manifest.description;
+
   // Get first non-empty line that's not a heading marker
-  const lines = skillMd.content.split('\n');
+  const lines = splitFrontmatter(skillMd.content).body.split('\n');
   for (const line of lines) {
     const trimmed = line.trim();
     // Skip empty lines and markdown headings
@@ -89,134 +192,423 @@ function extractDescription(skillFolder: SkillFolder): string | undefined {
   return undefined;
 }
 
+/**
+ * Content of a folder file as imported under a name
+ * SKILL.md naming another skill in its frontmatter is renamed to match, since the skill
+ * service takes a skill's name from an updated SKILL.md.
+ */
+function importedContent(file: ExtractedFile, name: string): string {
+  if (file.isBinary || file.path !== 'SKILL.md') return file.content;
+  const declared = parseSkillManifest(file.content).manifest.name;
+  return declared && declared !== name ? setManifestName(file.content, name) : file.content;
+}
+
+/**
+ * Convert folder files to skill files format for importing under a name
+ * Binary files travel base64-encoded and are stored as assets;
+ * flags recorded in an export manifest take precedence over inference
+ */
+function toImportFiles(folder: SkillFolder, name: string): ImportFile[] {
+  return folder.files.map((f) => ({
+    path: f.path,
+    content: importedContent(f, name),
+    encoding: f.isBinary ? ('base64' as const) : undefined,
+    is_executable: f.isExecutable ?? (!f.isBinary && isExecutable(f.path)),
+    script_language:
+      (f.scriptLanguage !== undefined ? f.scriptLanguage : f.isBinary ? null : getScriptLanguage(f.path)) ??
+      undefined,
+    run_instructions_for_ai: f.runInstructionsForAi ?? undefined,
+  }));
+}
+
+/**
+ * Latest version of the skill with this name, or null if there is none
+ */
+async function findExistingSkill(skillService: SkillService, name: string): Promise<SkillDetail | null> {
+  try {
+    return await skillService.getSkill(name);
+  } catch (err) {
+    if (isAppError(err) && err.code === 'NOT_FOUND') return null;
+    throw err;
+  }
+}
+
+/**
+ * Skill folders and rejected entries read from an archive
+ */
+interface ArchiveContents {
+  skillFolders: SkillFolder[];
+  rejected: RejectedEntry[];
+}
+
+/**
+ * Detect the format of an upload and read its skill folders
+ * The file name names a skill at the archive root without a frontmatter name.
+ */
+function readArchive(buffer: ArrayBuffer, filename?: string | null): ArchiveContents {
+  // Detect the format from the content, whatever the file is called
+  const format = detectArchiveFormat(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 512)));
+  if (!format) {
+    throw validationError('File must be a ZIP, .skill, tar or tar.gz archive');
+  }
+
+  // Parse archive contents (Requirement 1.2)
+  let parsedZip: ParsedZip;
+  try {
+    parsedZip = parseArchive(buffer, format);
+  } catch (err) {
+    throw validationError(`Could not read ${format} archive: ${err instanceof Error ? err.message : 'invalid data'}`);
+  }
+
+  // Extract skill folders (Requirement 1.5)
+  return {
+    skillFolders: extractSkillFolders(parsedZip, filename ? archiveBaseName(filename) : undefined),
+    rejected: parsedZip.rejected,
+  };
+}
+
+/**
+ * Read the skill folders of a session from its raw upload
+ */
+async function loadSession(
+  sessionStore: SessionStore,
+  sessionId: string
+): Promise<ArchiveContents & { session: SessionData; upload: ArrayBuffer }> {
+  const session = await sessionStore.get(sessionId);
+  const upload = session && (await sessionStore.getUpload(sessionId));
+  if (!session || !upload) {
+    throw validationError('Session not found or expired');
+  }
+  return { session, upload, ...readArchive(upload, session.filename) };
+}
+
+/**
+ * Name a folder is imported as: the name chosen for it, else the detected one
+ */
+function targetName(folder: SkillFolder, names?: Record<string, string>): string {
+  return names?.[folder.name]?.trim() || folder.name;
+}
+
+/**
+ * Validate each skill folder and build previews (Requirement 1.6)
+ * Each folder is compared with the skill of the name it would be imported as.
+ */
+async function buildPreviews(
+  skillService: SkillService,
+  skillFolders: SkillFolder[],
+  names?: Record<string, string>
+): Promise<SkillPreview[]> {
+  const previews: SkillPreview[] = [];
+  for (const folder of skillFolders) {
+    const validation = validateSkillFolder(folder);
+    const preview: SkillPreview = {
+      name: folder.name,
+      path: folder.path,
+      valid: validation.valid,
+      file_count: folder.files.length,
+      errors: validation.errors,
+      description: validation.valid ? (folder.description ?? extractDescription(folder)) : undefined,
+    };
+
+    // Compare with the skill it would update
+    const existing = validation.valid ? await findExistingSkill(skillService, targetName(folder, names)) : null;
+    if (existing) {
+      const files = toImportFiles(folder, targetName(folder, names));
+      const { changes } = await computeChangeset(existing.files, files, 'replace');
+      preview.existing_version = existing.version.version_number;
+      preview.changes = changes;
+      preview.description_changed =
+        folder.description != null && folder.description !== existing.description;
+    }
+
+    previews.push(preview);
+  }
+  return previews;
+}
+
 /**
  * Create an upload service instance
  */
 export function createUploadService(
   sessionStore: SessionStore,
-  skillService: SkillService
+  skillService: SkillService,
+  jobStore: ImportJobStore,
+  queue: Queue<ImportJobMessage>
 ): UploadService {
+  /**
+   * Queue skills of a job for import, a few per message
+   */
+  async function enqueue(jobId: string, skills: string[], attribution?: VersionAttribution): Promise<void> {
+    const messages: MessageSendRequest<ImportJobMessage>[] = [];
+    for (let i = 0; i < skills.length; i += IMPORT_MESSAGE_SKILLS) {
+      messages.push({ body: { job_id: jobId, skills: skills.slice(i, i + IMPORT_MESSAGE_SKILLS), attribution } });
+    }
+    for (let i = 0; i < messages.length; i += QUEUE_SEND_BATCH_SIZE) {
+      await queue.sendBatch(messages.slice(i, i + QUEUE_SEND_BATCH_SIZE));
+    }
+  }
+
+  /**
+   * Job by ID, throwing NOT_FOUND if it does not exist or expired
+   */
+  async function requireJob(jobId: string): Promise<ImportJob> {
+    const job = await jobStore.get(jobId);
+    if (!job) {
+      throw notFound('Import job');
+    }
+    return job;
+  }
+
   return {
     /**
      * Parse ZIP and create session with skill previews
      * Requirements: 1.2, 1.6, 1.7
      */
-    async parseZip(buffer: ArrayBuffer): Promise<ParseResult> {
+    async parseZip(buffer: ArrayBuffer, filename?: string): Promise<ParseResult> {
       // Validate ZIP size (Requirement 1.3)
       const sizeValidation = validateZipSize(buffer.byteLength);
       if (!sizeValidation.valid) {
         throw validationError(sizeValidation.errors[0]);
       }
 
-      // Parse ZIP contents (Requirement 1.2)
-      const parsedZip = parseZip(buffer);
+      const archive = readArchive(buffer, filename);
 
-      // Extract skill folders (Requirement 1.5)
-      const skillFolders = extractSkillFolders(parsedZip);
+      // Store the raw upload in session (Requirement 1.7)
+      const session = await sessionStore.create(buffer, filename);
 
-      // Validate each skill folder and build previews (Requirement 1.6)
-      const previews: SkillPreview[] = skillFolders.map((folder) => {
-        const validation = validateSkillFolder(folder);
-        const textFiles = folder.files.filter((f) => !f.isBinary);
-
-        return {
-          name: folder.name,
-          valid: validation.valid,
-          file_count: textFiles.length,
-          errors: validation.errors,
-          description: validation.valid ? extractDescription(folder) : undefined,
-        };
-      });
+      return {
+        session_id: session.id,
+        skills: await buildPreviews(skillService, archive.skillFolders),
+        rejected: archive.rejected,
+        expires_at: session.expires_at,
+      };
+    },
 
-      // Store in session (Requirement 1.7)
-      const sessionId = await sessionStore.create(skillFolders);
-      const expiresAt = Date.now() + SESSION_TTL;
+    async getSession(sessionId: string, names?: Record<string, string>): Promise<ParseResult> {
+      const { session, skillFolders, rejected } = await loadSession(sessionStore, sessionId);
 
       return {
-        session_id: sessionId,
-        skills: previews,
-        expires_at: expiresAt,
+        session_id: session.id,
+        skills: await buildPreviews(skillService, skillFolders, names),
+        rejected,
+        expires_at: session.expires_at,
       };
     },
 
     /**
-     * Process selected skills from session
-     * Requirements: 3.4, 3.5, 3.6, 3.7
+     * Start importing selected skills from session
+     * Requirements: 3.4, 3.6, 3.7
      */
-    async processSelected(
+    async startImport(
       sessionId: string,
-      selectedSkills: string[]
-    ): Promise<ProcessResult> {
+      selectedSkills: string[],
+      options: ProcessOptions = {},
+      attribution?: VersionAttribution
+    ): Promise<ImportJob> {
       // Get session data (Requirement 5.7)
-      const session = await sessionStore.get(sessionId);
-      if (!session) {
-        throw validationError('Session not found or expired');
-      }
-
-      const results: SkillImportResult[] = [];
+      const { session, upload, skillFolders } = await loadSession(sessionStore, sessionId);
 
       // Filter to only selected skills (Requirement 3.4)
-      const selectedFolders = session.skills.filter((folder) =>
+      const selectedFolders = skillFolders.filter((folder) =>
         selectedSkills.includes(folder.name)
       );
 
+      // Names chosen in the preview replace detected ones; two folders cannot become one skill
+      const targetNames = new Set<string>();
       for (const folder of selectedFolders) {
-        // Validate folder before processing
-        const validation = validateSkillFolder(folder);
-        if (!validation.valid) {
-          results.push({
-            name: folder.name,
-            status: 'failed',
-            error: validation.errors.join('; '),
-          });
-          continue;
-        }
-
-        try {
-          // Convert folder files to skill files format
-          const files = folder.files
-            .filter((f) => !f.isBinary)
-            .map((f) => ({
-              path: f.path,
-              content: f.content,
-              is_executable: isExecutable(f.path),
-              script_language: getScriptLanguage(f.path) ?? undefined,
-            }));
-
-          // Try to create or update skill
-          const result = await createOrUpdateSkill(
-            skillService,
-            folder.name,
-            files
-          );
-
-          results.push(result);
-        } catch (err) {
-          results.push({
-            name: folder.name,
-            status: 'failed',
-            error: err instanceof Error ? err.message : 'Unknown error',
-          });
+        const name = targetName(folder, options.names);
+        if (targetNames.has(name)) {
+          throw validationError(`More than one selected skill is named "${name}"`);
         }
+        targetNames.add(name);
       }
 
-      // Delete session after processing
+      // Invalid folders are recorded as failed rather than queued
+      const items = selectedFolders.map((folder) => {
+        const validation = validateSkillFolder(folder);
+        return {
+          source_name: folder.name,
+          name: targetName(folder, options.names),
+          error: validation.valid ? undefined : validation.errors.join('; '),
+        };
+      });
+
+      const job = await jobStore.create(upload, session.filename, options.strategy ?? 'replace', items);
+      await enqueue(
+        job.id,
+        items.filter((item) => !item.error).map((item) => item.source_name),
+        attribution
+      );
+
+      // The job keeps its own copy of the upload
       await sessionStore.delete(sessionId);
 
-      // Build summary (Requirement 3.6)
-      const successful = results.filter((r) => r.status === 'success').length;
+      return job;
+    },
 
-      return {
-        total: results.length,
-        successful,
-        failed: results.length - successful,
-        results,
-      };
+    async getJob(jobId: string): Promise<ImportJob> {
+      return requireJob(jobId);
+    },
+
+    async retryJob(jobId: string, attribution?: VersionAttribution): Promise<ImportJob> {
+      const job = await requireJob(jobId);
+      if (job.failed === 0) {
+        throw validationError('Import job has no failed skills');
+      }
+
+      await enqueue(jobId, await jobStore.resetFailed(jobId), attribution);
+      return requireJob(jobId);
+    },
+
+    async runImport(message: ImportJobMessage): Promise<void> {
+      // Jobs past their TTL are dropped
+      const job = await jobStore.get(message.job_id);
+      if (!job) return;
+
+      const upload = await jobStore.getUpload(job.id);
+      const skillFolders = upload ? readArchive(upload, job.filename).skillFolders : [];
+
+      for (const sourceName of message.skills) {
+        // Messages can be delivered more than once; imported skills are not imported again
+        const item = job.results.find((i) => i.source_name === sourceName);
+        if (!item || item.status === 'success') continue;
+
+        await jobStore.startItem(job.id, sourceName);
+        const folder = skillFolders.find((f) => f.name === sourceName);
+        const result: SkillImportResult = folder
+          ? await importFolder(skillService, folder, item.name, job.strategy, message.attribution)
+          : { name: item.name, status: 'failed', error: 'Skill not found in the uploaded archive' };
+        await jobStore.finishItem(job.id, sourceName, result);
+      }
+    },
+
+    async abandonImport(message: ImportJobMessage, error: string): Promise<void> {
+      await jobStore.failUnfinished(message.job_id, message.skills, error);
+    },
+
+    async diffFile(sessionId: string, skillName: string, path: string, target?: string): Promise<ImportFileDiff> {
+      const { skillFolders } = await loadSession(sessionStore, sessionId);
+
+      const folder = skillFolders.find((f) => f.name === skillName);
+      if (!folder) {
+        throw notFound('Skill');
+      }
+      const name = target?.trim() || skillName;
+      const existing = await findExistingSkill(skillService, name);
+      const incoming = folder.files.find((f) => f.path === path);
+      const current = existing?.files.find((f) => f.path === path);
+      if (!incoming && !current) {
+        throw notFound('File');
+      }
+
+      const status = !current ? 'added' : !incoming ? 'removed' : 'modified';
+      const fromLabel = existing ? `a/${path} (v${existing.version.version_number})` : `a/${path}`;
+      const toLabel = `b/${path} (upload)`;
+
+      // Binary content is only compared by hash
+      if (incoming?.isBinary || current?.is_binary) {
+        const same =
+          incoming?.isBinary &&
+          current?.is_binary &&
+          (await sha256Hex(decodeBase64(incoming.content))) === current.content_hash;
+        return { path, status, diff: same ? '' : `Binary files ${fromLabel} and ${toLabel} differ\n` };
+      }
+
+      const before = current ? (await skillService.getFile(existing!.id, path)).content : '';
+      const after = incoming ? importedContent(incoming, name) : '';
+      return { path, status, diff: unifiedDiff(before, after, fromLabel, toLabel) };
     },
   };
 }
 
 
+/**
+ * Check whether an imported file differs from the stored one
+ * Flags a plain ZIP cannot carry (no script language, no run instructions) keep their stored values.
+ */
+async function fileChanged(existing: SkillDetail['files'][number], file: ImportFile): Promise<boolean> {
+  const isBinary = file.encoding === 'base64';
+  if (isBinary !== existing.is_binary) return true;
+
+  const hash = await sha256Hex(isBinary ? decodeBase64(file.content) : file.content);
+  return (
+    hash !== existing.content_hash ||
+    file.is_executable !== existing.is_executable ||
+    (file.script_language !== undefined && file.script_language !== existing.script_language) ||
+    (file.run_instructions_for_ai !== undefined &&
+      file.run_instructions_for_ai !== existing.run_instructions_for_ai)
+  );
+}
+
+/**
+ * Compute the file changes that apply a folder to the latest version of a skill
+ */
+async function computeChangeset(
+  currentFiles: SkillDetail['files'],
+  files: ImportFile[],
+  strategy: ImportStrategy
+): Promise<{ fileChanges: FileChange[]; changes: ImportChanges }> {
+  const currentByPath = new Map(currentFiles.map((f) => [f.path, f]));
+  const fileChanges: FileChange[] = [];
+  const changes: ImportChanges = { added: [], updated: [], deleted: [] };
+
+  for (const file of files) {
+    const existing = currentByPath.get(file.path);
+    if (!existing) {
+      fileChanges.push({ type: 'add', ...file });
+      changes.added.push(file.path);
+    } else if (await fileChanged(existing, file)) {
+      fileChanges.push({ type: 'update', ...file });
+      changes.updated.push(file.path);
+    }
+  }
+
+  if (strategy === 'replace') {
+    const imported = new Set(files.map((f) => f.path));
+    for (const file of currentFiles) {
+      if (!imported.has(file.path)) {
+        fileChanges.push({ type: 'delete', path: file.path });
+        changes.deleted.push(file.path);
+      }
+    }
+  }
+
+  return { fileChanges, changes };
+}
+
+/**
+ * Import a skill folder, reporting failures in the result
+ * Requirements: 3.6
+ */
+async function importFolder(
+  skillService: SkillService,
+  folder: SkillFolder,
+  name: string,
+  strategy: ImportStrategy,
+  attribution?: VersionAttribution
+): Promise<SkillImportResult> {
+  // Validate folder before processing
+  const validation = validateSkillFolder(folder);
+  if (!validation.valid) {
+    return { name, status: 'failed', error: validation.errors.join('; ') };
+  }
+
+  try {
+    // Try to create or update skill
+    return await createOrUpdateSkill(
+      skillService,
+      name,
+      toImportFiles(folder, name),
+      folder.description ?? undefined,
+      folder.tags,
+      strategy,
+      attribution
+    );
+  } catch (err) {
+    return { name, status: 'failed', error: err instanceof Error ? err.message : 'Unknown error' };
+  }
+}
+
 /**
  * Create a new skill or update existing one (create new version)
  * Requirements: 3.5, 3.7
@@ -224,20 +616,24 @@ export function createUploadService(
 async function createOrUpdateSkill(
   skillService: SkillService,
   name: string,
-  files: Array<{
-    path: string;
-    content: string;
-    is_executable: boolean;
-    script_language?: string;
-  }>
+  files: ImportFile[],
+  description: string | undefined,
+  tags: string[] | undefined,
+  strategy: ImportStrategy,
+  attribution?: VersionAttribution
 ): Promise<SkillImportResult> {
   try {
     // Try to create new skill first
-    const skill = await skillService.createSkill({
-      name,
-      files,
-      changelog: 'Imported via ZIP upload',
-    });
+    const skill = await skillService.createSkill(
+      {
+        name,
+        description,
+        tags,
+        files,
+        changelog: 'Imported via ZIP upload',
+      },
+      attribution
+    );
 
     return {
       name,
@@ -245,22 +641,48 @@ async function createOrUpdateSkill(
       skill_id: skill.id,
       version: skill.version.version_number,
       is_new: true,
+      changes: { added: files.map((f) => f.path), updated: [], deleted: [] },
     };
   } catch (err) {
     // If skill already exists (CONFLICT), create new version (Requirement 3.5)
-    if (err instanceof Error && err.message.includes('already exists')) {
-      // Update existing skill with new version
-      const updated = await skillService.updateSkill({
-        skill_id: name, // Can use name to lookup
-        file_changes: files.map((f) => ({
-          type: 'update' as const,
-          path: f.path,
-          content: f.content,
-          is_executable: f.is_executable,
-          script_language: f.script_language,
-        })),
-        changelog: 'Updated via ZIP upload',
-      });
+    if (isAppError(err) && err.code === 'CONFLICT') {
+      // Importing does not bring a skill back from the trash
+      if (err.details?.in_trash) {
+        throw conflict(`Skill "${name}" is in the trash; restore it before importing it again`);
+      }
+
+      // Diff the folder against the latest version (can use name to lookup)
+      const existing = await skillService.getSkill(name);
+      const { fileChanges, changes } = await computeChangeset(existing.files, files, strategy);
+
+      // Nothing to change: keep the current version rather than adding an identical one
+      if (
+        fileChanges.length === 0 &&
+        (description === undefined || description === existing.description) &&
+        (tags === undefined || tags.join(',') === existing.tags.join(','))
+      ) {
+        return {
+          name,
+          status: 'success',
+          skill_id: existing.id,
+          version: existing.version.version_number,
+          is_new: false,
+          changes,
+        };
+      }
+
+      // Update existing skill with new version, based on the version diffed above
+      const updated = await skillService.updateSkill(
+        {
+          skill_id: existing.id,
+          description,
+          tags,
+          file_changes: fileChanges,
+          changelog: 'Updated via ZIP upload',
+          expected_version: existing.version.version_number,
+        },
+        attribution
+      );
 
       return {
         name,
@@ -268,6 +690,7 @@ async function createOrUpdateSkill(
         skill_id: updated.id,
         version: updated.version.version_number,
         is_new: false,
+        changes,
       };
     }
 
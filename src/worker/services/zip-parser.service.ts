@@ -1,10 +1,31 @@
 /**
  * ZIP Parser Service for extracting skill folders from ZIP files
+ * Tar and gzip-compressed tar archives are read into the same entries as ZIPs.
+ *
+ * Archives are untrusted: entry paths are normalized and unsafe ones rejected, OS junk
+ * is ignored, and decompression is streamed so the entry count and size limits stop
+ * an archive as soon as it exceeds them rather than after it is fully expanded.
  * Requirements: 1.2, 1.5, 6.3
  */
 
-import { unzipSync } from 'fflate';
+import { Unzip, UnzipInflate, Gunzip } from 'fflate';
+import { isTar, parseTar } from '../lib/tar';
+import { normalizeFilePath, validateFilePath } from '../lib/validation';
+import { UPLOAD_CONSTRAINTS } from '../lib/upload-validation';
 import { isBinary } from '../lib/file-type';
+import { encodeBase64 } from '../lib/base64';
+import { parseSkillManifest } from '../lib/skill-manifest';
+import {
+  parseExportManifest,
+  EXPORT_MANIFEST_PATH,
+  type ExportManifestFile,
+  type ExportManifestSkill,
+} from '../lib/export-manifest';
+
+/**
+ * Archive formats accepted for upload (.skill files are ZIPs)
+ */
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
 
 /**
  * Represents a single entry in a parsed ZIP file
@@ -15,11 +36,20 @@ export interface ZipEntry {
   isDirectory: boolean;
 }
 
+/**
+ * An archive entry left out of the upload, with the reason
+ */
+export interface RejectedEntry {
+  path: string; // as named in the archive
+  reason: string;
+}
+
 /**
  * Result of parsing a ZIP file
  */
 export interface ParsedZip {
   files: ZipEntry[];
+  rejected: RejectedEntry[];
   totalSize: number;
 }
 
@@ -28,8 +58,12 @@ export interface ParsedZip {
  */
 export interface ExtractedFile {
   path: string;           // relative path within skill folder
-  content: string;        // text content (decoded)
-  isBinary: boolean;      // true if binary file (content will be empty)
+  content: string;        // text content (decoded), or base64 for binary files
+  isBinary: boolean;      // true if binary file
+  // Recorded in an export manifest; inferred from the path when absent
+  isExecutable?: boolean;
+  scriptLanguage?: string | null;
+  runInstructionsForAi?: string | null;
 }
 
 /**
@@ -37,93 +71,408 @@ export interface ExtractedFile {
  */
 export interface SkillFolder {
   name: string;
+  path: string; // directory of SKILL.md within the ZIP, with a trailing slash ('' for the root)
   files: ExtractedFile[];
+  description?: string | null; // from an export manifest
+  tags?: string[]; // from an export manifest
+}
+
+/**
+ * Input bytes fed to a decompressor at a time
+ * Bounds the output of a single step (deflate expands at most ~1032:1) so limits are checked often.
+ */
+const DECOMPRESS_CHUNK_SIZE = 8 * 1024;
+
+/**
+ * Entries created by operating systems rather than by the skill author; skipped silently
+ */
+const JUNK_DIRECTORIES = new Set(['__MACOSX']);
+const JUNK_FILES = new Set(['.DS_Store', 'Thumbs.db', 'desktop.ini']);
+
+/**
+ * Check whether a normalized path is OS junk (macOS resource forks and metadata, Windows thumbnails)
+ */
+function isJunkPath(path: string): boolean {
+  const segments = path.split('/');
+  const name = segments[segments.length - 1];
+  return segments.some((segment) => JUNK_DIRECTORIES.has(segment)) || JUNK_FILES.has(name) || name.startsWith('._');
+}
+
+/**
+ * Collects the entries of an archive while it is read, applying path rules and upload limits
+ * @throws Error from accept() or count() once the archive exceeds the entry count or total size limit
+ */
+function createEntryCollector() {
+  const files: ZipEntry[] = [];
+  const rejected: RejectedEntry[] = [];
+  const paths = new Set<string>();
+  let entryCount = 0;
+  let totalSize = 0;
+
+  return {
+    /**
+     * Register an entry by its name in the archive
+     * @returns the normalized path to read the entry under, or null to skip it
+     */
+    accept(name: string): string | null {
+      if (++entryCount > UPLOAD_CONSTRAINTS.MAX_ARCHIVE_ENTRIES) {
+        throw new Error(`Archive contains more than ${UPLOAD_CONSTRAINTS.MAX_ARCHIVE_ENTRIES} entries`);
+      }
+
+      const path = normalizeFilePath(name);
+      if (isJunkPath(path)) return null;
+      if (name.endsWith('/') || name.endsWith('\\')) {
+        if (path && !path.startsWith('/')) {
+          files.push({ path: `${path}/`, content: new Uint8Array(0), isDirectory: true });
+        }
+        return null;
+      }
+
+      const { errors } = validateFilePath(path);
+      if (errors.length > 0) {
+        rejected.push({ path: name, reason: errors.join('; ') });
+        return null;
+      }
+      if (paths.has(path)) {
+        rejected.push({ path: name, reason: `Duplicate of "${path}"` });
+        return null;
+      }
+      paths.add(path);
+      return path;
+    },
+
+    /**
+     * Count decompressed bytes of an entry
+     * @returns false, after rejecting the entry, once the entry exceeds the per-file limit
+     */
+    count(name: string, entrySize: number, bytes: number): boolean {
+      totalSize += bytes;
+      if (totalSize > UPLOAD_CONSTRAINTS.MAX_UNCOMPRESSED_SIZE) {
+        throw new Error(
+          `Archive expands to more than ${UPLOAD_CONSTRAINTS.MAX_UNCOMPRESSED_SIZE / (1024 * 1024)}MB`
+        );
+      }
+      if (entrySize > UPLOAD_CONSTRAINTS.MAX_ASSET_SIZE) {
+        rejected.push({
+          path: name,
+          reason: `Exceeds maximum file size of ${UPLOAD_CONSTRAINTS.MAX_ASSET_SIZE / (1024 * 1024)}MB`,
+        });
+        return false;
+      }
+      return true;
+    },
+
+    add(path: string, content: Uint8Array): void {
+      files.push({ path, content, isDirectory: false });
+    },
+
+    result(): ParsedZip {
+      return { files, rejected, totalSize };
+    },
+  };
+}
+
+/**
+ * Join chunks of decompressed data
+ */
+function concatChunks(chunks: Uint8Array[], size: number): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  const result = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Feed bytes to a streaming decompressor in small chunks
+ */
+function pushInChunks(stream: { push(chunk: Uint8Array, final?: boolean): void }, bytes: Uint8Array): void {
+  if (bytes.length === 0) {
+    stream.push(bytes, true);
+    return;
+  }
+  for (let offset = 0; offset < bytes.length; offset += DECOMPRESS_CHUNK_SIZE) {
+    stream.push(bytes.subarray(offset, offset + DECOMPRESS_CHUNK_SIZE), offset + DECOMPRESS_CHUNK_SIZE >= bytes.length);
+  }
 }
 
 /**
  * Parse a ZIP file buffer and extract its contents
  * @param buffer - ArrayBuffer containing the ZIP file data
- * @returns ParsedZip with all entries and total size
- * @throws Error if the buffer is not a valid ZIP file
+ * @returns ParsedZip with the accepted entries, rejected entries and total size
+ * @throws Error if the buffer is not a valid ZIP file or exceeds the upload limits
  */
 export function parseZip(buffer: ArrayBuffer): ParsedZip {
-  const uint8Array = new Uint8Array(buffer);
-  
-  // fflate.unzipSync returns an object with path keys and Uint8Array values
-  const unzipped = unzipSync(uint8Array);
-  
-  const files: ZipEntry[] = [];
-  let totalSize = 0;
-  
-  for (const [path, content] of Object.entries(unzipped)) {
-    const isDirectory = path.endsWith('/');
-    totalSize += content.length;
-    
-    files.push({
-      path,
-      content,
-      isDirectory,
-    });
+  const collector = createEntryCollector();
+  let pending = 0;
+
+  const unzip = new Unzip((file) => {
+    const path = collector.accept(file.name);
+    if (path === null) return; // never started, so its data is skipped
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    pending++;
+    file.ondata = (err, data, final) => {
+      if (err) throw err;
+      size += data.length;
+      if (!collector.count(file.name, size, data.length)) {
+        pending--;
+        file.terminate();
+        return;
+      }
+      chunks.push(data);
+      if (final) {
+        pending--;
+        collector.add(path, concatChunks(chunks, size));
+      }
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+  pushInChunks(unzip, new Uint8Array(buffer));
+
+  if (pending > 0) {
+    throw new Error('ZIP archive is truncated');
   }
-  
-  return { files, totalSize };
+  return collector.result();
 }
 
+/**
+ * Decompress a gzip stream, stopping once the output exceeds a limit
+ */
+function gunzipLimited(bytes: Uint8Array, maxSize: number): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const gunzip = new Gunzip((data) => {
+    size += data.length;
+    if (size > maxSize) {
+      throw new Error(`Archive expands to more than ${UPLOAD_CONSTRAINTS.MAX_UNCOMPRESSED_SIZE / (1024 * 1024)}MB`);
+    }
+    chunks.push(data);
+  });
+  pushInChunks(gunzip, bytes);
+  return concatChunks(chunks, size);
+}
+
+/**
+ * Parse a tar archive, applying the same rules and limits as parseZip
+ */
+function parseTarArchive(bytes: Uint8Array): ParsedZip {
+  const collector = createEntryCollector();
+  for (const entry of parseTar(bytes)) {
+    const path = collector.accept(entry.path);
+    if (path !== null && collector.count(entry.path, entry.content.length, entry.content.length)) {
+      collector.add(path, entry.content);
+    }
+  }
+  return collector.result();
+}
+
+/**
+ * Detect an archive format from its leading bytes
+ * @returns null if the bytes are not a ZIP, tar or gzip stream
+ */
+export function detectArchiveFormat(bytes: Uint8Array): ArchiveFormat | null {
+  // Local file header, or end of central directory for an empty ZIP
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && (bytes[2] === 0x03 || bytes[2] === 0x05)) {
+    return 'zip';
+  }
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    return 'tar.gz';
+  }
+  if (isTar(bytes)) {
+    return 'tar';
+  }
+  return null;
+}
+
+/**
+ * Parse a ZIP, tar or tar.gz archive into the entries of a ParsedZip
+ * @throws Error if the archive is corrupt, or a gzip stream does not contain a tar archive
+ */
+export function parseArchive(buffer: ArrayBuffer, format: ArchiveFormat): ParsedZip {
+  if (format === 'zip') {
+    return parseZip(buffer);
+  }
+
+  let tar = new Uint8Array(buffer);
+  if (format === 'tar.gz') {
+    // Headers and padding take up to two blocks per entry on top of the content
+    tar = gunzipLimited(
+      tar,
+      UPLOAD_CONSTRAINTS.MAX_UNCOMPRESSED_SIZE + UPLOAD_CONSTRAINTS.MAX_ARCHIVE_ENTRIES * 1024
+    );
+    if (!isTar(tar)) {
+      throw new Error('gzip file does not contain a tar archive');
+    }
+  }
+
+  return parseTarArchive(tar);
+}
+
+/**
+ * Skill name used when SKILL.md is at the ZIP root and names no skill
+ */
+const DEFAULT_SKILL_NAME = 'skill';
+
+/**
+ * Locate skill roots: the skill folders of an export manifest, then every directory
+ * containing a SKILL.md that is not inside another skill root
+ * A SKILL.md below a skill root (e.g. templates/SKILL.md) is a file of that skill.
+ * @param manifestRoots - skill folders named by the export manifest, without a trailing slash
+ * @returns directory paths with a trailing slash ('' for the ZIP root)
+ */
+function findSkillRoots(zip: ParsedZip, manifestRoots: Iterable<string>): string[] {
+  const candidates = new Set<string>();
+  for (const entry of zip.files) {
+    if (entry.isDirectory) continue;
+    const slash = entry.path.lastIndexOf('/');
+    if (entry.path.slice(slash + 1).toLowerCase() === 'skill.md') {
+      candidates.add(entry.path.slice(0, slash + 1));
+    }
+  }
+
+  // Manifest folders are roots as long as the archive has files in them
+  const roots = Array.from(manifestRoots, (name) => `${name}/`).filter((root) =>
+    zip.files.some((entry) => !entry.isDirectory && entry.path.startsWith(root))
+  );
+
+  // Shallowest first, so a SKILL.md inside an accepted root is never a root of its own
+  for (const candidate of Array.from(candidates).sort((a, b) => a.length - b.length || a.localeCompare(b))) {
+    if (!roots.some((root) => candidate.startsWith(root))) {
+      roots.push(candidate);
+    }
+  }
+  return roots.sort();
+}
+
+/**
+ * Name of the skill at a root: its directory name, or for the ZIP root the
+ * frontmatter name of SKILL.md, falling back to the archive name
+ */
+function skillName(root: string, files: ExtractedFile[], archiveName?: string): string {
+  if (root) {
+    return root.slice(0, -1).split('/').pop()!;
+  }
+  const skillMd = files.find((f) => !f.isBinary && f.path.toLowerCase() === 'skill.md');
+  return (skillMd && parseSkillManifest(skillMd.content).manifest.name) || archiveName || DEFAULT_SKILL_NAME;
+}
 
 /**
  * Extract skill folders from a parsed ZIP
- * Each root-level folder is treated as a separate skill
+ * Each skill folder of an export manifest and each directory containing a SKILL.md outside
+ * any other skill is a skill with every file below it; files outside any skill are ignored.
+ * Names are made unique by suffixing -2, -3, ... in path order.
  * @param zip - ParsedZip result from parseZip
+ * @param archiveName - name of a skill whose SKILL.md is at the ZIP root and names no skill
  * @returns Array of SkillFolder objects
  */
-export function extractSkillFolders(zip: ParsedZip): SkillFolder[] {
-  // Group files by their root folder
-  const folderMap = new Map<string, ExtractedFile[]>();
-  
+export function extractSkillFolders(zip: ParsedZip, archiveName?: string): SkillFolder[] {
+  const manifest = readManifest(zip);
+  const roots = findSkillRoots(zip, manifest.keys());
+  // Deepest first, so a manifest folder inside a root SKILL.md's directory claims its files
+  const matchOrder = [...roots].sort((a, b) => b.length - a.length);
+
+  // Group files by their skill root
+  const folderMap = new Map<string, ExtractedFile[]>(roots.map((root) => [root, []]));
+
   for (const entry of zip.files) {
-    // Skip directory entries themselves
+    // Skip directory entries themselves and the export manifest
     if (entry.isDirectory) continue;
-    
-    // Get the root folder name (first path segment)
-    const pathParts = entry.path.split('/');
-    if (pathParts.length < 2) {
-      // File at root level of ZIP, not in a folder - skip
+    if (entry.path === EXPORT_MANIFEST_PATH && manifest.size > 0) continue;
+
+    const root = matchOrder.find((r) => entry.path.startsWith(r));
+    if (root === undefined) {
+      // Not inside any skill - skip
       continue;
     }
-    
-    const rootFolder = pathParts[0];
-    // Get relative path within the skill folder (excluding root folder name)
-    const relativePath = pathParts.slice(1).join('/');
-    
-    if (!folderMap.has(rootFolder)) {
-      folderMap.set(rootFolder, []);
-    }
-    
-    // Check if file is binary
-    const fileisBinary = isBinary(entry.content);
-    
-    // Decode text content or leave empty for binary
-    let textContent = '';
-    if (!fileisBinary) {
-      textContent = decodeTextContent(entry.content);
-    }
-    
-    folderMap.get(rootFolder)!.push({
+
+    // Get relative path within the skill folder
+    const relativePath = entry.path.slice(root.length);
+
+    // Check if file is binary (as exported, when the manifest says)
+    const meta = manifest.get(root.slice(0, -1))?.files.get(relativePath);
+    const fileisBinary = meta?.is_binary ?? isBinary(entry.content);
+
+    // Decode text content; binary content is kept as base64
+    const content = fileisBinary ? encodeBase64(entry.content) : decodeTextContent(entry.content);
+
+    folderMap.get(root)!.push({
       path: relativePath,
-      content: textContent,
+      content,
       isBinary: fileisBinary,
+      ...(meta && {
+        isExecutable: meta.is_executable,
+        scriptLanguage: meta.script_language,
+        runInstructionsForAi: meta.run_instructions_for_ai,
+      }),
     });
   }
-  
+
   // Convert map to array of SkillFolder objects
   const skillFolders: SkillFolder[] = [];
-  for (const [name, files] of folderMap) {
-    skillFolders.push({ name, files });
+  const names = new Set<string>();
+  for (const [root, files] of folderMap) {
+    const detected = skillName(root, files, archiveName);
+    let name = detected;
+    for (let n = 2; names.has(name); n++) {
+      name = `${detected}-${n}`;
+    }
+    names.add(name);
+
+    const skill = manifest.get(root.slice(0, -1));
+    skillFolders.push(
+      skill
+        ? { name, path: root, files, description: skill.description, ...(skill.tags ? { tags: skill.tags } : {}) }
+        : { name, path: root, files }
+    );
   }
-  
+
   return skillFolders;
 }
 
+/**
+ * Read the export manifest, if the ZIP has one, indexed by skill folder and file path
+ * Malformed entries are ignored so that their files fall back to inference
+ */
+function readManifest(
+  zip: ParsedZip
+): Map<string, { description: string | null; tags?: string[]; files: Map<string, ExportManifestFile> }> {
+  const result = new Map<string, { description: string | null; tags?: string[]; files: Map<string, ExportManifestFile> }>();
+  const entry = zip.files.find((f) => f.path === EXPORT_MANIFEST_PATH);
+  const manifest = entry ? parseExportManifest(entry.content) : null;
+  if (!manifest) return result;
+
+  for (const skill of manifest.skills as Partial<ExportManifestSkill>[]) {
+    if (typeof skill?.name !== 'string' || !Array.isArray(skill.files)) continue;
+
+    const files = new Map<string, ExportManifestFile>();
+    for (const file of skill.files) {
+      if (
+        typeof file?.path === 'string' &&
+        typeof file.is_binary === 'boolean' &&
+        typeof file.is_executable === 'boolean' &&
+        (file.script_language === null || typeof file.script_language === 'string') &&
+        (file.run_instructions_for_ai === null || typeof file.run_instructions_for_ai === 'string')
+      ) {
+        files.set(file.path, file);
+      }
+    }
+    result.set(skill.name, {
+      description: typeof skill.description === 'string' ? skill.description : null,
+      tags:
+        Array.isArray(skill.tags) && skill.tags.every((tag) => typeof tag === 'string') ? skill.tags : undefined,
+      files,
+    });
+  }
+
+  return result;
+}
+
 /**
  * Decode Uint8Array content to string (UTF-8)
  * @param content - Uint8Array of file content
@@ -140,6 +489,8 @@ function decodeTextContent(content: Uint8Array): string {
 export function createZipParserService() {
   return {
     parseZip,
+    parseArchive,
+    detectArchiveFormat,
     extractSkillFolders,
   };
 }
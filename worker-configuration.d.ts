@@ -1,15 +1,24 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: 200d2dbf5265dab3daa2d4d1bd60357d)
+// Generated by Wrangler by running `wrangler types` (hash: 9885cdf9589166d03dff827f26ac51f2)
 // Runtime types generated with workerd@1.20251202.0 2025-10-08 nodejs_compat
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/worker/index");
 	}
 	interface Env {
+		MCP_API_KEY: "asdf1234";
+		ASSETS_BUCKET: R2Bucket;
 		DB: D1Database;
+		IMPORT_QUEUE: Queue;
 	}
 }
 interface Env extends Cloudflare.Env {}
+type StringifyValues<EnvType extends Record<string, unknown>> = {
+	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
+};
+declare namespace NodeJS {
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "MCP_API_KEY">> {}
+}
 
 // Begin runtime types
 /*! *****************************************************************************